@@ -3,6 +3,7 @@ import { Config } from '@remotion/cli/config';
 Config.setVideoImageFormat('jpeg');
 Config.setOverwriteOutput(true);
 // Output to 'out' directory - our auth-proxy serves this at /out for downloads
+// (and gives each render a versioned name, so renders never overwrite each other)
 Config.setOutputLocation('out/{composition}.{container}');
 
 // Disable lazy compilation in production to avoid SSE errors through proxy
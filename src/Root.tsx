@@ -1,10 +1,30 @@
 import React, { lazy } from 'react';
 import { Composition, Folder } from 'remotion';
+import { getLogoDurationInFrames } from './animations/internal/logo-animation/timing';
+import type { LogoTimingProps } from './animations/internal/logo-animation/timing';
+import { LOGO_ANIMATION_TYPES } from './types/common';
 
-// Lazy load the internal logo animation composition
+// Lazy load the internal logo animation compositions
 const GradientWipeLogoAnimation = lazy(
   () => import('./animations/internal/logo-animation/Composition')
 );
+const LogoAnimationComposition = lazy(
+  () => import('./animations/internal/logo-animation/LogoAnimationComposition')
+);
+
+/** Frame rate of the logo animations, whose timing props are in seconds */
+const LOGO_FPS = 60;
+
+/**
+ * Logo animations are as long as their phases, so longer holds are not cut off
+ */
+const calculateLogoMetadata = ({
+  props,
+}: {
+  props: LogoTimingProps;
+}): { durationInFrames: number } => ({
+  durationInFrames: getLogoDurationInFrames(props, LOGO_FPS),
+});
 
 /**
  * Root component that registers all compositions for Remotion
@@ -17,18 +37,57 @@ export const RemotionRoot: React.FC = () => {
         <Composition
           id="logo-animation-junr-default"
           component={GradientWipeLogoAnimation}
-          durationInFrames={180}
-          fps={60}
+          fps={LOGO_FPS}
+          calculateMetadata={calculateLogoMetadata}
           width={1080}
           height={1080}
           defaultProps={{
             backgroundColor: '#F9F5F3',
             logoScale: 1,
-            revealDuration: 90,
-            holdDuration: 60,
-            exitDuration: 30,
+            revealSeconds: 1.5,
+            holdSeconds: 1,
+            exitSeconds: 0.5,
+          }}
+        />
+        <Composition
+          id="logo-animation-junr-vertical"
+          component={GradientWipeLogoAnimation}
+          fps={LOGO_FPS}
+          calculateMetadata={calculateLogoMetadata}
+          width={1080}
+          height={1920}
+          defaultProps={{
+            backgroundColor: '#F9F5F3',
+            logoScale: 1,
+            revealSeconds: 1.5,
+            holdSeconds: 1,
+            exitSeconds: 0.5,
+            wipeDirection: 'top-to-bottom',
           }}
         />
+
+        {/* One composition per logo animation style, e.g. logo-animation-junr-fade */}
+        <Folder name="Logo-Styles">
+          {LOGO_ANIMATION_TYPES.map((animationType) => (
+            <Composition
+              key={animationType}
+              id={`logo-animation-junr-${animationType}`}
+              component={LogoAnimationComposition}
+              fps={LOGO_FPS}
+              calculateMetadata={calculateLogoMetadata}
+              width={1080}
+              height={1080}
+              defaultProps={{
+                animationType,
+                backgroundColor: '#F9F5F3',
+                logoScale: 1,
+                revealSeconds: 1.5,
+                holdSeconds: 1,
+                exitSeconds: 0.5,
+              }}
+            />
+          ))}
+        </Folder>
       </Folder>
     </>
   );
@@ -2,12 +2,14 @@
  * Internal Logo Animation - Gradient Wipe Reveal
  *
  * A professional logo reveal animation where a gradient "paints" the logo
- * from left to right, progressively filling and revealing the JUNR. logotype.
+ * in the wipe direction (left to right by default), progressively filling
+ * and revealing the JUNR. logotype (or any SVG logo, see logoSource.ts).
  *
- * Animation sequence (180 frames at 60fps = 3 seconds):
- * - Phase 1: Reveal (0-90 frames) - Gradient wipes from left to right
- * - Phase 2: Hold (90-150 frames) - Logo fully visible for brand exposure
- * - Phase 3: Exit (150-180 frames) - Subtle fade out with scale reduction
+ * Default animation sequence (180 frames at 60fps = 3 seconds; the
+ * composition is as long as the phases, see timing.ts):
+ * - Phase 1: Reveal (0-1.5s, frames 0-90) - Gradient wipes across the logo
+ * - Phase 2: Hold (1.5-2.5s, frames 90-150) - Logo fully visible for brand exposure
+ * - Phase 3: Exit (2.5-3s, frames 150-180) - Subtle fade out with scale reduction
  *
  * Quality Standards Applied:
  * - Uses useCurrentFrame() for all animations (NO CSS animations)
@@ -18,9 +20,11 @@
  */
 
 import React, { useMemo } from 'react';
-import { AbsoluteFill } from 'remotion';
+import { AbsoluteFill, useVideoConfig } from 'remotion';
 import type { GradientWipeLogoProps } from './types';
 import { GRADIENT_WIPE_DEFAULTS } from './types';
+import { useLogoSource } from './logoSource';
+import { resolveLogoTiming } from './timing';
 import { LogoReveal } from './components';
 
 /**
@@ -32,10 +36,18 @@ import { LogoReveal } from './components';
 const GradientWipeLogoAnimation: React.FC<GradientWipeLogoProps> = ({
   backgroundColor = GRADIENT_WIPE_DEFAULTS.backgroundColor,
   logoScale = GRADIENT_WIPE_DEFAULTS.logoScale,
-  revealDuration = GRADIENT_WIPE_DEFAULTS.revealDuration,
-  holdDuration = GRADIENT_WIPE_DEFAULTS.holdDuration,
-  exitDuration = GRADIENT_WIPE_DEFAULTS.exitDuration,
+  wipeDirection = GRADIENT_WIPE_DEFAULTS.wipeDirection,
+  logoSrc = GRADIENT_WIPE_DEFAULTS.logoSrc,
+  logoSvg,
+  logoAccent,
+  ...timingProps
 }) => {
+  const { fps } = useVideoConfig();
+  const { revealDuration, holdDuration, exitDuration } = resolveLogoTiming(timingProps, fps);
+
+  // The render waits until the logo SVG is loaded
+  const logo = useLogoSource({ src: logoSrc, svg: logoSvg, accent: logoAccent });
+
   // Memoize the container style to avoid creating new objects each frame
   const containerStyle = useMemo(
     (): React.CSSProperties => ({
@@ -49,12 +61,16 @@ const GradientWipeLogoAnimation: React.FC<GradientWipeLogoProps> = ({
 
   return (
     <AbsoluteFill style={containerStyle}>
-      <LogoReveal
-        scale={logoScale}
-        revealDuration={revealDuration}
-        holdDuration={holdDuration}
-        exitDuration={exitDuration}
-      />
+      {logo && (
+        <LogoReveal
+          logo={logo}
+          scale={logoScale}
+          revealDuration={revealDuration}
+          holdDuration={holdDuration}
+          exitDuration={exitDuration}
+          wipeDirection={wipeDirection}
+        />
+      )}
     </AbsoluteFill>
   );
 };
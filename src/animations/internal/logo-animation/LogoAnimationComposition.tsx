@@ -0,0 +1,80 @@
+/**
+ * Internal Logo Animation - Selectable Style
+ *
+ * The JUNR. logotype animated with one of the LogoAnimationType styles
+ * (fade, scale, bounce, slide, rotate, wipe, glitch). Registered once per
+ * style in Root.tsx, so the ERP picks a style by composition ID.
+ *
+ * Default animation sequence (180 frames at 60fps = 3 seconds; the
+ * composition is as long as the phases, see timing.ts), shared by every style:
+ * - Phase 1: Reveal (0-1.5s, frames 0-90) - the style brings the logo in
+ * - Phase 2: Hold (1.5-2.5s, frames 90-150) - Logo fully visible for brand exposure
+ * - Phase 3: Exit (2.5-3s, frames 150-180) - Subtle fade out with scale reduction
+ *
+ * Quality Standards Applied:
+ * - Uses useCurrentFrame() for all animations (NO CSS animations)
+ * - Uses type (not interface) for props
+ * - Memoizes expensive calculations
+ * - All props are JSON-serializable
+ */
+
+import React, { useMemo } from 'react';
+import { AbsoluteFill, useVideoConfig } from 'remotion';
+import type { LogoAnimationCompositionProps } from './types';
+import { GRADIENT_WIPE_DEFAULTS } from './types';
+import { useLogoSource } from './logoSource';
+import { resolveLogoTiming } from './timing';
+import { LogoAnimation } from './components';
+
+/**
+ * Logo Animation Composition with a selectable style
+ *
+ * @param props - Animation configuration props
+ * @returns The complete logo animation composition
+ */
+const LogoAnimationComposition: React.FC<LogoAnimationCompositionProps> = ({
+  animationType,
+  backgroundColor = GRADIENT_WIPE_DEFAULTS.backgroundColor,
+  logoScale = GRADIENT_WIPE_DEFAULTS.logoScale,
+  wipeDirection = GRADIENT_WIPE_DEFAULTS.wipeDirection,
+  logoSrc = GRADIENT_WIPE_DEFAULTS.logoSrc,
+  logoSvg,
+  logoAccent,
+  ...timingProps
+}) => {
+  const { fps } = useVideoConfig();
+  const { revealDuration, holdDuration, exitDuration } = resolveLogoTiming(timingProps, fps);
+
+  // The render waits until the logo SVG is loaded
+  const logo = useLogoSource({ src: logoSrc, svg: logoSvg, accent: logoAccent });
+
+  // Memoize the container style to avoid creating new objects each frame
+  const containerStyle = useMemo(
+    (): React.CSSProperties => ({
+      backgroundColor,
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+    }),
+    [backgroundColor]
+  );
+
+  return (
+    <AbsoluteFill style={containerStyle}>
+      {logo && (
+        <LogoAnimation
+          logo={logo}
+          animationType={animationType}
+          scale={logoScale}
+          revealDuration={revealDuration}
+          holdDuration={holdDuration}
+          exitDuration={exitDuration}
+          wipeDirection={wipeDirection}
+        />
+      )}
+    </AbsoluteFill>
+  );
+};
+
+// Default export required for lazy loading in Root.tsx
+export default LogoAnimationComposition;
@@ -0,0 +1,208 @@
+/**
+ * LogoAnimation Component - Selectable logo animation styles
+ *
+ * Renders a logo (the JUNR. logotype by default) with one of the LogoAnimationType styles:
+ * - fade: opacity fades in
+ * - scale: grows from 60% while fading in
+ * - bounce: springs in past full size and settles
+ * - slide: slides in from the left
+ * - rotate: turns in from -90° while growing
+ * - wipe: the gradient paint roller of LogoReveal (with the bouncing dot)
+ * - glitch: jitters, flickers and splits into red/cyan copies until it settles
+ *
+ * Every style shares the reveal/hold/exit phase timing (in seconds) and draws the same
+ * logo paths (accent included), filled with the gradient used by LogoReveal.
+ *
+ * Quality Standards Applied:
+ * - Uses useCurrentFrame() for all animations (NO CSS animations)
+ * - Uses type (not interface) for props
+ * - Memoizes expensive calculations
+ * - Uses staticFile() for asset paths
+ */
+
+import React, { useMemo } from 'react';
+import { useCurrentFrame, useVideoConfig, staticFile } from 'remotion';
+import type { LogoSource } from '../logoSource';
+import type { LogoAnimationProps } from '../types';
+import { BASE_LOGO_WIDTH, LogoReveal } from './LogoReveal';
+import { getLogoAnimationFrame } from './logoAnimationFrame';
+import type { LogoFrameAnimationType } from './logoAnimationFrame';
+
+// Tints of the glitch copies
+const GLITCH_COLORS = ['#FF2D55', '#00E5FF'] as const;
+
+type LogoAnimationFrameProps = Omit<LogoAnimationProps, 'animationType'> & {
+  animationType: LogoFrameAnimationType;
+};
+
+/**
+ * SVG viewBox attribute of a logo
+ */
+const viewBoxOf = ({ viewBox }: LogoSource): string =>
+  `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`;
+
+/**
+ * Every path of a logo, including the accent
+ */
+const pathsOf = ({ paths, accent }: LogoSource): string[] =>
+  (accent ? [...paths, accent] : paths).map(({ d }) => d);
+
+/**
+ * Logo as SVG paths, including the accent
+ */
+const LogoShape: React.FC<{ logo: LogoSource; fill: string; style: React.CSSProperties }> = ({
+  logo,
+  fill,
+  style,
+}) => (
+  <svg viewBox={viewBoxOf(logo)} style={style}>
+    {pathsOf(logo).map((path, index) => (
+      <path key={index} d={path} fill={fill} />
+    ))}
+  </svg>
+);
+
+/**
+ * Every style but 'wipe', driven by getLogoAnimationFrame
+ */
+const FrameLogoAnimation: React.FC<LogoAnimationFrameProps> = ({
+  animationType,
+  logo,
+  scale,
+  revealDuration,
+  holdDuration,
+  exitDuration,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, width: compositionWidth, height: compositionHeight } = useVideoConfig();
+
+  // Memoize the gradient source
+  const gradientSrc = useMemo(
+    () => staticFile('assets/internal/backgrounds/gradient-light-2-inverted.png'),
+    []
+  );
+
+  // Calculate logo dimensions and position (same layout as LogoReveal)
+  const logoDimensions = useMemo(() => {
+    const logoWidth = BASE_LOGO_WIDTH * scale;
+    const logoHeight = (logo.viewBox.height / logo.viewBox.width) * BASE_LOGO_WIDTH * scale;
+    const logoLeft = (compositionWidth - logoWidth) / 2;
+    const logoTop = (compositionHeight - logoHeight) / 2;
+    return { logoWidth, logoHeight, logoLeft, logoTop };
+  }, [logo.viewBox, scale, compositionWidth, compositionHeight]);
+
+  const animationValues = useMemo(
+    () =>
+      getLogoAnimationFrame(animationType, frame, fps, {
+        revealDuration,
+        holdDuration,
+        exitDuration,
+      }),
+    [animationType, frame, fps, revealDuration, holdDuration, exitDuration]
+  );
+
+  // Memoize container style
+  const containerStyle = useMemo(
+    (): React.CSSProperties => ({
+      position: 'relative',
+      width: '100%',
+      height: '100%',
+    }),
+    []
+  );
+
+  // Memoize logo wrapper style (position, transform and opacity)
+  const logoWrapperStyle = useMemo((): React.CSSProperties => {
+    const { translateX, translateY, rotate, opacity } = animationValues;
+    const x = translateX * logoDimensions.logoWidth;
+    const y = translateY * logoDimensions.logoHeight;
+    return {
+      position: 'absolute',
+      left: logoDimensions.logoLeft,
+      top: logoDimensions.logoTop,
+      width: logoDimensions.logoWidth,
+      height: logoDimensions.logoHeight,
+      transform: `translate(${x}px, ${y}px) rotate(${rotate}deg) scale(${animationValues.scale})`,
+      transformOrigin: 'center',
+      opacity,
+    };
+  }, [logoDimensions, animationValues]);
+
+  // Memoize logo SVG style
+  const logoSvgStyle = useMemo(
+    (): React.CSSProperties => ({
+      position: 'absolute',
+      inset: 0,
+      width: '100%',
+      height: '100%',
+      overflow: 'visible',
+    }),
+    []
+  );
+
+  // Memoize the red/cyan copy styles, offset to either side
+  const glitchStyles = useMemo(
+    (): React.CSSProperties[] =>
+      GLITCH_COLORS.map((_color, index) => ({
+        ...logoSvgStyle,
+        transform: `translateX(${(index === 0 ? -1 : 1) * animationValues.rgbSplit * logoDimensions.logoWidth}px)`,
+        mixBlendMode: 'multiply',
+        opacity: 0.8,
+      })),
+    [logoSvgStyle, animationValues.rgbSplit, logoDimensions.logoWidth]
+  );
+
+  // Memoize the clipPath ID
+  const clipPathId = useMemo(() => `junr-logo-${animationType}-clip`, [animationType]);
+
+  return (
+    <div style={containerStyle}>
+      <div style={logoWrapperStyle}>
+        {animationValues.rgbSplit > 0 &&
+          GLITCH_COLORS.map((color, index) => (
+            <LogoShape
+              key={color}
+              logo={logo}
+              fill={color}
+              style={glitchStyles[index] ?? logoSvgStyle}
+            />
+          ))}
+
+        <svg viewBox={viewBoxOf(logo)} style={logoSvgStyle} aria-label="Logo">
+          <defs>
+            {/* Define the logo shape as a clip path */}
+            <clipPath id={clipPathId}>
+              {pathsOf(logo).map((path, index) => (
+                <path key={index} d={path} />
+              ))}
+            </clipPath>
+          </defs>
+
+          {/* Logo shape filled with gradient */}
+          <g clipPath={`url(#${clipPathId})`}>
+            <image
+              href={gradientSrc}
+              x={logo.viewBox.x}
+              y={logo.viewBox.y}
+              width={logo.viewBox.width}
+              height={logo.viewBox.height}
+              preserveAspectRatio="xMidYMid slice"
+            />
+          </g>
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * LogoAnimation component rendering the selected animation style
+ */
+export const LogoAnimation: React.FC<LogoAnimationProps> = ({ animationType, ...props }) => {
+  if (animationType === 'wipe') {
+    return <LogoReveal {...props} />;
+  }
+  return <FrameLogoAnimation animationType={animationType} {...props} />;
+};
+
+export default LogoAnimation;
@@ -0,0 +1,113 @@
+/**
+ * Tests for the bouncing dot physics
+ * Ensures the drop lands, settles, and moves the same at every frame rate
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BOUNCING_DOT_DEFAULTS } from '../types';
+import {
+  calculateBounceX,
+  calculateBounceY,
+  calculateDeformation,
+  getBounceSettleTime,
+} from './bouncePhysics';
+
+const PHYSICS = {
+  dropHeight: BOUNCING_DOT_DEFAULTS.dropHeight,
+  bounceCount: BOUNCING_DOT_DEFAULTS.bounceCount,
+  energyRetention: BOUNCING_DOT_DEFAULTS.energyRetention,
+};
+const { maxSquash, maxStretch, startXOffset } = BOUNCING_DOT_DEFAULTS;
+const FINAL_Y = 314.32;
+const FRAME_RATES = [24, 30, 60];
+
+/**
+ * Dot at a frame, the way BouncingDot samples the physics
+ */
+const dotAt = (
+  frame: number,
+  fps: number
+): { x: number; y: number; scaleX: number; scaleY: number } => {
+  const time = frame / fps;
+  return {
+    x: calculateBounceX(time, startXOffset, PHYSICS),
+    y: calculateBounceY(time, FINAL_Y, PHYSICS),
+    ...calculateDeformation(time, maxSquash, maxStretch, PHYSICS),
+  };
+};
+
+describe('Bounce physics', () => {
+  it('should drop from above and land after the fall', () => {
+    expect(calculateBounceY(0, FINAL_Y, PHYSICS)).toBeCloseTo(FINAL_Y - PHYSICS.dropHeight, 5);
+    expect(calculateBounceY(1 / 3, FINAL_Y, PHYSICS)).toBeCloseTo(FINAL_Y, 5);
+    expect(calculateBounceX(0, startXOffset, PHYSICS)).toBeCloseTo(startXOffset, 5);
+  });
+
+  it('should settle in place as long as at the original 60 fps timing', () => {
+    // 20 frames of fall plus bounces of about 21, 15 and 11 frames at 60 fps
+    const settle = getBounceSettleTime(PHYSICS);
+    expect(settle * 60).toBeCloseTo(67.6, 1);
+    expect(calculateBounceY(settle, FINAL_Y, PHYSICS)).toBe(FINAL_Y);
+    expect(calculateBounceX(settle, startXOffset, PHYSICS)).toBe(0);
+    expect(calculateDeformation(settle + 0.1, maxSquash, maxStretch, PHYSICS)).toEqual({
+      scaleX: 1,
+      scaleY: 1,
+    });
+  });
+
+  it('should only ever bounce lower', () => {
+    const peaks: number[] = [];
+    let previous = calculateBounceY(1 / 3, 0, PHYSICS);
+    let rising = false;
+    for (let time = 1 / 3; time <= getBounceSettleTime(PHYSICS); time += 1 / 240) {
+      const y = calculateBounceY(time, 0, PHYSICS);
+      if (rising && y > previous) {
+        peaks.push(-previous);
+      }
+      rising = y < previous;
+      previous = y;
+    }
+    expect(peaks).toHaveLength(PHYSICS.bounceCount);
+    for (let i = 1; i < peaks.length; i++) {
+      expect(peaks[i]).toBeLessThan(peaks[i - 1] ?? Infinity);
+    }
+  });
+});
+
+describe('Frame rate independence', () => {
+  it('should place the dot the same at 24, 30 and 60 fps', () => {
+    // Every sixth of a second is a whole frame at all three rates
+    for (let sixth = 0; sixth <= 9; sixth++) {
+      const [reference, ...others] = FRAME_RATES.map((fps) => dotAt((sixth * fps) / 6, fps));
+      for (const dot of others) {
+        expect(dot).toEqual(reference);
+      }
+    }
+  });
+
+  it('should settle at the same time at 24, 30 and 60 fps', () => {
+    // First frame after the last one still in the air
+    const settleTimes = FRAME_RATES.map((fps) => {
+      const frames = Array.from({ length: 2 * fps }, (_, frame) => dotAt(frame, fps).y);
+      const settledFrame = frames.length - [...frames].reverse().findIndex((y) => y !== FINAL_Y);
+      return settledFrame / fps;
+    });
+    for (const time of settleTimes) {
+      expect(time).toBeGreaterThanOrEqual(getBounceSettleTime(PHYSICS));
+      expect(time).toBeLessThan(getBounceSettleTime(PHYSICS) + 1 / 24);
+    }
+  });
+
+  it('should squash about as hard at 24, 30 and 60 fps', () => {
+    const squashes = FRAME_RATES.map((fps) =>
+      Math.min(
+        ...Array.from({ length: Math.ceil(1.5 * fps) }, (_, frame) => dotAt(frame, fps).scaleY)
+      )
+    );
+    for (const squash of squashes) {
+      expect(squash).toBeLessThan(1);
+      expect(squash).toBeGreaterThanOrEqual(maxSquash);
+    }
+    expect(Math.max(...squashes) - Math.min(...squashes)).toBeLessThan(0.1);
+  });
+});
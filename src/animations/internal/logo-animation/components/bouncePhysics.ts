@@ -0,0 +1,186 @@
+/**
+ * Bounce Physics - position and squash/stretch of the bouncing dot over time
+ *
+ * Everything is a function of the time since the drop in seconds, so the
+ * bounce lasts as long and squashes the same at any frame rate; callers
+ * convert frames with useVideoConfig().fps.
+ *
+ * - Fall: quad ease-in from dropHeight above the resting position (gravity)
+ * - Bounces: parabolic arcs losing energy each time, with durations
+ *   proportional to the square root of their height (t = sqrt(2h/g))
+ * - Deformation: stretch while moving fast, squash on impact
+ *
+ * Quality Standards Applied:
+ * - Pure functions of time (NO CSS animations), so every frame renders the same
+ * - All interpolate calls are clamped
+ */
+
+import { interpolate, Easing } from 'remotion';
+
+/**
+ * Drop parameters shared by every calculation
+ */
+export type BouncePhysics = {
+  /** Drop height in viewBox units */
+  dropHeight: number;
+  /** Number of bounces after the fall */
+  bounceCount: number;
+  /** Share of the height kept after each bounce (0-1) */
+  energyRetention: number;
+};
+
+// Duration of the initial fall in seconds (20 frames at 60 fps)
+const FALL_DURATION = 1 / 3;
+
+// Consistent multiplier for both X and Y bounce durations
+const BOUNCE_DURATION_MULTIPLIER = 1.4;
+
+// Time step of the velocity estimate, in seconds
+const VELOCITY_SAMPLE = 1 / 60;
+
+// eslint-disable-next-line @typescript-eslint/unbound-method
+const easeInQuad = Easing.in(Easing.quad);
+// eslint-disable-next-line @typescript-eslint/unbound-method
+const easeOutQuad = Easing.out(Easing.quad);
+
+/**
+ * Height of each bounce, decaying with the energy retention
+ */
+const getBounceHeights = ({
+  dropHeight,
+  bounceCount,
+  energyRetention,
+}: BouncePhysics): number[] => {
+  const bounceHeights: number[] = [];
+  let currentHeight = dropHeight * energyRetention;
+  for (let i = 0; i < bounceCount; i++) {
+    bounceHeights.push(currentHeight);
+    currentHeight *= energyRetention;
+  }
+  return bounceHeights;
+};
+
+/**
+ * Duration of each bounce in seconds
+ */
+const getBounceDurations = (physics: BouncePhysics): number[] =>
+  getBounceHeights(physics).map(
+    (h) => Math.sqrt(h / physics.dropHeight) * FALL_DURATION * BOUNCE_DURATION_MULTIPLIER
+  );
+
+/**
+ * Time from the start of the drop until the dot rests, in seconds
+ */
+export const getBounceSettleTime = (physics: BouncePhysics): number =>
+  FALL_DURATION + getBounceDurations(physics).reduce((a, b) => a + b, 0);
+
+/**
+ * Calculate Y position for bouncing ball physics
+ * Uses true parabolic motion for realistic gravity-based bouncing
+ *
+ * @param time - Seconds since the drop started
+ */
+export const calculateBounceY = (time: number, finalY: number, physics: BouncePhysics): number => {
+  const { dropHeight } = physics;
+
+  // Phase 1: Initial fall (use quad easing for gravity feel)
+  if (time < FALL_DURATION) {
+    return interpolate(time, [0, FALL_DURATION], [finalY - dropHeight, finalY], {
+      extrapolateLeft: 'clamp',
+      extrapolateRight: 'clamp',
+      easing: easeInQuad,
+    });
+  }
+
+  // Phase 2+: Bounces - true parabolic arc (sine wave = natural projectile motion)
+  const bounceHeights = getBounceHeights(physics);
+  const bounceDurations = getBounceDurations(physics);
+  let bounceStart = FALL_DURATION;
+  for (let i = 0; i < bounceHeights.length; i++) {
+    const bounceHeight = bounceHeights[i] ?? 0;
+    const bounceDuration = bounceDurations[i] ?? 0;
+
+    if (bounceDuration === 0) continue;
+
+    if (time < bounceStart + bounceDuration) {
+      // sin(π * t) gives smooth acceleration into the apex and out of it
+      const bounceProgress = (time - bounceStart) / bounceDuration;
+      return finalY - bounceHeight * Math.sin(bounceProgress * Math.PI);
+    }
+
+    bounceStart += bounceDuration;
+  }
+
+  // Settled
+  return finalY;
+};
+
+/**
+ * Calculate X offset for the diagonal trajectory
+ * Dot starts startXOffset away from its final position and drifts into it
+ *
+ * @param time - Seconds since the drop started
+ */
+export const calculateBounceX = (
+  time: number,
+  startXOffset: number,
+  physics: BouncePhysics
+): number =>
+  // Smooth ease-out for natural deceleration as the ball loses energy
+  interpolate(
+    time,
+    [0, FALL_DURATION, getBounceSettleTime(physics)],
+    [startXOffset, startXOffset * 0.3, 0],
+    {
+      extrapolateLeft: 'clamp',
+      extrapolateRight: 'clamp',
+      easing: easeOutQuad, // Quad matches gravity physics better
+    }
+  );
+
+/**
+ * Calculate squash/stretch deformation based on velocity
+ * Stretch when moving fast, squash at impact, volume preserved
+ *
+ * @param time - Seconds since the drop started
+ */
+export const calculateDeformation = (
+  time: number,
+  maxSquash: number,
+  maxStretch: number,
+  physics: BouncePhysics
+): { scaleX: number; scaleY: number } => {
+  const { dropHeight } = physics;
+
+  // Velocity in units per second, central difference for smoothness (positive = moving down)
+  const prevY = calculateBounceY(time - VELOCITY_SAMPLE, 0, physics);
+  const nextY = calculateBounceY(time + VELOCITY_SAMPLE, 0, physics);
+  const velocity = (nextY - prevY) / (2 * VELOCITY_SAMPLE);
+
+  // Normalize velocity (max velocity occurs at ground impact from initial drop)
+  const maxVelocity = dropHeight / FALL_DURATION;
+  const normalizedSpeed = Math.min(1, Math.abs(velocity) / maxVelocity);
+
+  // Smooth the speed response for subtler deformation
+  const speedFactor = Math.pow(normalizedSpeed, 0.8);
+
+  // Ground proximity (0 = at ground, 1 = far from ground), smoothstep for gradual squash onset
+  const groundThreshold = dropHeight * 0.15;
+  const distanceFromGround = Math.abs(calculateBounceY(time, 0, physics));
+  const groundProximity = Math.min(1, distanceFromGround / groundThreshold);
+  const smoothGroundProximity = groundProximity * groundProximity * (3 - 2 * groundProximity);
+
+  // Squash when near ground AND moving down, stretch when moving fast in the air
+  const squashFactor = velocity > 0 ? (1 - smoothGroundProximity) * speedFactor : 0;
+  const stretchFactor = smoothGroundProximity * speedFactor;
+
+  const scaleY = interpolate(
+    squashFactor - stretchFactor * 0.5,
+    [-0.5, 0, 1],
+    [maxStretch, 1, maxSquash],
+    { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' }
+  );
+
+  // Preserve volume: if scaleY shrinks, scaleX expands
+  return { scaleX: 1 / scaleY, scaleY };
+};
@@ -4,3 +4,4 @@
 
 export { LogoReveal } from './LogoReveal';
 export { BouncingDot } from './BouncingDot';
+export { LogoAnimation } from './LogoAnimation';
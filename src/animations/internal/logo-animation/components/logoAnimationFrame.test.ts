@@ -0,0 +1,90 @@
+/**
+ * Tests for the logo animation styles
+ * Ensures every style shares the reveal/hold/exit phases
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLogoAnimationFrame, getLogoPhaseProgress } from './logoAnimationFrame';
+import type { LogoFrameAnimationType } from './logoAnimationFrame';
+
+const FPS = 60;
+const TIMING = { revealDuration: 1.5, holdDuration: 1, exitDuration: 0.5 };
+const STYLES: LogoFrameAnimationType[] = ['fade', 'scale', 'bounce', 'slide', 'rotate', 'glitch'];
+
+const REST = { opacity: 1, translateX: 0, translateY: 0, scale: 1, rotate: 0, rgbSplit: 0 };
+
+describe('Logo phase progress', () => {
+  it('should progress through reveal, then hold, then exit', () => {
+    expect(getLogoPhaseProgress(0, FPS, TIMING)).toEqual({ reveal: 0, exit: 0 });
+    expect(getLogoPhaseProgress(45, FPS, TIMING)).toEqual({ reveal: 0.5, exit: 0 });
+    expect(getLogoPhaseProgress(120, FPS, TIMING)).toEqual({ reveal: 1, exit: 0 });
+    expect(getLogoPhaseProgress(165, FPS, TIMING)).toEqual({ reveal: 1, exit: 0.5 });
+    expect(getLogoPhaseProgress(200, FPS, TIMING)).toEqual({ reveal: 1, exit: 1 });
+  });
+
+  it('should last as long at 24, 30 and 60 fps', () => {
+    for (const fps of [24, 30, 60]) {
+      expect(getLogoPhaseProgress(0.75 * fps, fps, TIMING)).toEqual({ reveal: 0.5, exit: 0 });
+      expect(getLogoPhaseProgress(2.75 * fps, fps, TIMING)).toEqual({ reveal: 1, exit: 0.5 });
+    }
+  });
+});
+
+describe.each(STYLES)('Logo animation style %s', (style) => {
+  it('should start hidden', () => {
+    expect(getLogoAnimationFrame(style, 0, FPS, TIMING).opacity).toBeCloseTo(0, 5);
+  });
+
+  it('should be at rest for the whole hold phase', () => {
+    for (let frame = 90; frame <= 150; frame++) {
+      expect(getLogoAnimationFrame(style, frame, FPS, TIMING)).toEqual(REST);
+    }
+  });
+
+  it('should share the exit with LogoReveal', () => {
+    const end = getLogoAnimationFrame(style, 180, FPS, TIMING);
+    expect(end.opacity).toBeCloseTo(0, 5);
+    expect(end.scale).toBeCloseTo(0.97, 5);
+  });
+
+  it('should return the same values for the same frame', () => {
+    for (let frame = 0; frame <= 180; frame += 7) {
+      expect(getLogoAnimationFrame(style, frame, FPS, TIMING)).toEqual(
+        getLogoAnimationFrame(style, frame, FPS, TIMING)
+      );
+    }
+  });
+});
+
+describe('Logo animation style details', () => {
+  it('should overshoot full size when bouncing', () => {
+    const scales = Array.from(
+      { length: 90 },
+      (_, frame) => getLogoAnimationFrame('bounce', frame, FPS, TIMING).scale
+    );
+    expect(Math.max(...scales)).toBeGreaterThan(1);
+  });
+
+  it('should slide in from the left and rotate in counter-clockwise', () => {
+    expect(getLogoAnimationFrame('slide', 0, FPS, TIMING).translateX).toBeCloseTo(-0.3, 5);
+    expect(getLogoAnimationFrame('rotate', 0, FPS, TIMING).rotate).toBeCloseTo(-90, 5);
+  });
+
+  it('should spring the same way at 24, 30 and 60 fps', () => {
+    // 0.5 s into the reveal is a whole frame at every rate
+    const scales = [24, 30, 60].map(
+      (fps) => getLogoAnimationFrame('bounce', 0.5 * fps, fps, TIMING).scale
+    );
+    for (const scale of scales) {
+      expect(scale).toBeCloseTo(scales[0] ?? NaN, 2);
+    }
+  });
+
+  it('should split colors while glitching in', () => {
+    const splits = Array.from(
+      { length: 45 },
+      (_, frame) => getLogoAnimationFrame('glitch', frame, FPS, TIMING).rgbSplit
+    );
+    expect(splits.some((split) => split > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Logo Animation Frames - per-style transform of the logo at a given frame
+ *
+ * Every style shares the same three phases, timed in seconds so they last as
+ * long at any frame rate:
+ * - Reveal (0 to revealDuration) - the style brings the logo in
+ * - Hold (until revealDuration + holdDuration) - logo at rest
+ * - Exit (exitDuration seconds) - fade out with a slight scale reduction,
+ *   the same exit as LogoReveal
+ *
+ * 'wipe' is not handled here: it is the gradient wipe of LogoReveal.
+ *
+ * Quality Standards Applied:
+ * - Pure functions of the frame (NO CSS animations), so every frame renders the same
+ * - All interpolate calls are clamped
+ * - Glitch noise comes from random() with a per-frame seed, never Math.random()
+ */
+
+import { interpolate, spring, random, Easing } from 'remotion';
+import type { LogoAnimationType } from '../../../../types/common';
+import { SPRING_PRESETS } from '../../../../types/common';
+import type { LogoAnimationProps } from '../types';
+
+/**
+ * Styles drawn by LogoAnimation itself
+ */
+export type LogoFrameAnimationType = Exclude<LogoAnimationType, 'wipe'>;
+
+/**
+ * Phase durations shared by every style, in seconds
+ */
+export type LogoPhaseTiming = Pick<
+  LogoAnimationProps,
+  'revealDuration' | 'holdDuration' | 'exitDuration'
+>;
+
+/**
+ * Progress through the reveal and exit phases (0 to 1 each)
+ */
+export type LogoPhaseProgress = {
+  reveal: number;
+  exit: number;
+};
+
+/**
+ * Logo transform at one frame; offsets are in fractions of the logo size
+ */
+export type LogoAnimationFrame = {
+  opacity: number;
+  /** Horizontal offset from the resting position, in logo widths */
+  translateX: number;
+  /** Vertical offset from the resting position, in logo heights */
+  translateY: number;
+  scale: number;
+  /** Rotation in degrees */
+  rotate: number;
+  /** Offset of the red and cyan glitch copies, in logo widths (0 = hidden) */
+  rgbSplit: number;
+};
+
+const CLAMP = { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' } as const;
+
+// eslint-disable-next-line @typescript-eslint/unbound-method
+const easeOutCubic = Easing.out(Easing.cubic);
+// eslint-disable-next-line @typescript-eslint/unbound-method
+const easeInQuad = Easing.in(Easing.quad);
+
+/** Logo at rest, as during the hold phase */
+const REST: LogoAnimationFrame = {
+  opacity: 1,
+  translateX: 0,
+  translateY: 0,
+  scale: 1,
+  rotate: 0,
+  rgbSplit: 0,
+};
+
+/**
+ * Calculate progress through the reveal and exit phases
+ */
+export const getLogoPhaseProgress = (
+  frame: number,
+  fps: number,
+  { revealDuration, holdDuration, exitDuration }: LogoPhaseTiming
+): LogoPhaseProgress => {
+  const time = frame / fps;
+  const exitStart = revealDuration + holdDuration;
+  return {
+    reveal: interpolate(time, [0, revealDuration], [0, 1], CLAMP),
+    exit: interpolate(time, [exitStart, exitStart + exitDuration], [0, 1], CLAMP),
+  };
+};
+
+/**
+ * Calculate the reveal phase of a style; reveal = 1 must give REST
+ */
+const revealFrame = (
+  animationType: LogoFrameAnimationType,
+  frame: number,
+  fps: number,
+  reveal: number,
+  revealDuration: number
+): LogoAnimationFrame => {
+  const eased = easeOutCubic(reveal);
+
+  switch (animationType) {
+    case 'fade':
+      return { ...REST, opacity: eased };
+
+    case 'scale':
+      return {
+        ...REST,
+        opacity: interpolate(reveal, [0, 0.4], [0, 1], CLAMP),
+        scale: interpolate(eased, [0, 1], [0.6, 1], CLAMP),
+      };
+
+    case 'bounce': {
+      // Springs overshoot, so the logo grows past full size and settles back
+      const springValue = spring({
+        frame,
+        fps,
+        config: SPRING_PRESETS.bouncy,
+        durationInFrames: revealDuration * fps,
+      });
+      return {
+        ...REST,
+        opacity: interpolate(reveal, [0, 0.15], [0, 1], CLAMP),
+        scale: reveal < 1 ? springValue : 1,
+      };
+    }
+
+    case 'slide':
+      return {
+        ...REST,
+        opacity: interpolate(reveal, [0, 0.5], [0, 1], CLAMP),
+        translateX: interpolate(eased, [0, 1], [-0.3, 0], CLAMP),
+      };
+
+    case 'rotate':
+      return {
+        ...REST,
+        opacity: interpolate(reveal, [0, 0.4], [0, 1], CLAMP),
+        scale: interpolate(eased, [0, 1], [0.7, 1], CLAMP),
+        rotate: interpolate(eased, [0, 1], [-90, 0], CLAMP),
+      };
+
+    case 'glitch': {
+      if (reveal >= 1) {
+        return REST;
+      }
+      // Noise fades out as the reveal completes; the seed keeps each frame stable
+      const intensity = 1 - eased;
+      const flicker = random(`logo-glitch-flicker-${frame}`) < intensity * 0.5;
+      return {
+        ...REST,
+        opacity: interpolate(reveal, [0, 0.15], [0, 1], CLAMP) * (flicker ? 0.3 : 1),
+        translateX: (random(`logo-glitch-x-${frame}`) - 0.5) * 0.08 * intensity,
+        translateY: (random(`logo-glitch-y-${frame}`) - 0.5) * 0.04 * intensity,
+        rgbSplit: random(`logo-glitch-split-${frame}`) * 0.03 * intensity,
+      };
+    }
+  }
+};
+
+/**
+ * Calculate the logo transform of a style at a frame
+ */
+export const getLogoAnimationFrame = (
+  animationType: LogoFrameAnimationType,
+  frame: number,
+  fps: number,
+  timing: LogoPhaseTiming
+): LogoAnimationFrame => {
+  const { reveal, exit } = getLogoPhaseProgress(frame, fps, timing);
+  const revealed = revealFrame(animationType, frame, fps, reveal, timing.revealDuration);
+
+  // Shared exit: fade out and shrink to 97%
+  const exitEased = easeInQuad(exit);
+  return {
+    ...revealed,
+    opacity: revealed.opacity * (1 - exitEased),
+    scale: revealed.scale * interpolate(exitEased, [0, 1], [1, 0.97], CLAMP),
+  };
+};
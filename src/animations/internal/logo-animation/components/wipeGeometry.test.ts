@@ -0,0 +1,120 @@
+/**
+ * Tests for the wipe geometry
+ * Ensures every wipe direction starts hidden, ends revealed and moves the right way
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WipeDirection } from '../../../../types/common';
+import { getStripMask, getStripTransform, getWipeFrame } from './wipeGeometry';
+
+// The default layout: an 800px wide logo centered in a 1080x1080 composition
+const COMPOSITION = { width: 1080, height: 1080 };
+const LOGO = { left: 140, top: 436, width: 800, height: 208 };
+
+const DIRECTIONS: WipeDirection[] = [
+  'left-to-right',
+  'right-to-left',
+  'top-to-bottom',
+  'bottom-to-top',
+  'top-left-to-bottom-right',
+  'top-right-to-bottom-left',
+  'bottom-left-to-top-right',
+  'bottom-right-to-top-left',
+  'iris-out',
+  'iris-in',
+];
+
+const wipeAt = (direction: WipeDirection, progress: number): ReturnType<typeof getWipeFrame> =>
+  getWipeFrame(direction, progress, LOGO, COMPOSITION);
+
+describe.each(DIRECTIONS)('Wipe %s', (direction) => {
+  it('should start with the logo hidden and end with it revealed', () => {
+    expect(wipeAt(direction, 0).revealed).toBe(0);
+    expect(wipeAt(direction, 1).revealed).toBe(1);
+    expect(wipeAt(direction, 1).logoClip).toEqual({});
+  });
+
+  it('should only ever reveal more of the logo', () => {
+    let previous = 0;
+    for (let progress = 0; progress <= 1; progress += 0.01) {
+      const { revealed } = wipeAt(direction, progress);
+      expect(revealed).toBeGreaterThanOrEqual(previous);
+      previous = revealed;
+    }
+  });
+});
+
+describe('Linear wipes', () => {
+  it('should match the original left-to-right paint roller', () => {
+    // Strip travels from -800 to 1080; at 50% its left edge is at x = 140 (the logo's left)
+    const wipe = wipeAt('left-to-right', 0.5);
+    expect(wipe.stripOffset).toEqual({ x: 0, y: 0 });
+    expect(wipe.logoClip).toEqual({ clipPath: 'inset(0 100% 0 0)' });
+
+    const later = wipeAt('left-to-right', 0.7);
+    expect(later.revealed).toBeCloseTo(0.47, 5);
+    expect(later.stripOffset.x).toBeCloseTo(376, 5);
+  });
+
+  it('should hide the side the wipe is heading towards', () => {
+    expect(wipeAt('right-to-left', 0.6).logoClip.clipPath).toMatch(/^inset\(0 0 0 \d/);
+    expect(wipeAt('top-to-bottom', 0.6).logoClip.clipPath).toMatch(/^inset\(0 0 \d/);
+    expect(wipeAt('bottom-to-top', 0.6).logoClip.clipPath).toMatch(/^inset\(\d/);
+  });
+
+  it('should move the strip along its own axis only', () => {
+    const vertical = wipeAt('top-to-bottom', 0.3);
+    expect(vertical.stripOffset.x).toBe(0);
+    expect(vertical.stripOffset.y).toBeLessThan(0);
+
+    const reversed = wipeAt('right-to-left', 0.3);
+    expect(reversed.stripOffset.x).toBeGreaterThan(0);
+    expect(reversed.stripOffset.y).toBe(0);
+  });
+});
+
+describe('Diagonal and iris wipes', () => {
+  it('should reveal from the starting corner', () => {
+    const clipPath = wipeAt('bottom-right-to-top-left', 0.6).logoClip.clipPath;
+    expect(clipPath).toMatch(/^polygon\(100% 100%, /);
+  });
+
+  it('should grow the iris ring from the center, or shrink it towards the center', () => {
+    const opening = [0.2, 0.4].map((progress) => wipeAt('iris-out', progress).ring.outer);
+    const closing = [0.2, 0.4].map((progress) => wipeAt('iris-in', progress).ring.outer);
+    expect(opening[1]).toBeGreaterThan(opening[0] ?? Infinity);
+    expect(closing[1]).toBeLessThan(closing[0] ?? -Infinity);
+  });
+});
+
+describe('Strip deformation', () => {
+  const deformation = { skewAngle: 10, scaleX: 1.1, scaleY: 0.94 };
+
+  it('should stretch and lean along the direction of travel', () => {
+    const offset = { x: 12, y: 0 };
+    expect(getStripTransform('left-to-right', offset, deformation)).toBe(
+      'translate(12px, 0px) scaleX(1.1) scaleY(0.94) skewX(10deg)'
+    );
+    expect(getStripTransform('right-to-left', offset, deformation)).toContain('skewX(-10deg)');
+    expect(getStripTransform('bottom-to-top', offset, deformation)).toBe(
+      'translate(12px, 0px) scaleY(1.1) scaleX(0.94) skewY(-10deg)'
+    );
+    expect(getStripTransform('top-left-to-bottom-right', offset, deformation)).toContain(
+      'rotate(45deg)'
+    );
+    expect(getStripTransform('left-to-right', offset, null)).toBe('translate(12px, 0px)');
+  });
+
+  it('should fade the trailing edge', () => {
+    const center = { x: 540, y: 540 };
+    expect(getStripMask('top-to-bottom', wipeAt('top-to-bottom', 0.5), 0.6, center)).toMatch(
+      /^linear-gradient\(to bottom, rgba\(255,255,255,0\.6\) 0%/
+    );
+    expect(
+      getStripMask('bottom-left-to-top-right', wipeAt('bottom-left-to-top-right', 0.5), 1, center)
+    ).toMatch(/^linear-gradient\(to right top,/);
+    expect(getStripMask('iris-out', wipeAt('iris-out', 0.5), 0.6, center)).toMatch(
+      /^radial-gradient\(circle at 540px 540px, transparent [\d.]+px, rgba\(255,255,255,0\.6\)/
+    );
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Wipe Geometry - where the paint roller strip is and how much logo it has revealed
+ *
+ * Three kinds of wipe:
+ * - Linear (left-to-right, ...): the strip crosses the composition along one axis
+ *   and the logo is revealed behind it with an inset() clip path
+ * - Diagonal (top-left-to-bottom-right, ...): the strip moves along both axes at once
+ *   and the logo is revealed behind a slanted edge with a polygon() clip path
+ * - Iris (iris-out, iris-in): a ring of gradient grows from (or shrinks to) the
+ *   logo center and the logo is revealed inside (or outside) it
+ *
+ * The strip always sits just ahead of the revealed part, like the original
+ * left-to-right paint roller.
+ */
+
+import type React from 'react';
+import type { Direction, WipeDirection } from '../../../../types/common';
+
+/**
+ * Rectangle in composition pixels
+ */
+export type WipeBox = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Wipe state at one frame
+ */
+export type WipeFrame = {
+  /** Share of the logo revealed, 0 to 1 */
+  revealed: number;
+  /** Strip position relative to the logo, in pixels (linear and diagonal wipes) */
+  stripOffset: { x: number; y: number };
+  /** Inner and outer radius of the iris ring around the logo center, in pixels */
+  ring: { inner: number; outer: number };
+  /** Clip path or mask hiding the part of the logo not revealed yet */
+  logoClip: React.CSSProperties;
+};
+
+/**
+ * Strip deformation from the organic speed effects
+ */
+export type StripDeformation = {
+  skewAngle: number;
+  /** Stretch along the direction of travel */
+  scaleX: number;
+  /** Compression across the direction of travel */
+  scaleY: number;
+};
+
+type IrisDirection = Extract<WipeDirection, 'iris-out' | 'iris-in'>;
+
+/**
+ * Sides each linear and diagonal wipe travels towards
+ */
+const WIPE_HEADINGS: Record<Exclude<WipeDirection, IrisDirection>, Direction[]> = {
+  'left-to-right': ['right'],
+  'right-to-left': ['left'],
+  'top-to-bottom': ['bottom'],
+  'bottom-to-top': ['top'],
+  'top-left-to-bottom-right': ['right', 'bottom'],
+  'top-right-to-bottom-left': ['left', 'bottom'],
+  'bottom-left-to-top-right': ['right', 'top'],
+  'bottom-right-to-top-left': ['left', 'top'],
+};
+
+// Width of the iris ring relative to the logo's half-diagonal
+const IRIS_BAND_RATIO = 0.5;
+
+const isIris = (direction: WipeDirection): direction is IrisDirection =>
+  direction === 'iris-out' || direction === 'iris-in';
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Sides a wipe travels towards; iris wipes have none
+ */
+export const getWipeHeadings = (direction: WipeDirection): Direction[] =>
+  isIris(direction) ? [] : WIPE_HEADINGS[direction];
+
+/**
+ * Distance from the logo center to its corners
+ */
+const irisRadius = (logo: WipeBox): number => Math.hypot(logo.width, logo.height) / 2;
+
+/**
+ * Strip travel along one axis: from just outside the composition on one side
+ * to just outside it on the other. Returns the strip's offset from the logo
+ * and the share of the logo it has passed.
+ */
+const travelAlongAxis = (
+  progress: number,
+  heading: 1 | -1 | 0,
+  logoStart: number,
+  logoSize: number,
+  compositionSize: number
+): { offset: number; revealed: number } => {
+  if (heading === 0) {
+    return { offset: 0, revealed: 1 };
+  }
+  const start = heading === 1 ? -logoSize : compositionSize;
+  const end = heading === 1 ? compositionSize : -logoSize;
+  const position = start + (end - start) * progress;
+  // The logo is revealed up to the strip's trailing edge
+  const passed = heading === 1 ? position - logoStart : logoStart - position;
+  return { offset: position - logoStart, revealed: clamp01(passed / logoSize) };
+};
+
+/**
+ * Polygon of the revealed part of a diagonal wipe: the corner the wipe starts
+ * from, cut off where u + v = 2 * revealed (u and v run 0-1 from that corner)
+ */
+const diagonalClipPath = (revealed: number, flipX: boolean, flipY: boolean): string => {
+  const s = revealed * 2;
+  const corner =
+    s <= 1
+      ? [
+          [0, 0],
+          [s, 0],
+          [0, s],
+        ]
+      : [
+          [0, 0],
+          [1, 0],
+          [1, s - 1],
+          [s - 1, 1],
+          [0, 1],
+        ];
+  const points = corner.map(([u = 0, v = 0]) => {
+    const x = (flipX ? 1 - u : u) * 100;
+    const y = (flipY ? 1 - v : v) * 100;
+    return `${x}% ${y}%`;
+  });
+  return `polygon(${points.join(', ')})`;
+};
+
+/**
+ * inset() clip path hiding the side a linear wipe has not reached yet
+ */
+const linearClipPath = (revealed: number, heading: Direction): string => {
+  const hidden = `${(1 - revealed) * 100}%`;
+  const sides: Record<Direction, string> = { top: '0', right: '0', bottom: '0', left: '0' };
+  sides[heading] = hidden;
+  return `inset(${sides.top} ${sides.right} ${sides.bottom} ${sides.left})`;
+};
+
+/**
+ * Calculate the wipe at a point of the reveal
+ *
+ * @param progress - Eased reveal progress, 0 to 1
+ */
+export const getWipeFrame = (
+  direction: WipeDirection,
+  progress: number,
+  logo: WipeBox,
+  composition: Pick<WipeBox, 'width' | 'height'>
+): WipeFrame => {
+  if (isIris(direction)) {
+    const radius = irisRadius(logo);
+    const band = radius * IRIS_BAND_RATIO;
+    const travel = (radius + band) * progress;
+    // iris-out: the ring grows with the logo revealed inside it;
+    // iris-in: the ring shrinks with the logo revealed outside it
+    const ring =
+      direction === 'iris-out'
+        ? { inner: travel - band, outer: travel }
+        : { inner: radius - travel, outer: radius + band - travel };
+    const revealRadius = direction === 'iris-out' ? ring.inner : ring.outer;
+    const revealed =
+      direction === 'iris-out'
+        ? clamp01(revealRadius / radius)
+        : clamp01(1 - revealRadius / radius);
+    const edge = Math.max(0, revealRadius);
+    const mask = `radial-gradient(circle at 50% 50%, transparent ${edge}px, #000 ${edge}px)`;
+    return {
+      revealed,
+      stripOffset: { x: 0, y: 0 },
+      ring,
+      logoClip:
+        revealed >= 1
+          ? {}
+          : direction === 'iris-out'
+            ? { clipPath: `circle(${edge}px at 50% 50%)` }
+            : { WebkitMaskImage: mask, maskImage: mask },
+    };
+  }
+
+  const headings = WIPE_HEADINGS[direction];
+  const headingX = headings.includes('right') ? 1 : headings.includes('left') ? -1 : 0;
+  const headingY = headings.includes('bottom') ? 1 : headings.includes('top') ? -1 : 0;
+  const x = travelAlongAxis(progress, headingX, logo.left, logo.width, composition.width);
+  const y = travelAlongAxis(progress, headingY, logo.top, logo.height, composition.height);
+
+  const stripOffset = { x: x.offset, y: y.offset };
+  const ring = { inner: 0, outer: 0 };
+
+  if (headings.length === 2) {
+    // The trailing corner of the strip lies on the revealed part's edge
+    const revealed = (x.revealed + y.revealed) / 2;
+    return {
+      revealed,
+      stripOffset,
+      ring,
+      logoClip:
+        revealed >= 1
+          ? {}
+          : { clipPath: diagonalClipPath(revealed, headingX === -1, headingY === -1) },
+    };
+  }
+
+  const [heading = 'right'] = headings;
+  const revealed = headingX === 0 ? y.revealed : x.revealed;
+  return {
+    revealed,
+    stripOffset,
+    ring,
+    logoClip: revealed >= 1 ? {} : { clipPath: linearClipPath(revealed, heading) },
+  };
+};
+
+/**
+ * CSS transform of a linear or diagonal strip: moved to its offset, stretched
+ * along the direction of travel and leaning into it
+ */
+export const getStripTransform = (
+  direction: WipeDirection,
+  stripOffset: WipeFrame['stripOffset'],
+  deformation: StripDeformation | null
+): string => {
+  const translate = `translate(${stripOffset.x}px, ${stripOffset.y}px)`;
+  const headings = getWipeHeadings(direction);
+  if (!deformation || headings.length === 0) {
+    return translate;
+  }
+
+  const { skewAngle, scaleX, scaleY } = deformation;
+  const [heading] = headings;
+
+  if (headings.length === 2) {
+    // Deform along the diagonal: rotate onto it, deform as if moving right, rotate back
+    const dx = headings.includes('right') ? 1 : -1;
+    const dy = headings.includes('bottom') ? 1 : -1;
+    const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+    return `${translate} rotate(${angle}deg) scaleX(${scaleX}) scaleY(${scaleY}) skewX(${skewAngle}deg) rotate(${-angle}deg)`;
+  }
+
+  // Mirrored directions lean the other way
+  if (heading === 'left' || heading === 'right') {
+    const lean = heading === 'right' ? skewAngle : -skewAngle;
+    return `${translate} scaleX(${scaleX}) scaleY(${scaleY}) skewX(${lean}deg)`;
+  }
+  const lean = heading === 'bottom' ? skewAngle : -skewAngle;
+  return `${translate} scaleY(${scaleX}) scaleX(${scaleY}) skewY(${lean}deg)`;
+};
+
+/**
+ * Mask image fading the strip's trailing edge (motion blur). Iris rings
+ * always get a mask, since it is what shapes the ring.
+ *
+ * @param trailingOpacity - Opacity of the trailing edge (1 = no motion blur)
+ * @param center - Logo center in the strip's coordinates (iris wipes)
+ */
+export const getStripMask = (
+  direction: WipeDirection,
+  wipe: WipeFrame,
+  trailingOpacity: number,
+  center: { x: number; y: number }
+): string => {
+  const trailing = `rgba(255,255,255,${trailingOpacity})`;
+
+  if (isIris(direction)) {
+    const { inner, outer } = wipe.ring;
+    const blurEdge = (outer - inner) * 0.3;
+    const at = `circle at ${center.x}px ${center.y}px`;
+    // Trailing edge: inside for iris-out, outside for iris-in
+    return direction === 'iris-out'
+      ? `radial-gradient(${at}, transparent ${inner}px, ${trailing} ${inner}px, #fff ${inner + blurEdge}px, #fff ${outer}px, transparent ${outer}px)`
+      : `radial-gradient(${at}, transparent ${inner}px, #fff ${inner}px, #fff ${outer - blurEdge}px, ${trailing} ${outer}px, transparent ${outer}px)`;
+  }
+
+  return `linear-gradient(to ${getWipeHeadings(direction).join(' ')}, ${trailing} 0%, rgba(255,255,255,1) 30%, rgba(255,255,255,1) 100%)`;
+};
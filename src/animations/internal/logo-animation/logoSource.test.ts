@@ -0,0 +1,70 @@
+/**
+ * Tests for the logo source
+ * Ensures SVGs are parsed into a viewBox, paths and an accent, and broken ones are rejected
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LOGO_SRC, parseLogoSvg } from './logoSource';
+
+const JUNR_SVG = readFileSync(join(process.cwd(), 'public', DEFAULT_LOGO_SRC), 'utf8');
+
+const svg = (content: string, attributes = 'viewBox="0 0 100 50"'): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" ${attributes}>${content}</svg>`;
+
+describe('parseLogoSvg', () => {
+  it('should read the JUNR. logotype with its dot as the accent', () => {
+    const logo = parseLogoSvg(JUNR_SVG);
+    expect(logo.viewBox).toEqual({ x: 0, y: 0, width: 1423.17, height: 370 });
+    expect(logo.paths).toHaveLength(4);
+    expect(logo.accent?.bounds.x).toBeCloseTo(1363.99, 1);
+    expect(logo.accent?.bounds.y).toBeCloseTo(314.32, 1);
+    expect(logo.accent?.bounds.width).toBeCloseTo(59.18, 1);
+    expect(logo.accent?.bounds.height).toBeCloseTo(55.68, 1);
+  });
+
+  it('should pick the accent by id or index', () => {
+    const markup = svg('<path id="body" d="M0 0H60V50H0Z"/><path id="mark" d="M80 40H90V50H80Z"/>');
+    expect(parseLogoSvg(markup).accent).toBeNull();
+    expect(parseLogoSvg(markup, 'mark').accent?.bounds).toEqual({
+      x: 80,
+      y: 40,
+      width: 10,
+      height: 10,
+    });
+    expect(parseLogoSvg(markup, 0).paths.map(({ d }) => d)).toEqual(['M80 40H90V50H80Z']);
+  });
+
+  it('should fall back to the paths bounds without a viewBox', () => {
+    const logo = parseLogoSvg(svg('<path d="M10 20H30V60H10Z"/>', ''));
+    expect(logo.viewBox).toEqual({ x: 10, y: 20, width: 20, height: 40 });
+  });
+
+  it('should ignore paths that are not drawn', () => {
+    const logo = parseLogoSvg(
+      svg(
+        '<defs><clipPath id="c"><rect width="5" height="5"/></clipPath></defs><path d="M0 0H10V10Z"/>'
+      )
+    );
+    expect(logo.paths).toHaveLength(1);
+  });
+
+  it('should reject what it cannot animate', () => {
+    expect(() => parseLogoSvg('<html></html>')).toThrow(/not an SVG document/);
+    expect(() => parseLogoSvg(svg(''))).toThrow(/has no paths/);
+    expect(() => parseLogoSvg(svg('<circle r="5"/><path d="M0 0H10V10Z"/>'))).toThrow(
+      /convert the <circle> shapes to paths/
+    );
+    expect(() => parseLogoSvg(svg('<g transform="scale(2)"><path d="M0 0H10V10Z"/></g>'))).toThrow(
+      /transforms are not supported/
+    );
+    expect(() => parseLogoSvg(svg('<path d="M0 0H10V10Z"/>'), 'dot')).toThrow(
+      /no path with id "dot"/
+    );
+    expect(() => parseLogoSvg(svg('<path d="M0 0H10V10Z"/>'), 3)).toThrow(/has no path 3/);
+    expect(() => parseLogoSvg(svg('<path d="M0 0H10V10Z"/>', 'viewBox="0 0 -1 5"'))).toThrow(
+      /malformed viewBox/
+    );
+  });
+});
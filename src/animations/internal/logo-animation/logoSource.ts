@@ -0,0 +1,220 @@
+/**
+ * Logo Source - the shapes a logo animation draws, read from an SVG
+ *
+ * Takes an SVG file from public/ or an SVG string and extracts:
+ * - the viewBox (or the bounds of the paths when the SVG has none)
+ * - every <path> with its bounding box (via @remotion/paths)
+ * - the accent path, animated separately (e.g. the dot of "JUNR.")
+ *
+ * The accent is the path with id="accent" unless the `accent` option names
+ * another one, by id or by its index among the paths.
+ *
+ * Only <path> elements are read, so shapes (<rect>, <circle>, ...) and
+ * transforms must be converted to plain paths when exporting the SVG
+ * (e.g. "Outline stroke" and "Flatten transform" in the design tool).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { cancelRender, continueRender, delayRender, staticFile } from 'remotion';
+import { getBoundingBox } from '@remotion/paths';
+
+/**
+ * Rectangle in viewBox units
+ */
+export type LogoBounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * One path of the logo
+ */
+export type LogoPath = {
+  d: string;
+  bounds: LogoBounds;
+};
+
+/**
+ * Parsed logo, in viewBox units
+ */
+export type LogoSource = {
+  viewBox: LogoBounds;
+  /** Paths drawn by the reveal, without the accent */
+  paths: LogoPath[];
+  /** Path animated separately, or null when the logo has none */
+  accent: LogoPath | null;
+};
+
+/**
+ * Where to read a logo from; `svg` wins over `src`
+ */
+export type LogoSourceOptions = {
+  /** SVG file in public/, e.g. assets/internal/logos/logotype-cream-tight.svg */
+  src: string;
+  /** SVG markup */
+  svg?: string | undefined;
+  /** id or index (among the paths) of the accent path (default: the path with id="accent") */
+  accent?: string | number | undefined;
+};
+
+/** SVG of the JUNR. logotype; its dot has id="accent" */
+export const DEFAULT_LOGO_SRC = 'assets/internal/logos/logotype-cream-tight.svg';
+
+const DEFAULT_ACCENT_ID = 'accent';
+
+// Drawn shapes the parser does not read
+const UNSUPPORTED_SHAPES = ['rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'];
+
+// Containers whose content is not drawn directly
+const NON_RENDERED = 'defs, clipPath, mask, pattern, symbol, marker';
+
+const pathBounds = (d: string): LogoBounds => {
+  const { x1, y1, width, height } = getBoundingBox(d);
+  return { x: x1, y: y1, width, height };
+};
+
+/**
+ * Bounds of several rectangles together
+ */
+const unionBounds = (bounds: LogoBounds[]): LogoBounds => {
+  const x = Math.min(...bounds.map((b) => b.x));
+  const y = Math.min(...bounds.map((b) => b.y));
+  const right = Math.max(...bounds.map((b) => b.x + b.width));
+  const bottom = Math.max(...bounds.map((b) => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+const parseViewBox = (svg: Element): LogoBounds | null => {
+  const viewBox = svg.getAttribute('viewBox');
+  if (viewBox) {
+    const [x, y, width, height] = viewBox
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number);
+    if (
+      x === undefined ||
+      y === undefined ||
+      width === undefined ||
+      height === undefined ||
+      [x, y, width, height].some(Number.isNaN) ||
+      width <= 0 ||
+      height <= 0
+    ) {
+      throw new Error(`Invalid logo SVG: malformed viewBox "${viewBox}"`);
+    }
+    return { x, y, width, height };
+  }
+  const width = parseFloat(svg.getAttribute('width') ?? '');
+  const height = parseFloat(svg.getAttribute('height') ?? '');
+  return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null;
+};
+
+/**
+ * Parse a logo from SVG markup
+ */
+export const parseLogoSvg = (markup: string, accent?: string | number): LogoSource => {
+  const document = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const svg = document.documentElement;
+  if (document.querySelector('parsererror') || svg.tagName !== 'svg') {
+    throw new Error('Invalid logo SVG: the markup is not an SVG document');
+  }
+
+  const isDrawn = (element: Element): boolean => !element.closest(NON_RENDERED);
+
+  const shapes = UNSUPPORTED_SHAPES.flatMap((tag) =>
+    Array.from(svg.querySelectorAll(tag)).filter(isDrawn)
+  );
+  if (shapes.length > 0) {
+    throw new Error(
+      `Invalid logo SVG: only <path> elements are supported, convert the <${shapes[0]?.tagName}> shapes to paths`
+    );
+  }
+
+  const elements = Array.from(svg.querySelectorAll('path')).filter(isDrawn);
+  const transformed = [...elements, ...Array.from(svg.querySelectorAll('g'))].find(
+    (element) => isDrawn(element) && element.hasAttribute('transform')
+  );
+  if (transformed) {
+    throw new Error('Invalid logo SVG: transforms are not supported, flatten them into the paths');
+  }
+
+  const paths = elements
+    .map((element) => ({ id: element.id, d: element.getAttribute('d')?.trim() ?? '' }))
+    .filter(({ d }) => d !== '');
+  if (paths.length === 0) {
+    throw new Error('Invalid logo SVG: the SVG has no paths');
+  }
+
+  let accentIndex = -1;
+  if (typeof accent === 'number') {
+    accentIndex = Number.isInteger(accent) && accent >= 0 && accent < paths.length ? accent : -1;
+    if (accentIndex === -1) {
+      throw new Error(
+        `Invalid logo accent: the SVG has no path ${accent} (it has ${paths.length})`
+      );
+    }
+  } else {
+    accentIndex = paths.findIndex(({ id }) => id === (accent ?? DEFAULT_ACCENT_ID));
+    if (accentIndex === -1 && accent !== undefined) {
+      throw new Error(`Invalid logo accent: the SVG has no path with id "${accent}"`);
+    }
+  }
+
+  const logoPaths = paths.map(({ d }) => ({ d, bounds: pathBounds(d) }));
+  const accentPath = logoPaths[accentIndex] ?? null;
+
+  return {
+    viewBox: parseViewBox(svg) ?? unionBounds(logoPaths.map(({ bounds }) => bounds)),
+    paths: logoPaths.filter((path) => path !== accentPath),
+    accent: accentPath,
+  };
+};
+
+/**
+ * Load and parse a logo. Returns null until an SVG file is loaded; the
+ * render waits for it. Each fetch holds its own delayRender handle, released
+ * when it settles or when `src` or `svg` change before it does.
+ */
+export const useLogoSource = ({ src, svg, accent }: LogoSourceOptions): LogoSource | null => {
+  const [fetched, setFetched] = useState<{ src: string; markup: string } | null>(null);
+
+  useEffect(() => {
+    if (svg !== undefined) {
+      return;
+    }
+    const handle = delayRender(`Loading logo ${src}`);
+    let settled = false;
+    const release = (): void => {
+      if (!settled) {
+        settled = true;
+        continueRender(handle);
+      }
+    };
+
+    fetch(staticFile(src))
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load logo ${src}: HTTP ${res.status}`);
+        }
+        return res.text();
+      })
+      .then((markup) => {
+        if (!settled) {
+          setFetched({ src, markup });
+          release();
+        }
+      })
+      .catch((err: unknown) => {
+        if (!settled) {
+          cancelRender(err);
+        }
+      });
+    return release;
+  }, [src, svg]);
+
+  // A broken logo throws, so the render fails with the reason instead of a blank frame
+  const markup = svg ?? (fetched?.src === src ? fetched.markup : null);
+  return useMemo(() => (markup === null ? null : parseLogoSvg(markup, accent)), [markup, accent]);
+};
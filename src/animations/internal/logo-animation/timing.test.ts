@@ -0,0 +1,52 @@
+/**
+ * Tests for the logo animation timing props
+ * Ensures durations in seconds are used as given and legacy frame counts are converted
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLogoDurationInFrames, resolveLogoTiming } from './timing';
+
+describe('resolveLogoTiming', () => {
+  it('should take the phase durations in seconds at any frame rate', () => {
+    const props = { revealSeconds: 2, holdSeconds: 0.5, exitSeconds: 0.25 };
+    const expected = { revealDuration: 2, holdDuration: 0.5, exitDuration: 0.25 };
+    expect(resolveLogoTiming(props, 30)).toEqual(expected);
+    expect(resolveLogoTiming(props, 60)).toEqual(expected);
+  });
+
+  it('should default to a 1.5 s reveal, a 1 s hold and a 0.5 s exit', () => {
+    expect(resolveLogoTiming({}, 60)).toEqual({
+      revealDuration: 1.5,
+      holdDuration: 1,
+      exitDuration: 0.5,
+    });
+  });
+
+  it('should convert legacy frame counts over the seconds', () => {
+    // Default props from Root.tsx plus the inputProps of an older ERP request
+    const props = {
+      revealSeconds: 1.5,
+      holdSeconds: 1,
+      exitSeconds: 0.5,
+      revealDuration: 90,
+      holdDuration: 30,
+    };
+    expect(resolveLogoTiming(props, 60)).toEqual({
+      revealDuration: 1.5,
+      holdDuration: 0.5,
+      exitDuration: 0.5,
+    });
+  });
+});
+
+describe('getLogoDurationInFrames', () => {
+  it('should last as long as the three phases', () => {
+    expect(getLogoDurationInFrames({}, 60)).toBe(180);
+    expect(getLogoDurationInFrames({}, 30)).toBe(90);
+    expect(getLogoDurationInFrames({ holdSeconds: 3 }, 60)).toBe(300);
+  });
+
+  it('should count legacy frame counts as they are', () => {
+    expect(getLogoDurationInFrames({ revealDuration: 90, holdDuration: 90 }, 60)).toBe(210);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Phase timing of the logo animation compositions
+ *
+ * Compositions take the phase durations in seconds (`revealSeconds`,
+ * `holdSeconds`, `exitSeconds`). They used to take `revealDuration`,
+ * `holdDuration` and `exitDuration` in frames, which ERP integrations and
+ * queued jobs may still send. Those are converted with the composition's fps
+ * and win over the seconds, which always carry the defaults from Root.tsx.
+ *
+ * A composition lasts exactly as long as its three phases.
+ */
+
+import type { LogoPhaseTiming } from './components/logoAnimationFrame';
+import type { GradientWipeLogoProps } from './types';
+import { GRADIENT_WIPE_DEFAULTS } from './types';
+
+/**
+ * Timing props of a logo animation composition, current and legacy
+ */
+export type LogoTimingProps = Partial<
+  Pick<
+    GradientWipeLogoProps,
+    | 'revealSeconds'
+    | 'holdSeconds'
+    | 'exitSeconds'
+    | 'revealDuration'
+    | 'holdDuration'
+    | 'exitDuration'
+  >
+>;
+
+/**
+ * Phase durations in seconds from a composition's props
+ */
+export const resolveLogoTiming = (
+  {
+    revealSeconds = GRADIENT_WIPE_DEFAULTS.revealSeconds,
+    holdSeconds = GRADIENT_WIPE_DEFAULTS.holdSeconds,
+    exitSeconds = GRADIENT_WIPE_DEFAULTS.exitSeconds,
+    revealDuration,
+    holdDuration,
+    exitDuration,
+  }: LogoTimingProps,
+  fps: number
+): LogoPhaseTiming => {
+  const seconds = (frames: number | undefined, fallback: number): number =>
+    frames === undefined ? fallback : frames / fps;
+
+  return {
+    revealDuration: seconds(revealDuration, revealSeconds),
+    holdDuration: seconds(holdDuration, holdSeconds),
+    exitDuration: seconds(exitDuration, exitSeconds),
+  };
+};
+
+/**
+ * Length of a composition playing all three phases, in frames
+ */
+export const getLogoDurationInFrames = (props: LogoTimingProps, fps: number): number => {
+  const { revealDuration, holdDuration, exitDuration } = resolveLogoTiming(props, fps);
+  return Math.max(1, Math.round((revealDuration + holdDuration + exitDuration) * fps));
+};
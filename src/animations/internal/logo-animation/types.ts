@@ -3,8 +3,14 @@
  *
  * All types use `type` (not `interface`) for Remotion defaultProps type safety.
  * All props must be JSON-serializable for composition registration.
+ * Durations are in seconds and converted with the composition's fps, so the
+ * animation lasts as long at any frame rate.
  */
 
+import type { LogoAnimationType, WipeDirection } from '../../../types/common';
+import type { LogoBounds, LogoPath, LogoSource } from './logoSource';
+import { DEFAULT_LOGO_SRC } from './logoSource';
+
 /**
  * Props for the main gradient wipe logo animation composition
  */
@@ -13,26 +19,44 @@ export type GradientWipeLogoProps = {
   backgroundColor: string;
   /** Scale factor for the logo (1 = default 800px width) */
   logoScale: number;
-  /** Duration of the reveal phase in frames */
-  revealDuration: number;
-  /** Duration of the hold phase in frames */
-  holdDuration: number;
-  /** Duration of the exit phase in frames */
-  exitDuration: number;
+  /** Duration of the reveal phase in seconds */
+  revealSeconds: number;
+  /** Duration of the hold phase in seconds */
+  holdSeconds: number;
+  /** Duration of the exit phase in seconds */
+  exitSeconds: number;
+  /** @deprecated Reveal duration in frames, converted with the fps; use revealSeconds */
+  revealDuration?: number;
+  /** @deprecated Hold duration in frames, converted with the fps; use holdSeconds */
+  holdDuration?: number;
+  /** @deprecated Exit duration in frames, converted with the fps; use exitSeconds */
+  exitDuration?: number;
+  /** Direction of the gradient wipe (default: left-to-right) */
+  wipeDirection?: WipeDirection;
+  /** Logo SVG file in public/ (default: the JUNR. logotype) */
+  logoSrc?: string;
+  /** Logo SVG markup, used instead of logoSrc */
+  logoSvg?: string;
+  /** id or index of the accent path animated separately (default: the path with id="accent") */
+  logoAccent?: string | number;
 };
 
 /**
  * Props for the LogoReveal component
  */
 export type LogoRevealProps = {
+  /** Logo to reveal */
+  logo: LogoSource;
   /** Scale factor for the logo */
   scale: number;
-  /** Duration of the reveal phase in frames */
+  /** Duration of the reveal phase in seconds */
   revealDuration: number;
-  /** Duration of the hold phase in frames */
+  /** Duration of the hold phase in seconds */
   holdDuration: number;
-  /** Duration of the exit phase in frames */
+  /** Duration of the exit phase in seconds */
   exitDuration: number;
+  /** Direction the strip travels in (default: left-to-right) */
+  wipeDirection?: WipeDirection;
   /** Enable organic speed effects (non-linear movement + deformation) */
   enableOrganicSpeed?: boolean;
   /** Maximum skew angle in degrees when moving fast (default: 15) */
@@ -43,15 +67,45 @@ export type LogoRevealProps = {
   enableMotionBlur?: boolean;
 };
 
+/**
+ * Props for a logo animation composition with a selectable style
+ */
+export type LogoAnimationCompositionProps = GradientWipeLogoProps & {
+  /** Animation style; 'wipe' is the gradient wipe of LogoReveal */
+  animationType: LogoAnimationType;
+};
+
+/**
+ * Props for the LogoAnimation component
+ */
+export type LogoAnimationProps = {
+  /** Animation style */
+  animationType: LogoAnimationType;
+  /** Logo to animate */
+  logo: LogoSource;
+  /** Scale factor for the logo */
+  scale: number;
+  /** Duration of the reveal phase in seconds */
+  revealDuration: number;
+  /** Duration of the hold phase in seconds */
+  holdDuration: number;
+  /** Duration of the exit phase in seconds */
+  exitDuration: number;
+  /** Direction of the 'wipe' style (default: left-to-right) */
+  wipeDirection?: WipeDirection;
+};
+
 /**
  * Default values for gradient wipe logo animation
  */
 export const GRADIENT_WIPE_DEFAULTS = {
   backgroundColor: '#000000',
   logoScale: 1,
-  revealDuration: 90,
-  holdDuration: 60,
-  exitDuration: 30,
+  revealSeconds: 1.5,
+  holdSeconds: 1,
+  exitSeconds: 0.5,
+  wipeDirection: 'left-to-right',
+  logoSrc: DEFAULT_LOGO_SRC,
 } as const;
 
 /**
@@ -68,10 +122,12 @@ export const ORGANIC_SPEED_DEFAULTS = {
  * Props for the BouncingDot component
  */
 export type BouncingDotProps = {
-  /** Frame when dot starts falling */
-  startFrame: number;
-  /** Logo scale factor (matches LogoReveal) */
-  scale: number;
+  /** Logo viewBox, the coordinate space of the dot */
+  viewBox: LogoBounds;
+  /** Dot path (the logo's accent) */
+  dot: LogoPath;
+  /** Time when dot starts falling, in seconds */
+  startTime: number;
   /** Logo width in pixels */
   logoWidth: number;
   /** Logo height in pixels */
@@ -88,13 +144,13 @@ export type BouncingDotProps = {
   maxSquash?: number;
   /** Maximum stretch factor during motion (default: 1.25) */
   maxStretch?: number;
-  /** Drop height in viewBox units (default: 200) */
+  /** Drop height in viewBox units (default: 200 for a 370 units tall logo) */
   dropHeight?: number;
-  /** Horizontal offset at start of fall in viewBox units (negative = left, default: -80) */
+  /** Horizontal offset at start of fall in viewBox units (negative = left, default: -80 for a 370 units tall logo) */
   startXOffset?: number;
-  /** Exit animation start frame */
+  /** Exit animation start, in seconds */
   exitStart: number;
-  /** Exit animation duration in frames */
+  /** Exit animation duration in seconds */
   exitDuration: number;
 };
 
@@ -108,4 +164,5 @@ export const BOUNCING_DOT_DEFAULTS = {
   maxStretch: 1.2, // Less extreme stretch
   dropHeight: 200,
   startXOffset: -80, // Start 80 units to the left
+  referenceLogoHeight: 370, // Logo height the drop defaults are tuned for; they scale with it
 } as const;
@@ -0,0 +1,7 @@
+/**
+ * Exports for the AnimatedText component
+ */
+
+export { AnimatedText } from './AnimatedText';
+export { getTextAnimationDuration } from './textAnimationFrame';
+export type { AnimatedTextProps, TextSplitMode } from './types';
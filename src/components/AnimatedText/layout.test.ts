@@ -0,0 +1,55 @@
+/**
+ * Tests for text wrapping and fitting
+ * Uses a monospace measurer (every character is 0.5em wide)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fitTextToBox, wrapText } from './layout';
+import type { TextMeasurer } from './layout';
+
+const measure: TextMeasurer = (text, fontSize) => text.length * fontSize * 0.5;
+
+describe('Text wrapping', () => {
+  it('should wrap at word boundaries to fit the box', () => {
+    // 10 characters per line at 20px
+    expect(wrapText('Made to move every day', 100, 20, measure)).toEqual([
+      'Made to',
+      'move every',
+      'day',
+    ]);
+  });
+
+  it('should keep explicit line breaks and put long words on their own line', () => {
+    expect(wrapText('Go\nextraordinary things', 100, 20, measure)).toEqual([
+      'Go',
+      'extraordinary',
+      'things',
+    ]);
+  });
+});
+
+describe('Text fitting', () => {
+  it('should use the largest font size that fits on the allowed lines', () => {
+    // "Made to move" is 12 characters: 6px per character fits a 300px box
+    expect(
+      fitTextToBox({ text: 'Made to move', maxWidth: 300, maxLines: 1, maxFontSize: 200, measure })
+    ).toEqual({ fontSize: 50, lines: ['Made to move'] });
+
+    // On two lines, the longest line is "Made to" (7 characters)
+    const twoLines = fitTextToBox({
+      text: 'Made to move',
+      maxWidth: 300,
+      maxLines: 2,
+      maxFontSize: 200,
+      measure,
+    });
+    expect(twoLines.lines).toEqual(['Made to', 'move']);
+    expect(twoLines.fontSize).toBeCloseTo(85.5, 5);
+  });
+
+  it('should never grow past the maximum font size', () => {
+    expect(
+      fitTextToBox({ text: 'Go', maxWidth: 1000, maxLines: 1, maxFontSize: 80, measure })
+    ).toEqual({ fontSize: 80, lines: ['Go'] });
+  });
+});
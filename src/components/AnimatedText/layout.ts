@@ -0,0 +1,129 @@
+/**
+ * Text layout: wrap text into a box, or find the font size that fits it
+ *
+ * Widths come from `measureText` of @remotion/layout-utils, which measures
+ * in the browser with the real font. The layout functions take the
+ * measurer as a parameter, so they work with any measurement.
+ */
+
+import { measureText } from '@remotion/layout-utils';
+
+/**
+ * Width in pixels of a text at a font size
+ */
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+export type TextLayout = {
+  fontSize: number;
+  lines: string[];
+};
+
+type FitTextOptions = {
+  text: string;
+  maxWidth: number;
+  maxLines: number;
+  /** Largest font size to try */
+  maxFontSize: number;
+  measure: TextMeasurer;
+};
+
+type TextMeasurerOptions = {
+  fontFamily: string;
+  fontWeight: number;
+  /** Letter spacing in pixels */
+  letterSpacing: number;
+};
+
+// Smallest step of the font size search, in pixels
+const FONT_SIZE_PRECISION = 0.5;
+
+/**
+ * Create a measurer for a font
+ */
+export const createTextMeasurer = ({
+  fontFamily,
+  fontWeight,
+  letterSpacing,
+}: TextMeasurerOptions): TextMeasurer => {
+  return (text, fontSize) =>
+    measureText({
+      text,
+      fontFamily,
+      fontWeight,
+      fontSize,
+      letterSpacing: `${letterSpacing}px`,
+    }).width;
+};
+
+/**
+ * Greedily wrap one paragraph at word boundaries. Words longer than the box
+ * get a line of their own.
+ */
+const wrapParagraph = (
+  paragraph: string,
+  maxWidth: number,
+  fontSize: number,
+  measure: TextMeasurer
+): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of paragraph.split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measure(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+};
+
+/**
+ * Wrap text into lines no wider than maxWidth, keeping explicit line breaks
+ */
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  measure: TextMeasurer
+): string[] =>
+  text.split('\n').flatMap((paragraph) => wrapParagraph(paragraph, maxWidth, fontSize, measure));
+
+/**
+ * Find the largest font size (up to maxFontSize) at which the wrapped text
+ * fits on maxLines lines with no line wider than maxWidth
+ */
+export const fitTextToBox = ({
+  text,
+  maxWidth,
+  maxLines,
+  maxFontSize,
+  measure,
+}: FitTextOptions): TextLayout => {
+  const fits = (fontSize: number): string[] | null => {
+    const lines = wrapText(text, maxWidth, fontSize, measure);
+    const fitsWidth = lines.every((line) => measure(line, fontSize) <= maxWidth);
+    return lines.length <= maxLines && fitsWidth ? lines : null;
+  };
+
+  // Binary search over font sizes in steps of FONT_SIZE_PRECISION
+  let low = 1;
+  let high = Math.floor(maxFontSize / FONT_SIZE_PRECISION);
+  let best: TextLayout = {
+    fontSize: FONT_SIZE_PRECISION,
+    lines: wrapText(text, maxWidth, FONT_SIZE_PRECISION, measure),
+  };
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const lines = fits(mid * FONT_SIZE_PRECISION);
+    if (lines) {
+      best = { fontSize: mid * FONT_SIZE_PRECISION, lines };
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,33 @@
+/**
+ * Tests for splitting text into animation units
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitLine, splitText } from './splitText';
+
+describe('Text splitting', () => {
+  it('should keep accented characters and emoji whole', () => {
+    expect(splitLine('Café 👍🏽', 'grapheme')).toEqual(['C', 'a', 'f', 'é', ' ', '👍🏽']);
+  });
+
+  it('should keep the whitespace after each word', () => {
+    expect(splitLine('  Made  to move', 'word')).toEqual(['Made  ', 'to ', 'move']);
+    expect(splitLine('', 'word')).toEqual([]);
+  });
+
+  it('should keep lines whole', () => {
+    expect(splitLine('Made to move', 'line')).toEqual(['Made to move']);
+    expect(splitLine('', 'line')).toEqual([]);
+  });
+
+  it('should number units in order across lines', () => {
+    expect(splitText(['Made to', '', 'move'], 'word')).toEqual([
+      [
+        { text: 'Made ', index: 0 },
+        { text: 'to', index: 1 },
+      ],
+      [],
+      [{ text: 'move', index: 2 }],
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Split text into animation units
+ *
+ * - grapheme: user-perceived characters, so accents and emoji stay whole
+ * - word: words with their trailing whitespace, so spacing survives
+ * - line: each line as one unit
+ */
+
+import type { TextSplitMode } from './types';
+
+/**
+ * One animated piece of text
+ */
+export type TextUnit = {
+  text: string;
+  /** Position in the animation order across all lines */
+  index: number;
+};
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Split a line into graphemes
+ */
+export const splitGraphemes = (line: string): string[] =>
+  Array.from(graphemeSegmenter.segment(line), ({ segment }) => segment);
+
+/**
+ * Split a line into words, each keeping the whitespace that follows it
+ */
+export const splitWords = (line: string): string[] => line.trimStart().match(/\S+\s*/g) ?? [];
+
+/**
+ * Split a single line into units
+ */
+export const splitLine = (line: string, mode: TextSplitMode): string[] => {
+  switch (mode) {
+    case 'grapheme':
+      return splitGraphemes(line);
+    case 'word':
+      return splitWords(line);
+    case 'line':
+      return line ? [line] : [];
+  }
+};
+
+/**
+ * Split laid out lines into units, numbered in animation order
+ */
+export const splitText = (lines: string[], mode: TextSplitMode): TextUnit[][] => {
+  let index = 0;
+  return lines.map((line) => splitLine(line, mode).map((text) => ({ text, index: index++ })));
+};
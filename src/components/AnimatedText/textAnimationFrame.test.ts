@@ -0,0 +1,57 @@
+/**
+ * Tests for the text animation styles
+ * Ensures units start in turn and settle at rest
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TextAnimationType } from '../../types/common';
+import { getTextAnimationDuration, getTextUnitFrame } from './textAnimationFrame';
+
+const FPS = 60;
+const TIMING = { startFrame: 10, unitDuration: 20, stagger: 4, springPreset: 'bouncy' as const };
+const STYLES: TextAnimationType[] = ['fade', 'slide', 'typewriter', 'stagger', 'pop', 'glitch'];
+
+const REST = { opacity: 1, translateX: 0, translateY: 0, scale: 1, rgbSplit: 0 };
+
+describe.each(STYLES)('Text animation style %s', (style) => {
+  it('should hide each unit until its turn', () => {
+    expect(getTextUnitFrame(style, 0, 9, FPS, TIMING).opacity).toBe(0);
+    expect(getTextUnitFrame(style, 2, 17, FPS, TIMING).opacity).toBe(0);
+  });
+
+  it('should leave every unit at rest once the animation is done', () => {
+    const end = TIMING.startFrame + getTextAnimationDuration(5, TIMING);
+    for (let unit = 0; unit < 5; unit++) {
+      expect(getTextUnitFrame(style, unit, end, FPS, TIMING)).toEqual(REST);
+    }
+  });
+
+  it('should return the same values for the same frame', () => {
+    for (let frame = 0; frame <= 40; frame += 3) {
+      expect(getTextUnitFrame(style, 1, frame, FPS, TIMING)).toEqual(
+        getTextUnitFrame(style, 1, frame, FPS, TIMING)
+      );
+    }
+  });
+});
+
+describe('Text animation style details', () => {
+  it('should show typewriter units at once', () => {
+    expect(getTextUnitFrame('typewriter', 1, 14, FPS, TIMING)).toEqual(REST);
+  });
+
+  it('should overshoot full size when popping', () => {
+    const scales = Array.from(
+      { length: TIMING.unitDuration },
+      (_, localFrame) =>
+        getTextUnitFrame('pop', 0, TIMING.startFrame + localFrame, FPS, TIMING).scale
+    );
+    expect(Math.max(...scales)).toBeGreaterThan(1);
+  });
+
+  it('should last from the first start until the last unit settles', () => {
+    expect(getTextAnimationDuration(0, TIMING)).toBe(0);
+    expect(getTextAnimationDuration(1, TIMING)).toBe(20);
+    expect(getTextAnimationDuration(5, TIMING)).toBe(36);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Text Animation Frames - per-unit transform of animated text at a given frame
+ *
+ * Units start one after another, `stagger` frames apart, and each takes
+ * `unitDuration` frames to settle:
+ * - fade: opacity fades in
+ * - slide: rises into place while fading in
+ * - typewriter: appears at once, one unit after another
+ * - stagger: springs up into place
+ * - pop: springs from nothing past full size and settles
+ * - glitch: jitters, flickers and splits into red/cyan copies until it settles
+ *
+ * Quality Standards Applied:
+ * - Pure functions of the frame (NO CSS animations), so every frame renders the same
+ * - All interpolate calls are clamped
+ * - Glitch noise comes from random() with a per-unit, per-frame seed, never Math.random()
+ */
+
+import { interpolate, spring, random, Easing } from 'remotion';
+import type { SpringPresetName, TextAnimationType } from '../../types/common';
+import { SPRING_PRESETS } from '../../types/common';
+
+/**
+ * Timing shared by every unit
+ */
+export type TextAnimationTiming = {
+  startFrame: number;
+  unitDuration: number;
+  stagger: number;
+  /** Spring used by 'stagger' and 'pop' */
+  springPreset: SpringPresetName;
+};
+
+/**
+ * Unit transform at one frame; offsets are in em, so they follow the font size
+ */
+export type TextUnitFrame = {
+  opacity: number;
+  translateX: number;
+  translateY: number;
+  scale: number;
+  /** Offset of the red and cyan glitch copies (0 = hidden) */
+  rgbSplit: number;
+};
+
+const CLAMP = { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' } as const;
+
+// eslint-disable-next-line @typescript-eslint/unbound-method
+const easeOutCubic = Easing.out(Easing.cubic);
+
+/** Unit at rest, once its animation is done */
+const REST: TextUnitFrame = { opacity: 1, translateX: 0, translateY: 0, scale: 1, rgbSplit: 0 };
+
+/** Unit before its animation starts */
+const HIDDEN: TextUnitFrame = { ...REST, opacity: 0 };
+
+/**
+ * Calculate the frames from startFrame until the last unit settles
+ */
+export const getTextAnimationDuration = (
+  unitCount: number,
+  { unitDuration, stagger }: Pick<TextAnimationTiming, 'unitDuration' | 'stagger'>
+): number => (unitCount === 0 ? 0 : (unitCount - 1) * stagger + unitDuration);
+
+/**
+ * Calculate the transform of one unit at a frame
+ */
+export const getTextUnitFrame = (
+  animationType: TextAnimationType,
+  unitIndex: number,
+  frame: number,
+  fps: number,
+  { startFrame, unitDuration, stagger, springPreset }: TextAnimationTiming
+): TextUnitFrame => {
+  const localFrame = frame - startFrame - unitIndex * stagger;
+  if (localFrame < 0) {
+    return HIDDEN;
+  }
+  if (localFrame >= unitDuration) {
+    return REST;
+  }
+
+  const progress = interpolate(localFrame, [0, unitDuration], [0, 1], CLAMP);
+  const eased = easeOutCubic(progress);
+  const springValue = (): number =>
+    spring({
+      frame: localFrame,
+      fps,
+      config: SPRING_PRESETS[springPreset],
+      durationInFrames: unitDuration,
+    });
+
+  switch (animationType) {
+    case 'fade':
+      return { ...REST, opacity: eased };
+
+    case 'slide':
+      return {
+        ...REST,
+        opacity: interpolate(progress, [0, 0.6], [0, 1], CLAMP),
+        translateY: interpolate(eased, [0, 1], [0.6, 0], CLAMP),
+      };
+
+    case 'typewriter':
+      return REST;
+
+    case 'stagger':
+      return {
+        ...REST,
+        opacity: interpolate(progress, [0, 0.3], [0, 1], CLAMP),
+        translateY: (1 - springValue()) * 0.8,
+      };
+
+    case 'pop':
+      // Springs overshoot, so the unit grows past full size and settles back
+      return {
+        ...REST,
+        opacity: interpolate(progress, [0, 0.2], [0, 1], CLAMP),
+        scale: springValue(),
+      };
+
+    case 'glitch': {
+      // Noise fades out as the unit settles; the seed keeps each frame stable
+      const intensity = 1 - eased;
+      const seed = `${unitIndex}-${frame}`;
+      const flicker = random(`text-glitch-flicker-${seed}`) < intensity * 0.5;
+      return {
+        ...REST,
+        opacity: flicker ? 0.3 : 1,
+        translateX: (random(`text-glitch-x-${seed}`) - 0.5) * 0.3 * intensity,
+        translateY: (random(`text-glitch-y-${seed}`) - 0.5) * 0.15 * intensity,
+        rgbSplit: random(`text-glitch-split-${seed}`) * 0.08 * intensity,
+      };
+    }
+  }
+};
@@ -0,0 +1,91 @@
+/**
+ * Types for the AnimatedText component
+ *
+ * All types use `type` (not `interface`) for Remotion defaultProps type safety.
+ * All props must be JSON-serializable so they can be passed through composition props.
+ */
+
+import type { SpringPresetName, TextAnimationType } from '../../types/common';
+
+/**
+ * Unit the text is split into; each unit animates on its own
+ */
+export type TextSplitMode = 'grapheme' | 'word' | 'line';
+
+/**
+ * Props for the AnimatedText component
+ */
+export type AnimatedTextProps = {
+  /** Text to animate; `\n` starts a new line */
+  text: string;
+  /** Animation style */
+  animationType: TextAnimationType;
+  /** Unit each animation step applies to (default depends on animationType) */
+  splitBy?: TextSplitMode;
+  /** Frame when the first unit starts animating (default: 0) */
+  startFrame?: number;
+  /** Duration of each unit's animation in frames (default: 20) */
+  unitDuration?: number;
+  /** Frames between the starts of consecutive units (default: 4) */
+  stagger?: number;
+  /** Spring preset for 'stagger' and 'pop' (default: moderate for stagger, bouncy for pop) */
+  springPreset?: SpringPresetName;
+  /** Font family; must be loaded before rendering for exact measurement (default: sans-serif) */
+  fontFamily?: string;
+  /** Font size in pixels; the largest size tried when auto-fitting (default: 80) */
+  fontSize?: number;
+  /** Font weight (default: 700) */
+  fontWeight?: number;
+  /** Letter spacing in pixels (default: 0) */
+  letterSpacing?: number;
+  /** Line height relative to the font size (default: 1.2) */
+  lineHeight?: number;
+  /** Text color (default: #1A1A1A) */
+  color?: string;
+  /** Horizontal alignment of the lines (default: center) */
+  textAlign?: 'left' | 'center' | 'right';
+  /** Width of the text box in pixels; lines wrap to fit it when set */
+  maxWidth?: number;
+  /** Most lines when auto-fitting (default: 1) */
+  maxLines?: number;
+  /** Shrink the font until the text fits maxWidth on maxLines lines (default: false) */
+  autoFit?: boolean;
+};
+
+/**
+ * Default values for animated text
+ */
+export const ANIMATED_TEXT_DEFAULTS = {
+  startFrame: 0,
+  unitDuration: 20,
+  stagger: 4,
+  fontFamily: 'sans-serif',
+  fontSize: 80,
+  fontWeight: 700,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  color: '#1A1A1A',
+  textAlign: 'center',
+  maxLines: 1,
+  autoFit: false,
+} as const;
+
+/**
+ * Default split mode of each animation type
+ */
+export const TEXT_SPLIT_DEFAULTS: Record<TextAnimationType, TextSplitMode> = {
+  fade: 'word',
+  slide: 'line',
+  typewriter: 'grapheme',
+  stagger: 'word',
+  pop: 'word',
+  glitch: 'grapheme',
+};
+
+/**
+ * Default spring preset of the springy animation types
+ */
+export const TEXT_SPRING_DEFAULTS = {
+  stagger: 'moderate',
+  pop: 'bouncy',
+} as const satisfies Partial<Record<TextAnimationType, SpringPresetName>>;
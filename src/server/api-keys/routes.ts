@@ -0,0 +1,73 @@
+/**
+ * API key management (admin role, sessions only)
+ *
+ * POST   /api/keys      - create a key ({ name, scopes, expiresInDays? })
+ * GET    /api/keys      - all keys with their last use, newest first
+ * DELETE /api/keys/:id  - revoke a key
+ *
+ * The key itself is only returned when it is created. The same operations
+ * are available offline through `pnpm api-key`.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth/roles';
+import { API_KEY_SCOPES } from '../auth/types';
+import type { ApiKey, ApiKeyStore } from './store';
+
+/** Longest a key can be created for; keys without expiresInDays never expire */
+const MAX_EXPIRY_DAYS = 5 * 365;
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().positive().max(MAX_EXPIRY_DAYS).nullable().default(null),
+});
+
+/** A key as listed, without its hash */
+export const publicApiKey = ({ hash: _hash, ...key }: ApiKey): Omit<ApiKey, 'hash'> => key;
+
+export const createApiKeyRouter = (store: ApiKeyStore): express.Router => {
+  const router = express.Router();
+
+  router.post('/api/keys', requireRole('admin'), express.json(), (req, res) => {
+    const parsed = createApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid API key request',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data;
+    const { key, token } = store.create({
+      name,
+      scopes: [...new Set(scopes)],
+      createdBy: res.locals.user?.id ?? 'unknown',
+      expiresAt:
+        expiresInDays === null
+          ? null
+          : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    console.log('[Auth] Created API key', key.id, `"${key.name}"`, `(${key.scopes.join(', ')})`);
+    return res.status(201).json({ key: publicApiKey(key), token });
+  });
+
+  router.get('/api/keys', requireRole('admin'), (_req, res) => {
+    res.json({ keys: store.list().map(publicApiKey) });
+  });
+
+  router.delete(
+    '/api/keys/:id',
+    requireRole('admin'),
+    (req: express.Request<{ id: string }>, res) => {
+      if (!store.revoke(req.params.id)) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      console.log('[Auth] Revoked API key', req.params.id);
+      return res.status(204).end();
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,90 @@
+/**
+ * Tests for the API key store
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createApiKeyStore } from './store';
+
+describe('API key store', () => {
+  let tmpDir: string;
+  let stateFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-key-store-test-'));
+    stateFile = path.join(tmpDir, 'api-keys.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const details = {
+    name: 'ERP backend',
+    scopes: ['renders:read' as const],
+    createdBy: 'admin-1',
+    expiresAt: null,
+  };
+
+  it('should authenticate keys without storing them in plain text', () => {
+    const store = createApiKeyStore({ stateFile });
+    const { key, token } = store.create(details);
+
+    expect(token).toMatch(/^studio_[0-9a-f]{16}_[\w-]{43}$/);
+    expect(fs.readFileSync(stateFile, 'utf8')).not.toContain(token.slice(-43));
+    expect(store.authenticate(token)).toEqual({ valid: true, key });
+
+    const tampered = `${token.slice(0, -1)}${token.endsWith('A') ? 'B' : 'A'}`;
+    expect(store.authenticate(tampered)).toEqual({ valid: false, reason: 'unknown' });
+    expect(store.authenticate('not-a-key')).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('should refuse revoked and expired keys', () => {
+    vi.useFakeTimers();
+    const store = createApiKeyStore({ stateFile });
+    const revoked = store.create(details);
+    const expiring = store.create({
+      ...details,
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(store.revoke(revoked.key.id)).toBe(true);
+    expect(store.revoke('unknown')).toBe(false);
+    expect(store.authenticate(revoked.token)).toEqual({ valid: false, reason: 'revoked' });
+
+    expect(store.authenticate(expiring.token).valid).toBe(true);
+    vi.advanceTimersByTime(60_000);
+    expect(store.authenticate(expiring.token)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('should record when a key was last used', () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    const store = createApiKeyStore({ stateFile });
+    const { key, token } = store.create(details);
+    expect(key.lastUsedAt).toBeNull();
+
+    store.authenticate(token);
+
+    expect(store.list()[0]?.lastUsedAt).toBe('2026-03-01T10:00:00.000Z');
+    expect(createApiKeyStore({ stateFile }).list()[0]?.lastUsedAt).toBe('2026-03-01T10:00:00.000Z');
+  });
+
+  it('should pick up keys created and revoked by another process', () => {
+    const server = createApiKeyStore({ stateFile });
+    const cli = createApiKeyStore({ stateFile });
+
+    const { key, token } = cli.create(details);
+    expect(server.authenticate(token).valid).toBe(true);
+
+    // Make sure the file's mtime changes even on coarse-grained file systems
+    const later = new Date(Date.now() + 5_000);
+    cli.revoke(key.id);
+    fs.utimesSync(stateFile, later, later);
+    expect(server.authenticate(token)).toEqual({ valid: false, reason: 'revoked' });
+  });
+});
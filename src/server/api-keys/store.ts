@@ -0,0 +1,170 @@
+/**
+ * API key store
+ *
+ * API keys let scripts and the ERP backend call the API without a browser
+ * session. A key looks like `studio_<id>_<secret>`. Only a SHA-256 hash of
+ * the secret is kept: the secret is 256 random bits, so a slow password
+ * hash would add nothing. The key itself is shown once, when it is created.
+ *
+ * Keys are persisted to a JSON file in STATE_DIR. The file is re-read when
+ * it changes on disk, so keys created or revoked with `pnpm api-key` take
+ * effect without a restart.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { readJsonFile, writeJsonFile } from '../json-file';
+import type { ApiKeyScope } from '../auth/types';
+
+/** Last-used timestamps are written to disk at most this often per key */
+const LAST_USED_PERSIST_MS = 60 * 1000;
+
+const KEY_PATTERN = /^studio_([0-9a-f]{16})_([\w-]{43})$/;
+
+export type ApiKey = {
+  /** Public part of the key, also used to revoke it */
+  id: string;
+  /** What the key is for, e.g. "ERP backend" */
+  name: string;
+  scopes: ApiKeyScope[];
+  /** SHA-256 of the secret part (hex) */
+  hash: string;
+  /** User id of whoever created the key */
+  createdBy: string;
+  createdAt: string;
+  /** Null for keys that never expire */
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+export type ApiKeyCheck =
+  | { valid: true; key: ApiKey }
+  | { valid: false; reason: 'malformed' | 'unknown' | 'revoked' | 'expired' };
+
+type ApiKeyStoreOptions = {
+  /** JSON file the keys are persisted to */
+  stateFile: string;
+};
+
+type PersistedApiKeys = {
+  keys: ApiKey[];
+};
+
+export type ApiKeyStore = {
+  /** Returns the new key along with the one-time plaintext `token` */
+  create: (key: Pick<ApiKey, 'name' | 'scopes' | 'createdBy' | 'expiresAt'>) => {
+    key: ApiKey;
+    token: string;
+  };
+  /** All keys, newest first */
+  list: () => ApiKey[];
+  /** Check a bearer token and record that its key was used */
+  authenticate: (token: string) => ApiKeyCheck;
+  /** Returns false for unknown keys */
+  revoke: (id: string) => boolean;
+};
+
+const hashSecret = (secret: string): string =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+export const createApiKeyStore = ({ stateFile }: ApiKeyStoreOptions): ApiKeyStore => {
+  let keys = new Map<string, ApiKey>();
+  let loadedMtimeMs: number | null = null;
+  const lastPersistedUse = new Map<string, number>();
+
+  const mtimeMs = (): number | null => {
+    try {
+      return fs.statSync(stateFile).mtimeMs;
+    } catch {
+      return null;
+    }
+  };
+
+  /** Pick up changes made by other processes (the CLI) */
+  const sync = (): void => {
+    const current = mtimeMs();
+    if (current === loadedMtimeMs) {
+      return;
+    }
+    keys = new Map(
+      readJsonFile<PersistedApiKeys>(stateFile, { keys: [] }).keys.map((key) => [key.id, key])
+    );
+    loadedMtimeMs = current;
+  };
+
+  const persist = (): void => {
+    writeJsonFile(stateFile, { keys: [...keys.values()] } satisfies PersistedApiKeys);
+    loadedMtimeMs = mtimeMs();
+  };
+
+  sync();
+
+  return {
+    create: (details): { key: ApiKey; token: string } => {
+      sync();
+      const id = crypto.randomBytes(8).toString('hex');
+      const secret = crypto.randomBytes(32).toString('base64url');
+      const key: ApiKey = {
+        ...details,
+        id,
+        hash: hashSecret(secret),
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null,
+        revokedAt: null,
+      };
+      keys.set(id, key);
+      persist();
+      return { key, token: `studio_${id}_${secret}` };
+    },
+
+    list: (): ApiKey[] => {
+      sync();
+      return [...keys.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    authenticate: (token): ApiKeyCheck => {
+      const match = KEY_PATTERN.exec(token);
+      if (!match) {
+        return { valid: false, reason: 'malformed' };
+      }
+      const [, id = '', secret = ''] = match;
+
+      sync();
+      const key = keys.get(id);
+      if (!key) {
+        return { valid: false, reason: 'unknown' };
+      }
+      const expected = Buffer.from(key.hash, 'hex');
+      const actual = Buffer.from(hashSecret(secret), 'hex');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { valid: false, reason: 'unknown' };
+      }
+      if (key.revokedAt) {
+        return { valid: false, reason: 'revoked' };
+      }
+      if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+        return { valid: false, reason: 'expired' };
+      }
+
+      const now = Date.now();
+      key.lastUsedAt = new Date(now).toISOString();
+      if (now - (lastPersistedUse.get(id) ?? 0) >= LAST_USED_PERSIST_MS) {
+        lastPersistedUse.set(id, now);
+        persist();
+      }
+      return { valid: true, key };
+    },
+
+    revoke: (id): boolean => {
+      sync();
+      const key = keys.get(id);
+      if (!key) {
+        return false;
+      }
+      key.revokedAt ??= new Date().toISOString();
+      persist();
+      return true;
+    },
+  };
+};
@@ -0,0 +1,347 @@
+/**
+ * Auth proxy application
+ *
+ * Builds the Express app in front of Remotion Studio from a typed config.
+ * Nothing here reads process.env or listens on a port, so tests can create
+ * as many isolated apps as they need and swap out Supabase and the render
+ * backend.
+ */
+
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import fs from 'fs';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { createApiKeyMiddleware } from './api-keys/middleware';
+import { createApiKeyRouter } from './api-keys/routes';
+import { createApiKeyStore } from './api-keys/store';
+import { createAuditLog } from './audit/log';
+import { createAuditRouter } from './audit/routes';
+import { createStudioMetrics } from './monitoring/metrics';
+import { createMonitoringRouter } from './monitoring/routes';
+import type { ServerConfig } from './config';
+import { createTokenVerifier } from './auth/jwt';
+import type { TokenVerifier } from './auth/jwt';
+import { createSessionRevocations } from './auth/revocations';
+import { hasRole, requireRole } from './auth/roles';
+import { createLogoutRouter, createSessionRevocationRouter } from './auth/routes';
+import { createSessionMiddleware } from './auth/session';
+import type { SessionAuthClient } from './auth/session';
+import { downloadsPage } from './pages/downloads-page';
+import { createRateLimiter, userOrIpKey } from './rate-limit/limiter';
+import type { RateLimiter } from './rate-limit/limiter';
+import { createMemoryRateLimitStore } from './rate-limit/memory-store';
+import type { RateLimitStore } from './rate-limit/types';
+import { createRenderArchiveRouter } from './renders/archive';
+import { createRenderEvents } from './renders/events';
+import { createRenderEventStreamRouter } from './renders/event-stream';
+import { createRenderFileRouter } from './renders/files';
+import { probeWithRemotion, readGitCommit } from './renders/metadata';
+import type { RenderMetadata, VideoProbe } from './renders/metadata';
+import { createPreviewGenerator } from './renders/previews';
+import { createRenderQueue } from './renders/queue';
+import { createRemotionBackend } from './renders/remotion-backend';
+import {
+  createRetentionRouter,
+  createRetentionSweeper,
+  hasRetentionLimits,
+} from './renders/retention';
+import { createRenderJobRouter } from './renders/routes';
+import { createRenderSlots } from './renders/slots';
+import { createStudioRenderTracker } from './renders/studio-renders';
+import type { PreviewBackend, RenderBackend } from './renders/types';
+import { createShareSigner, readOrCreateSecret } from './shares/links';
+import { createShareApiRouter, createShareRouter } from './shares/routes';
+import { createShareStore } from './shares/store';
+import { createLocalStorage } from './storage/local';
+import { createS3Storage } from './storage/s3';
+import type { RenderStorage } from './storage/types';
+import { createStudioProxy } from './studio-proxy';
+import { createWebhookDispatcher } from './webhooks/dispatcher';
+import { createRenderWebhooks } from './webhooks/render-webhooks';
+import { createWebhookRouter } from './webhooks/routes';
+import { createWebhookStore } from './webhooks/store';
+
+/** Collaborators that default to the real implementations */
+export type AppDependencies = {
+  /** Supabase auth client used to refresh sessions */
+  authClient?: SessionAuthClient;
+  /** Access token verifier (defaults to the JWT secret / JWKS from the config) */
+  verifyToken?: TokenVerifier;
+  /** Renders API-started jobs (defaults to @remotion/renderer) */
+  renderBackend?: RenderBackend;
+  /** Renders posters and preview clips (defaults to @remotion/renderer) */
+  previewBackend?: PreviewBackend;
+  /** Reads dimensions and duration of Studio renders (defaults to @remotion/renderer) */
+  probeVideo?: VideoProbe;
+  /** Where finished renders are kept (defaults to the backend from the config) */
+  storage?: RenderStorage;
+  /** Request counts for rate limiting (defaults to in-memory) */
+  rateLimitStore?: RateLimitStore;
+};
+
+export type StudioApp = {
+  app: express.Express;
+  /** Stop background work (file watcher, retention sweeper, webhook retries) */
+  close: () => void;
+};
+
+export const createApp = (config: ServerConfig, deps: AppDependencies = {}): StudioApp => {
+  const app = express();
+  // Behind Railway's proxy the client's IP is in X-Forwarded-For
+  if (config.trustProxyHops > 0) {
+    app.set('trust proxy', config.trustProxyHops);
+  }
+
+  // Render lifecycle events (queue progress + Studio renders appearing in out/)
+  const renderEvents = createRenderEvents({ outDir: config.outDir, stableAfterMs: 3000 });
+
+  // Health checks and metrics for Railway and Prometheus, without a session
+  const metrics = createStudioMetrics({ events: renderEvents, outDir: config.outDir });
+  app.use(metrics.countRequests);
+  app.use(
+    createMonitoringRouter({
+      metrics,
+      remotionTarget: config.remotionTarget,
+      outDir: config.outDir,
+      metricsToken: config.metricsToken,
+    })
+  );
+
+  app.use(cookieParser());
+
+  // Separate budgets for logins and refreshes, downloads and render submissions
+  const rateLimitStore = deps.rateLimitStore ?? createMemoryRateLimitStore();
+  const [authLimiter, downloadLimiter, renderLimiter] = (
+    ['auth', 'downloads', 'renders'] as const
+  ).map((name) =>
+    createRateLimiter({
+      name,
+      budget: config.rateLimits[name],
+      store: rateLimitStore,
+      onLimited: metrics.limited,
+    })
+  ) as [RateLimiter, RateLimiter, RateLimiter];
+
+  // Who logged in, rendered, downloaded and deleted what
+  const audit = createAuditLog({ file: path.join(config.stateDir, 'audit.jsonl') });
+
+  // Where finished renders, their sidecars and previews are kept
+  const storage =
+    deps.storage ??
+    (config.storage.backend === 's3'
+      ? createS3Storage(config.storage)
+      : createLocalStorage({ root: config.outDir }));
+
+  // Share links are checked by their signature, without a session
+  const shareStore = createShareStore({ stateFile: path.join(config.stateDir, 'shares.json') });
+  const shareSigner = createShareSigner(
+    config.shareLinkSecret ?? readOrCreateSecret(path.join(config.stateDir, 'share-link-secret'))
+  );
+  const logoFile = path.join(config.publicDir, 'assets/internal/logos/logotype-cream-tight.svg');
+  app.use('/share/:token/file', downloadLimiter.middleware(userOrIpKey));
+  app.use(
+    createShareRouter({
+      storage,
+      store: shareStore,
+      signer: shareSigner,
+      audit,
+      logoSvg: fs.existsSync(logoFile)
+        ? fs.readFileSync(logoFile, 'utf8').replace(/<\?xml[^>]*>\s*/, '')
+        : null,
+      secureCookies: config.secureCookies,
+    })
+  );
+
+  // API keys for scripts and the ERP backend, checked before the session cookies
+  const apiKeyStore = createApiKeyStore({ stateFile: path.join(config.stateDir, 'api-keys.json') });
+  app.use(createApiKeyMiddleware({ store: apiKeyStore }));
+
+  // Sessions revoked by admins are rejected until the user logs in again
+  const revocations = createSessionRevocations({
+    stateFile: path.join(config.stateDir, 'session-revocations.json'),
+  });
+
+  if (config.bypassAuth) {
+    // === DEV BYPASS ===
+    app.use((_req, res, next) => {
+      // API keys keep their scopes, so they can be tried out locally
+      if (!res.locals.apiKey) {
+        res.locals.user = { id: 'dev', email: null, role: 'admin' };
+      }
+      next();
+    });
+  } else {
+    const { supabaseUrl, supabasePublishableKey } = config;
+    if (!supabaseUrl || !supabasePublishableKey) {
+      throw new Error(
+        'supabaseUrl and supabasePublishableKey are required unless bypassAuth is set'
+      );
+    }
+
+    // Access tokens are verified locally: HS256 with the JWT secret, RS256/ES256 with the JWKS
+    const authUrl = `${supabaseUrl.replace(/\/$/, '')}/auth/v1`;
+    const verifyToken =
+      deps.verifyToken ??
+      createTokenVerifier({
+        jwtSecret: config.jwtSecret,
+        jwksUrl: `${authUrl}/.well-known/jwks.json`,
+        jwks: config.jwks,
+        jwksCacheMs: 10 * 60 * 1000,
+        audience: 'authenticated',
+        issuer: authUrl,
+      });
+    const authClient = deps.authClient ?? createClient(supabaseUrl, supabasePublishableKey).auth;
+
+    app.use(createLogoutRouter({ config, authClient, verifyToken, audit }));
+    // Login links are limited per IP, refreshes per user (in the session middleware)
+    app.use(
+      authLimiter.middleware((req) =>
+        typeof req.query.token === 'string' ? `ip:${req.ip ?? 'unknown'}` : null
+      )
+    );
+    app.use(
+      createSessionMiddleware({
+        config,
+        authClient,
+        verifyToken,
+        revocations,
+        refreshLimiter: authLimiter,
+        audit,
+        metrics,
+      })
+    );
+  }
+  app.use(createApiKeyRouter(apiKeyStore));
+  app.use(createSessionRevocationRouter({ revocations, audit }));
+  app.use(createAuditRouter(audit));
+
+  app.use(createRenderEventStreamRouter(renderEvents));
+
+  const gitCommit = config.gitCommit ?? readGitCommit(path.dirname(config.outDir));
+  const remotionBackend = createRemotionBackend({ entryPoint: config.entryPoint });
+
+  // Posters and preview clips for the downloads page, made after every render
+  // Queued renders and previews share RENDER_CONCURRENCY
+  const renderSlots = createRenderSlots(config.renderConcurrency);
+
+  const previews = config.renderPreviews
+    ? createPreviewGenerator({
+        storage,
+        workDir: path.join(config.outDir, '.partial'),
+        backend: deps.previewBackend ?? remotionBackend,
+        slots: renderSlots,
+        events: renderEvents,
+      })
+    : null;
+
+  // Signed webhooks for render lifecycle events, managed by admins
+  const webhookStore = createWebhookStore({
+    stateFile: path.join(config.stateDir, 'webhooks.json'),
+  });
+  const webhookDispatcher = createWebhookDispatcher({
+    store: webhookStore,
+    logFile: path.join(config.stateDir, 'webhook-deliveries.json'),
+    ...config.webhooks,
+  });
+  const renderWebhooks = createRenderWebhooks({
+    events: renderEvents,
+    dispatcher: webhookDispatcher,
+    publicUrl: config.publicUrl,
+  });
+  app.use(createWebhookRouter({ store: webhookStore, dispatcher: webhookDispatcher }));
+
+  const onRendered = (metadata: RenderMetadata): void => {
+    renderWebhooks.rendered(metadata);
+    metrics.rendered(metadata);
+    previews?.generate(metadata).catch((err: unknown) => {
+      console.error('[Preview] Generation failed for', metadata.file, (err as Error).message);
+    });
+  };
+
+  // Server-side render queue (started by the ERP without opening the Studio)
+  const renderQueue = createRenderQueue({
+    outDir: config.outDir,
+    storage,
+    stateFile: path.join(config.stateDir, 'render-jobs.json'),
+    slots: renderSlots,
+    maxAttempts: config.renderMaxAttempts,
+    backend: deps.renderBackend ?? remotionBackend,
+    events: renderEvents,
+    gitCommit,
+    onRendered,
+  });
+  // Covers Studio renders too, which the job router hands on to the Studio proxy
+  app.post('/api/render', renderLimiter.middleware(userOrIpKey));
+  app.use(createRenderJobRouter(renderQueue, audit));
+
+  app.use(['/out', '/api/renders/archive'], downloadLimiter.middleware(userOrIpKey));
+  app.use(createRenderArchiveRouter({ storage, audit }));
+  app.use(
+    createRenderFileRouter({
+      storage,
+      previews,
+      presignedDownloads: config.storage.backend === 's3' && config.storage.presignedDownloads,
+      events: renderEvents,
+      audit,
+    })
+  );
+
+  // Retention policy for stored renders (shared files are kept until their links stop working)
+  const retentionSweeper = createRetentionSweeper({
+    storage,
+    policy: config.retention,
+    intervalMs: config.retentionSweepIntervalMs,
+    isProtected: (file) => shareStore.isShared(file),
+    events: renderEvents,
+    audit,
+  });
+  retentionSweeper.start();
+  app.use(createRetentionRouter(retentionSweeper, config.retention));
+  app.use(
+    createShareApiRouter({
+      storage,
+      store: shareStore,
+      signer: shareSigner,
+      publicUrl: config.publicUrl,
+    })
+  );
+
+  // Downloads page with auto-download on new renders
+  app.get('/downloads', requireRole('viewer'), (_req, res) => {
+    // Viewers cannot open the Studio, so only editors get a link back to it
+    res.send(downloadsPage({ studioLink: hasRole(res.locals.user, 'editor') }));
+  });
+
+  // Studio renders get versioned names and metadata sidecars like queued ones
+  const studioRenders = createStudioRenderTracker({
+    outDir: config.outDir,
+    storage,
+    events: renderEvents,
+    probe: deps.probeVideo ?? probeWithRemotion,
+    gitCommit,
+    onRendered,
+  });
+  app.use(
+    createStudioProxy({
+      target: config.remotionTarget,
+      cleanupAfterDownload: !hasRetentionLimits(config.retention),
+      logoutButton: !config.bypassAuth,
+      studioRenders,
+      audit,
+      metrics,
+    })
+  );
+
+  return {
+    app,
+    close: (): void => {
+      studioRenders.close();
+      renderWebhooks.close();
+      metrics.close();
+      renderEvents.close();
+      retentionSweeper.stop();
+      webhookDispatcher.close();
+    },
+  };
+};
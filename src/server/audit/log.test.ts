@@ -0,0 +1,94 @@
+/**
+ * Tests for the audit log
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createAuditLog } from './log';
+
+describe('Audit log', () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-test-'));
+    file = path.join(tmpDir, 'state', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const alice = { id: 'user-1', email: 'alice@junr.studio' };
+  const bob = { id: 'user-2', email: null };
+
+  it('should append one JSON line per entry', () => {
+    const audit = createAuditLog({ file });
+
+    audit.record('render', null, alice, { jobId: 'job-1' });
+    audit.record('delete', null, null, { file: 'logo.mp4', reason: 'retention' });
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line) as unknown)).toEqual([
+      {
+        time: expect.any(String) as unknown,
+        action: 'render',
+        user: alice,
+        ip: null,
+        userAgent: null,
+        details: { jobId: 'job-1' },
+      },
+      expect.objectContaining({ action: 'delete', user: null }),
+    ]);
+  });
+
+  it('should filter by time, user and action, newest first', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    const audit = createAuditLog({ file });
+    audit.record('login', null, alice);
+    vi.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    audit.record('download', null, alice, { file: 'a.mp4' });
+    audit.record('download', null, bob, { file: 'b.mp4' });
+    vi.setSystemTime(new Date('2026-03-03T10:00:00Z'));
+    audit.record('download', null, alice, { file: 'c.mp4' });
+    vi.useRealTimers();
+
+    const files = async (filter: Parameters<typeof audit.query>[0]): Promise<unknown[]> =>
+      (await audit.query(filter)).map((entry) => entry.details.file ?? entry.action);
+
+    expect(await files({ limit: 10 })).toEqual(['c.mp4', 'b.mp4', 'a.mp4', 'login']);
+    expect(await files({ limit: 10, user: 'alice@junr.studio', action: 'download' })).toEqual([
+      'c.mp4',
+      'a.mp4',
+    ]);
+    expect(await files({ limit: 10, user: 'user-2' })).toEqual(['b.mp4']);
+    expect(
+      await files({
+        limit: 10,
+        from: new Date('2026-03-02T00:00:00Z'),
+        to: new Date('2026-03-03T10:00:00Z'),
+      })
+    ).toEqual(['b.mp4', 'a.mp4']);
+    expect(await files({ limit: 2 })).toEqual(['c.mp4', 'b.mp4']);
+  });
+
+  it('should skip lines cut short by a crash', async () => {
+    const audit = createAuditLog({ file });
+    audit.record('login', null, alice);
+    fs.appendFileSync(file, '{"time":"2026-\n');
+    audit.record('refresh', null, alice);
+
+    expect((await audit.query({ limit: 10 })).map((entry) => entry.action)).toEqual([
+      'refresh',
+      'login',
+    ]);
+    expect(
+      await createAuditLog({ file: path.join(tmpDir, 'none.jsonl') }).query({ limit: 10 })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Audit log
+ *
+ * An append-only JSON Lines file in STATE_DIR recording who did what:
+ * logins, session refreshes (and failed ones), logouts, session
+ * revocations, renders, downloads and deletions. Each line is one entry
+ * with the user from the access token, and the client's IP and user agent.
+ * Entries are only ever appended, so the file can be shipped or tailed as
+ * it is.
+ *
+ * Work the server does on its own (e.g. the retention sweeper) is recorded
+ * without a user or client.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type express from 'express';
+import type { RenderUser } from '../renders/types';
+
+export const AUDIT_ACTIONS = [
+  'login',
+  'refresh',
+  'refresh-failed',
+  'logout',
+  'revoke-sessions',
+  'render',
+  'download',
+  'delete',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditEntry = {
+  time: string;
+  action: AuditAction;
+  /** Null for share link visitors and work the server does on its own */
+  user: RenderUser | null;
+  /** Null when no request is behind the entry */
+  ip: string | null;
+  userAgent: string | null;
+  /** What the action was about, e.g. { file } for downloads */
+  details: Record<string, unknown>;
+};
+
+export type AuditFilter = {
+  /** Inclusive */
+  from?: Date;
+  /** Exclusive */
+  to?: Date;
+  /** User id or email */
+  user?: string;
+  action?: AuditAction;
+  /** Most entries to return (the newest ones) */
+  limit: number;
+};
+
+type AuditLogOptions = {
+  /** JSON Lines file the entries are appended to */
+  file: string;
+};
+
+export type AuditLog = {
+  /**
+   * Append an entry. IP and user agent are taken from `req`, which is null
+   * for work the server does on its own.
+   */
+  record: (
+    action: AuditAction,
+    req: express.Request | null,
+    user: RenderUser | null,
+    details?: Record<string, unknown>
+  ) => void;
+  /** Matching entries, newest first */
+  query: (filter: AuditFilter) => Promise<AuditEntry[]>;
+};
+
+const matches = (entry: AuditEntry, { from, to, user, action }: AuditFilter): boolean => {
+  const time = new Date(entry.time).getTime();
+  return (
+    (from === undefined || time >= from.getTime()) &&
+    (to === undefined || time < to.getTime()) &&
+    (user === undefined || entry.user?.id === user || entry.user?.email === user) &&
+    (action === undefined || entry.action === action)
+  );
+};
+
+export const createAuditLog = ({ file }: AuditLogOptions): AuditLog => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  return {
+    record: (action, req, user, details = {}): void => {
+      const entry: AuditEntry = {
+        time: new Date().toISOString(),
+        action,
+        user: user && { id: user.id, email: user.email },
+        ip: req?.ip ?? null,
+        userAgent: req?.get('User-Agent') ?? null,
+        details,
+      };
+      try {
+        // Synchronous, so entries from concurrent requests never interleave
+        fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+      } catch (err) {
+        console.error('[Audit] Failed to record', action, (err as Error).message);
+      }
+    },
+
+    query: async (filter): Promise<AuditEntry[]> => {
+      if (!fs.existsSync(file)) {
+        return [];
+      }
+      // Keep only the newest `limit` matches while reading the whole file
+      const found: AuditEntry[] = [];
+      const lines = readline.createInterface({
+        input: fs.createReadStream(file, 'utf8'),
+        crlfDelay: Infinity,
+      });
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          // A line cut short by a crash
+          continue;
+        }
+        if (matches(entry, filter)) {
+          found.push(entry);
+          if (found.length > filter.limit) {
+            found.shift();
+          }
+        }
+      }
+      return found.reverse();
+    },
+  };
+};
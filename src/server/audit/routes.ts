@@ -0,0 +1,46 @@
+/**
+ * GET /api/audit - audit log entries, newest first (admin)
+ *
+ * Filters: `from` and `to` (ISO timestamps, `from` inclusive), `user` (id or
+ * email), `action` and `limit` (default 100, at most 1000).
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth/roles';
+import { AUDIT_ACTIONS } from './log';
+import type { AuditLog } from './log';
+
+const auditQuerySchema = z.object({
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  user: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export const createAuditRouter = (audit: AuditLog): express.Router => {
+  const router = express.Router();
+
+  router.get('/api/audit', requireRole('admin'), async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const { from, to, user, action, limit } = parsed.data;
+    const entries = await audit.query({
+      limit,
+      ...(from !== undefined && { from: new Date(from) }),
+      ...(to !== undefined && { to: new Date(to) }),
+      ...(user !== undefined && { user }),
+      ...(action !== undefined && { action }),
+    });
+    return res.json({ entries });
+  });
+
+  return router;
+};
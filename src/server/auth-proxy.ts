@@ -1,483 +1,28 @@
 import 'dotenv/config';
-import express from 'express';
-import cookieParser from 'cookie-parser';
-import path from 'path';
-import fs from 'fs';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { createProxyMiddleware } from 'http-proxy-middleware';
-
-const app = express();
-app.use(cookieParser());
-
-const ERP_URL = process.env.ERP_URL || 'https://axio.junr.studio';
-const BYPASS_AUTH = process.env.BYPASS_AUTH === 'true';
-
-// Only create Supabase client if not bypassing auth and credentials exist
-let supabase: SupabaseClient | null = null;
-if (!BYPASS_AUTH) {
-  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_PUBLISHABLE_KEY) {
-    console.error('ERROR: SUPABASE_URL and SUPABASE_PUBLISHABLE_KEY are required when BYPASS_AUTH is not true');
-    process.exit(1);
-  }
-  supabase = createClient(
-    process.env.SUPABASE_URL,
-    process.env.SUPABASE_PUBLISHABLE_KEY
-  );
+import { createApp } from './app';
+import { ConfigError, describeConfig, loadConfigFromEnv } from './config';
+import type { ServerConfig } from './config';
+
+let config: ServerConfig;
+try {
+  config = loadConfigFromEnv(process.env);
+} catch (err) {
+  if (!(err instanceof ConfigError)) {
+    throw err;
+  }
+  console.error(`ERROR: ${err.message}`);
+  process.exit(1);
 }
-const REFRESH_BUFFER = 5 * 60 * 1000; // Refresh 5 min before expiry
-const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
-
-const secureCookieOptions = {
-  httpOnly: true,
-  secure: process.env.NODE_ENV === 'production',
-  sameSite: 'lax' as const, // 'lax' allows cookies on cross-site top-level navigations (clicking links)
-};
-
-app.use(async (req, res, next) => {
-  // === DEV BYPASS ===
-  if (BYPASS_AUTH) {
-    return next();
-  }
-
-  // === NEW SESSION FROM URL ===
-  if (req.query.token && req.query.refresh_token && req.query.expires_at) {
-    const expiresAt = parseInt(req.query.expires_at as string) * 1000;
-
-    if (expiresAt < Date.now()) {
-      return res.redirect(ERP_URL);
-    }
-
-    const maxAge = Math.min(expiresAt - Date.now(), SESSION_MAX_AGE);
-    res.cookie('studio_token', req.query.token, { ...secureCookieOptions, maxAge });
-    res.cookie('studio_refresh', req.query.refresh_token, { ...secureCookieOptions, maxAge: SESSION_MAX_AGE });
-    res.cookie('studio_expires', req.query.expires_at, { ...secureCookieOptions, maxAge });
-
-    // Validate path to prevent open redirect
-    const safePath = req.path && req.path.startsWith('/') && !req.path.startsWith('//')
-      ? req.path
-      : '/';
-    return res.redirect(safePath);
-  }
-
-  // === EXISTING SESSION ===
-  const token = req.cookies['studio_token'];
-  const refreshToken = req.cookies['studio_refresh'];
-  const expiresAt = parseInt(req.cookies['studio_expires'] || '0') * 1000;
-
-  if (!token || !refreshToken) {
-    return res.redirect(ERP_URL);
-  }
-
-  // Token still valid
-  if (expiresAt > Date.now() + REFRESH_BUFFER) {
-    return next();
-  }
-
-  // === REFRESH NEEDED ===
-  const { data, error } = await supabase!.auth.setSession({
-    access_token: token,
-    refresh_token: refreshToken,
-  });
-
-  if (error || !data.session) {
-    res.clearCookie('studio_token');
-    res.clearCookie('studio_refresh');
-    res.clearCookie('studio_expires');
-    return res.redirect(ERP_URL);
-  }
-
-  const newExpiresAt = data.session.expires_at!;
-  const maxAge = Math.min(newExpiresAt * 1000 - Date.now(), SESSION_MAX_AGE);
-
-  res.cookie('studio_token', data.session.access_token, { ...secureCookieOptions, maxAge });
-  res.cookie('studio_refresh', data.session.refresh_token!, { ...secureCookieOptions, maxAge: SESSION_MAX_AGE });
-  res.cookie('studio_expires', newExpiresAt.toString(), { ...secureCookieOptions, maxAge });
-
-  return next();
-});
-
-const REMOTION_PORT = process.env.REMOTION_PORT || 3001;
-const REMOTION_TARGET = `http://localhost:${REMOTION_PORT}`;
-
-// Serve rendered videos from the out/ directory
-// This allows downloads to work in production where the filesystem is ephemeral
-const outDir = path.join(process.cwd(), 'out');
-
-// API endpoint to list rendered files
-app.get('/api/renders', (_req, res) => {
-  try {
-    if (!fs.existsSync(outDir)) {
-      return res.json({ files: [] });
-    }
-    const files = fs.readdirSync(outDir)
-      .filter(f => ['.mp4', '.webm', '.mov', '.gif'].includes(path.extname(f).toLowerCase()))
-      .map(f => {
-        const stats = fs.statSync(path.join(outDir, f));
-        return {
-          name: f,
-          url: `/out/${f}`,
-          size: stats.size,
-          created: stats.birthtime,
-        };
-      })
-      .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
-    return res.json({ files });
-  } catch (err) {
-    console.error('Error listing renders:', err);
-    return res.status(500).json({ error: 'Failed to list renders' });
-  }
-});
-
-// Downloads page with auto-download on new renders
-app.get('/downloads', (_req, res) => {
-  res.send(`<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Remotion Downloads</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #0a0a0a; color: #fff; padding: 2rem; }
-    h1 { margin-bottom: 1rem; }
-    .status { padding: 0.5rem 1rem; border-radius: 4px; margin-bottom: 1rem; font-size: 0.9rem; }
-    .status.watching { background: #1a3a1a; border: 1px solid #2d5a2d; }
-    .status.downloading { background: #3a3a1a; border: 1px solid #5a5a2d; }
-    .files { list-style: none; }
-    .file { background: #1a1a1a; border: 1px solid #333; border-radius: 8px; padding: 1rem; margin-bottom: 0.5rem; display: flex; justify-content: space-between; align-items: center; }
-    .file-info { flex: 1; }
-    .file-name { font-weight: 600; margin-bottom: 0.25rem; }
-    .file-meta { font-size: 0.8rem; color: #888; }
-    .download-btn { background: #3b82f6; color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; text-decoration: none; }
-    .download-btn:hover { background: #2563eb; }
-    .new { animation: pulse 2s ease-in-out; }
-    @keyframes pulse { 0%, 100% { box-shadow: 0 0 0 0 rgba(59, 130, 246, 0); } 50% { box-shadow: 0 0 0 10px rgba(59, 130, 246, 0.3); } }
-    .empty { color: #666; font-style: italic; }
-    .toggle { margin-bottom: 1rem; }
-    .toggle label { display: flex; align-items: center; gap: 0.5rem; cursor: pointer; }
-    .back-link { color: #3b82f6; text-decoration: none; margin-bottom: 1rem; display: inline-block; }
-  </style>
-</head>
-<body>
-  <a href="/" class="back-link">&larr; Back to Studio</a>
-  <h1>Rendered Videos</h1>
-  <div class="toggle">
-    <label><input type="checkbox" id="autoDownload" checked> Auto-download new renders</label>
-  </div>
-  <div id="status" class="status watching">Watching for new renders...</div>
-  <ul id="files" class="files"></ul>
-
-  <script>
-    let knownFiles = new Set();
-    let autoDownload = true;
-    const statusEl = document.getElementById('status');
-    const filesEl = document.getElementById('files');
-    const autoDownloadEl = document.getElementById('autoDownload');
-
-    autoDownloadEl.addEventListener('change', (e) => {
-      autoDownload = e.target.checked;
-      statusEl.textContent = autoDownload ? 'Watching for new renders...' : 'Auto-download disabled';
-      statusEl.className = 'status watching';
-    });
-
-    function formatSize(bytes) {
-      if (bytes < 1024) return bytes + ' B';
-      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-      return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
-    }
-
-    function formatDate(dateStr) {
-      return new Date(dateStr).toLocaleString();
-    }
-
-    function triggerDownload(url, name) {
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-    }
-
-    async function checkRenders() {
-      try {
-        const res = await fetch('/api/renders', { credentials: 'include' });
-
-        // Check if we got redirected (auth issue)
-        if (res.redirected) {
-          statusEl.textContent = 'Auth error - redirected. Try refreshing page.';
-          statusEl.className = 'status downloading';
-          console.error('Redirected to:', res.url);
-          return;
-        }
-
-        if (!res.ok) {
-          statusEl.textContent = 'API error: ' + res.status + ' ' + res.statusText;
-          statusEl.className = 'status downloading';
-          console.error('API error:', res.status, await res.text());
-          return;
-        }
-
-        const contentType = res.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-          statusEl.textContent = 'Invalid response - not JSON';
-          statusEl.className = 'status downloading';
-          console.error('Not JSON, got:', contentType, await res.text());
-          return;
-        }
-
-        const data = await res.json();
 
-        // Check for new files
-        const newFiles = data.files.filter(f => !knownFiles.has(f.name));
+console.log(`Effective configuration:\n${describeConfig(config)}`);
 
-        // Debug info
-        console.log('Renders API response:', data);
-        console.log('Known files:', [...knownFiles]);
-        console.log('New files:', newFiles);
+const { app } = createApp(config);
 
-        // Update UI
-        if (data.files.length === 0) {
-          filesEl.innerHTML = '<li class="empty">No rendered videos yet. Render something in the Studio!</li>';
-        } else {
-          filesEl.innerHTML = data.files.map(f => {
-            const isNew = newFiles.some(nf => nf.name === f.name);
-            return \`<li class="file \${isNew ? 'new' : ''}">
-              <div class="file-info">
-                <div class="file-name">\${f.name}</div>
-                <div class="file-meta">\${formatSize(f.size)} &bull; \${formatDate(f.created)}</div>
-              </div>
-              <a href="\${f.url}" class="download-btn" download>Download</a>
-            </li>\`;
-          }).join('');
-        }
-
-        // Auto-download new files
-        if (autoDownload && newFiles.length > 0) {
-          statusEl.textContent = 'Downloading ' + newFiles.map(f => f.name).join(', ') + '...';
-          statusEl.className = 'status downloading';
-
-          for (const file of newFiles) {
-            triggerDownload(file.url, file.name);
-          }
-
-          setTimeout(() => {
-            statusEl.textContent = 'Watching for new renders...';
-            statusEl.className = 'status watching';
-          }, 3000);
-        }
-
-        // Update known files
-        knownFiles = new Set(data.files.map(f => f.name));
-      } catch (err) {
-        console.error('Error checking renders:', err);
-      }
-    }
-
-    // Initial check
-    checkRenders();
-
-    // Poll every 2 seconds
-    setInterval(checkRenders, 2000);
-  </script>
-</body>
-</html>`);
-});
-
-// Serve files from out/ directory with optional auto-cleanup after download
-app.get('/out/:filename', (req, res) => {
-  const filename = req.params.filename;
-  const autoCleanup = req.query.cleanup === 'true';
-
-  // Validate filename
-  if (!filename || filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
-    return res.status(400).send('Invalid filename');
-  }
-
-  const ext = path.extname(filename).toLowerCase();
-  if (!['.mp4', '.webm', '.mov', '.gif'].includes(ext)) {
-    return res.status(400).send('Invalid file type');
-  }
-
-  const filePath = path.join(outDir, filename);
-
-  if (!fs.existsSync(filePath)) {
-    return res.status(404).send('File not found');
-  }
-
-  const stats = fs.statSync(filePath);
-
-  // Set headers for download
-  res.setHeader('Content-Type', ext === '.gif' ? 'image/gif' : `video/${ext.slice(1)}`);
-  res.setHeader('Content-Length', stats.size);
-  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-
-  // Stream the file
-  const stream = fs.createReadStream(filePath);
-
-  stream.pipe(res);
-
-  // Delete file after download completes (if cleanup requested)
-  if (autoCleanup) {
-    res.on('finish', () => {
-      fs.unlink(filePath, (err) => {
-        if (err) {
-          console.error('[Cleanup] Failed to delete after download:', filename, err.message);
-        } else {
-          console.log('[Cleanup] Deleted after successful download:', filename);
-        }
-      });
-    });
-  }
-
-  stream.on('error', (err) => {
-    console.error('[Download] Stream error:', filename, err.message);
-    if (!res.headersSent) {
-      res.status(500).send('Download failed');
-    }
-  });
-});
-
-// Auto-download script to inject into Remotion Studio
-const autoDownloadScript = `
-<script>
-(function() {
-  // Auto-download watcher for Remotion Studio
-  const knownFiles = new Map(); // name -> {size, stable}
-  const pendingDownloads = new Map(); // name -> {size, checks}
-  let initialized = false;
-
-  function triggerDownload(url, name) {
-    // Add cleanup=true to auto-delete after download completes on server
-    const downloadUrl = url + '?cleanup=true';
-    const a = document.createElement('a');
-    a.href = downloadUrl;
-    a.download = name;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    console.log('[Auto-Download] Downloading (with auto-cleanup):', name);
-  }
-
-  async function checkForNewRenders() {
-    try {
-      const res = await fetch('/api/renders', { credentials: 'include' });
-      if (!res.ok) return;
-
-      const data = await res.json();
-
-      // On first run, just record existing files (don't download)
-      if (!initialized) {
-        for (const file of data.files) {
-          knownFiles.set(file.name, { size: file.size, stable: true });
-        }
-        initialized = true;
-        console.log('[Auto-Download] Initialized with', knownFiles.size, 'existing files');
-        return;
-      }
-
-      // Check each file
-      for (const file of data.files) {
-        const known = knownFiles.get(file.name);
-
-        if (!known) {
-          // New file detected - add to pending and wait for size to stabilize
-          const pending = pendingDownloads.get(file.name);
-
-          if (!pending) {
-            // First time seeing this file
-            pendingDownloads.set(file.name, { size: file.size, checks: 1, url: file.url });
-            console.log('[Auto-Download] New file detected, waiting for completion:', file.name, '(' + file.size + ' bytes)');
-          } else if (pending.size === file.size) {
-            // Size unchanged - increment stability counter
-            pending.checks++;
-            console.log('[Auto-Download] File size stable check', pending.checks, '/ 3:', file.name);
-
-            // After 3 checks with same size (6 seconds), consider complete
-            if (pending.checks >= 3) {
-              console.log('[Auto-Download] File complete, downloading:', file.name);
-              triggerDownload(pending.url, file.name);
-              knownFiles.set(file.name, { size: file.size, stable: true });
-              pendingDownloads.delete(file.name);
-            }
-          } else {
-            // Size changed - reset counter (file still being written)
-            pending.size = file.size;
-            pending.checks = 1;
-            console.log('[Auto-Download] File still writing:', file.name, '(' + file.size + ' bytes)');
-          }
-        }
-      }
-
-      // Update known files with current sizes
-      for (const file of data.files) {
-        if (knownFiles.has(file.name)) {
-          knownFiles.set(file.name, { size: file.size, stable: true });
-        }
-      }
-    } catch (err) {
-      // Silent fail - don't spam console
-    }
+app.listen(config.port, () => {
+  console.log(
+    `Auth proxy on port ${config.port}, proxying to Remotion on ${config.remotionTarget}`
+  );
+  if (config.bypassAuth) {
+    console.warn('BYPASS_AUTH is enabled - every request is treated as an admin');
   }
-
-  // Start polling every 2 seconds
-  setInterval(checkForNewRenders, 2000);
-  checkForNewRenders();
-  console.log('[Auto-Download] Watcher active - new renders will download automatically after completion');
-})();
-</script>
-`;
-
-// Proxy to Remotion Studio with script injection for auto-download
-app.use(
-  '/',
-  createProxyMiddleware({
-    target: REMOTION_TARGET,
-    ws: true,
-    changeOrigin: true,
-    selfHandleResponse: true,
-    on: {
-      proxyRes: (proxyRes, req, res) => {
-        const contentType = proxyRes.headers['content-type'] || '';
-
-        // Only modify HTML responses (the main page)
-        if (contentType.includes('text/html')) {
-          let body = '';
-          proxyRes.on('data', (chunk) => {
-            body += chunk.toString();
-          });
-          proxyRes.on('end', () => {
-            // Inject our auto-download script before </body>
-            const modifiedBody = body.replace('</body>', autoDownloadScript + '</body>');
-
-            // Copy headers but update content-length
-            const headers = { ...proxyRes.headers };
-            headers['content-length'] = Buffer.byteLength(modifiedBody).toString();
-            delete headers['content-encoding']; // Remove compression since we modified content
-
-            res.writeHead(proxyRes.statusCode || 200, headers);
-            res.end(modifiedBody);
-          });
-        } else {
-          // For non-HTML, just pipe through
-          res.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
-          proxyRes.pipe(res);
-        }
-      },
-      error: (err, _req, res) => {
-        console.error('Proxy error:', err.message);
-        if ('writeHead' in res && typeof res.writeHead === 'function') {
-          res.writeHead(503, { 'Content-Type': 'text/plain' });
-          res.end('Remotion Studio is starting up, please refresh in a few seconds...');
-        }
-      },
-    },
-  })
-);
-
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`Auth proxy on port ${PORT}, proxying to Remotion on ${REMOTION_PORT}`);
-  console.log(`BYPASS_AUTH: ${BYPASS_AUTH}`);
 });
@@ -0,0 +1,228 @@
+/**
+ * Tests for local access token verification
+ * Uses locally generated keys, the same way the offline test mode does
+ *
+ * @vitest-environment node
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, afterEach } from 'vitest';
+import { createTokenVerifier } from './jwt';
+import type { JsonWebKeySet } from './jwt';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const inOneHour = (): number => Math.floor(Date.now() / 1000) + 3600;
+
+const ISSUER = 'https://xxx.supabase.co/auth/v1';
+
+/** Audience and issuer of Supabase user sessions, as the verifiers expect */
+const SESSION_CLAIMS = { aud: 'authenticated', iss: ISSUER };
+const verifierClaims = { audience: 'authenticated', issuer: ISSUER };
+
+const signHs256 = (claims: Record<string, unknown>, secret: string): string => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${crypto.createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+const signAsymmetric = (
+  alg: 'RS256' | 'ES256',
+  kid: string,
+  claims: Record<string, unknown>,
+  privateKey: crypto.KeyObject
+): string => {
+  const input = `${encode({ alg, kid, typ: 'JWT' })}.${encode(claims)}`;
+  const signature =
+    alg === 'RS256'
+      ? crypto.sign('sha256', Buffer.from(input), privateKey)
+      : crypto.sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${input}.${signature.toString('base64url')}`;
+};
+
+const generateJwks = (
+  type: 'ec' | 'rsa',
+  kid: string
+): { privateKey: crypto.KeyObject; jwks: JsonWebKeySet } => {
+  const { privateKey, publicKey } =
+    type === 'ec'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { privateKey, jwks: { keys: [{ ...publicKey.export({ format: 'jwk' }), kid }] } };
+};
+
+describe('Token verification', () => {
+  let server: http.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it('should accept HS256 tokens signed with the JWT secret', async () => {
+    const verify = createTokenVerifier({
+      jwtSecret: 'secret',
+      jwksUrl: null,
+      jwks: null,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+
+    const result = await verify(
+      signHs256({ ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() }, 'secret')
+    );
+    expect(result).toMatchObject({
+      valid: true,
+      expired: false,
+      claims: { ...SESSION_CLAIMS, sub: 'user-1' },
+    });
+
+    const forged = await verify(
+      signHs256({ ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() }, 'guessed')
+    );
+    expect(forged).toEqual({ valid: false, reason: 'Invalid signature' });
+  });
+
+  it('should accept ES256 tokens from a locally generated key pair', async () => {
+    const { privateKey, jwks } = generateJwks('ec', 'local');
+    const verify = createTokenVerifier({
+      jwtSecret: null,
+      jwksUrl: null,
+      jwks,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+
+    const token = signAsymmetric(
+      'ES256',
+      'local',
+      { ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() },
+      privateKey
+    );
+    expect(await verify(token)).toMatchObject({ valid: true, expired: false });
+  });
+
+  it('should reject tampered, unsigned and malformed tokens', async () => {
+    const { privateKey, jwks } = generateJwks('ec', 'local');
+    const verify = createTokenVerifier({
+      jwtSecret: 'secret',
+      jwksUrl: null,
+      jwks,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+
+    const token = signAsymmetric(
+      'ES256',
+      'local',
+      { ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() },
+      privateKey
+    );
+    const [header, , signature] = token.split('.');
+    const tampered = `${header}.${encode({ sub: 'admin', exp: inOneHour() })}.${signature}`;
+    const unsigned = `${encode({ alg: 'none' })}.${encode({ ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() })}.`;
+
+    expect(await verify(tampered)).toEqual({ valid: false, reason: 'Invalid signature' });
+    expect((await verify(unsigned)).valid).toBe(false);
+    expect(await verify('x')).toEqual({ valid: false, reason: 'Malformed token' });
+  });
+
+  it('should reject HS256 tokens when no secret is configured', async () => {
+    const { jwks } = generateJwks('ec', 'local');
+    const verify = createTokenVerifier({
+      jwtSecret: null,
+      jwksUrl: null,
+      jwks,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+
+    const result = await verify(
+      signHs256({ ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() }, '')
+    );
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject tokens for another audience or issuer', async () => {
+    const verify = createTokenVerifier({
+      jwtSecret: 'secret',
+      jwksUrl: null,
+      jwks: null,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+    const sign = (claims: Record<string, unknown>): string =>
+      signHs256({ ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour(), ...claims }, 'secret');
+
+    expect((await verify(sign({ aud: ['authenticated', 'other'] }))).valid).toBe(true);
+    expect(await verify(sign({ aud: 'anon' }))).toEqual({
+      valid: false,
+      reason: 'Wrong audience anon',
+    });
+    expect((await verify(sign({ aud: undefined }))).valid).toBe(false);
+    expect(await verify(sign({ iss: 'https://other.supabase.co/auth/v1' }))).toEqual({
+      valid: false,
+      reason: 'Wrong issuer https://other.supabase.co/auth/v1',
+    });
+    expect((await verify(sign({ iss: undefined }))).valid).toBe(false);
+  });
+
+  it('should report correctly signed but expired tokens as expired', async () => {
+    const verify = createTokenVerifier({
+      jwtSecret: 'secret',
+      jwksUrl: null,
+      jwks: null,
+      jwksCacheMs: 0,
+      ...verifierClaims,
+    });
+
+    const expiredToken = signHs256(
+      { ...SESSION_CLAIMS, sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 60 },
+      'secret'
+    );
+    expect(await verify(expiredToken)).toMatchObject({ valid: true, expired: true });
+    expect(await verify(signHs256({ ...SESSION_CLAIMS, sub: 'user-1' }, 'secret'))).toEqual({
+      valid: false,
+      reason: 'Missing exp claim',
+    });
+  });
+
+  it('should fetch and cache the JWKS and throttle refetches for unknown key ids', async () => {
+    const first = generateJwks('rsa', 'key-1');
+    const rotated = generateJwks('rsa', 'key-2');
+    let served = first.jwks;
+    let requests = 0;
+
+    server = http.createServer((_req, res) => {
+      requests += 1;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(served));
+    });
+    await new Promise<void>((resolve) => server!.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const verify = createTokenVerifier({
+      jwtSecret: null,
+      jwksUrl: `http://127.0.0.1:${port}/auth/v1/.well-known/jwks.json`,
+      jwks: null,
+      jwksCacheMs: 60_000,
+      ...verifierClaims,
+    });
+
+    const claims = { ...SESSION_CLAIMS, sub: 'user-1', exp: inOneHour() };
+    expect((await verify(signAsymmetric('RS256', 'key-1', claims, first.privateKey))).valid).toBe(
+      true
+    );
+    expect((await verify(signAsymmetric('RS256', 'key-1', claims, first.privateKey))).valid).toBe(
+      true
+    );
+    expect(requests).toBe(1);
+
+    // Rotated keys are only refetched after the minimum refetch interval
+    served = rotated.jwks;
+    const result = await verify(signAsymmetric('RS256', 'key-2', claims, rotated.privateKey));
+    expect(result).toEqual({ valid: false, reason: 'Unknown signing key key-2' });
+    expect(requests).toBe(1);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * JWT helpers for Supabase access tokens
+ *
+ * Access tokens are verified locally so that no request reaches the Studio
+ * with a forged or tampered token:
+ * - HS256 tokens are checked against the project's JWT secret (legacy projects)
+ * - RS256 / ES256 tokens are checked against the project's JWKS, which is
+ *   fetched from Supabase and cached
+ * - A static JWKS can be configured instead of fetching (offline / tests)
+ * - The audience and issuer must be the project's, so tokens another service
+ *   signed with the same keys are not accepted
+ */
+
+import crypto from 'crypto';
+import type { JwtClaims } from './types';
+
+/** Minimum time between JWKS refetches triggered by an unknown key id */
+const MIN_JWKS_REFETCH_MS = 30_000;
+
+/** Timeout for fetching the JWKS */
+const JWKS_FETCH_TIMEOUT_MS = 5_000;
+
+type JwtHeader = {
+  alg?: string;
+  kid?: string;
+};
+
+export type JsonWebKeySet = {
+  keys: (crypto.JsonWebKey & { kid?: string })[];
+};
+
+export type TokenVerifierOptions = {
+  /** Shared secret for HS256 tokens, or null to reject HS256 */
+  jwtSecret: string | null;
+  /** JWKS endpoint, e.g. https://xxx.supabase.co/auth/v1/.well-known/jwks.json */
+  jwksUrl: string | null;
+  /** Static JWKS used instead of fetching jwksUrl */
+  jwks: JsonWebKeySet | null;
+  /** How long fetched keys are cached */
+  jwksCacheMs: number;
+  /** Required `aud` claim, `authenticated` for Supabase user sessions */
+  audience: string;
+  /** Required `iss` claim, e.g. https://xxx.supabase.co/auth/v1 */
+  issuer: string;
+};
+
+/**
+ * Result of verifying an access token. A correctly signed token past its
+ * expiry is reported as `expired` rather than invalid, because its session
+ * can still be refreshed.
+ */
+export type TokenVerification =
+  | { valid: true; expired: boolean; claims: JwtClaims }
+  | { valid: false; reason: string };
+
+export type TokenVerifier = (token: string) => Promise<TokenVerification>;
+
+const decodeSegment = (segment: string | undefined): Record<string, unknown> | null => {
+  if (!segment) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return null;
+    }
+    return value as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decode the payload of a JWT without checking its signature.
+ * Returns null when the token is not a well-formed JWT.
+ */
+export const decodeJwtClaims = (token: string): JwtClaims | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  return decodeSegment(parts[1]) as JwtClaims | null;
+};
+
+const keysById = (jwks: JsonWebKeySet): Map<string, crypto.KeyObject> => {
+  const keys = new Map<string, crypto.KeyObject>();
+  for (const jwk of jwks.keys) {
+    try {
+      keys.set(jwk.kid ?? '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch (err) {
+      console.error('[Auth] Skipping unusable JWKS key:', jwk.kid, (err as Error).message);
+    }
+  }
+  return keys;
+};
+
+const fetchJwks = async (url: string): Promise<Map<string, crypto.KeyObject>> => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with ${response.status}`);
+  }
+  return keysById((await response.json()) as JsonWebKeySet);
+};
+
+export const createTokenVerifier = ({
+  jwtSecret,
+  jwksUrl,
+  jwks,
+  jwksCacheMs,
+  audience,
+  issuer,
+}: TokenVerifierOptions): TokenVerifier => {
+  const staticKeys = jwks ? keysById(jwks) : null;
+  let cachedKeys: Map<string, crypto.KeyObject> | null = null;
+  let fetchedAt = 0;
+  let inflight: Promise<Map<string, crypto.KeyObject>> | null = null;
+
+  const loadKeys = async (refresh: boolean): Promise<Map<string, crypto.KeyObject>> => {
+    if (staticKeys) {
+      return staticKeys;
+    }
+    if (!jwksUrl) {
+      return new Map();
+    }
+
+    const age = Date.now() - fetchedAt;
+    if (cachedKeys && (refresh ? age < MIN_JWKS_REFETCH_MS : age < jwksCacheMs)) {
+      return cachedKeys;
+    }
+
+    inflight ??= fetchJwks(jwksUrl)
+      .then((keys) => {
+        cachedKeys = keys;
+        fetchedAt = Date.now();
+        return keys;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+
+    try {
+      return await inflight;
+    } catch (err) {
+      // Keep verifying with the last known keys while Supabase is unreachable
+      if (cachedKeys) {
+        console.error('[Auth] JWKS refresh failed, using cached keys:', (err as Error).message);
+        return cachedKeys;
+      }
+      throw err;
+    }
+  };
+
+  const findKey = async (kid: string | undefined): Promise<crypto.KeyObject | undefined> => {
+    const pick = (keys: Map<string, crypto.KeyObject>): crypto.KeyObject | undefined =>
+      kid !== undefined ? keys.get(kid) : keys.size === 1 ? [...keys.values()][0] : keys.get('');
+
+    // An unknown key id usually means Supabase rotated its keys
+    return pick(await loadKeys(false)) ?? pick(await loadKeys(true));
+  };
+
+  return async (token) => {
+    const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+    const header = decodeSegment(headerSegment) as JwtHeader | null;
+    const claims = decodeSegment(payloadSegment) as JwtClaims | null;
+    if (!header || !claims || !signatureSegment || token.split('.').length !== 3) {
+      return { valid: false, reason: 'Malformed token' };
+    }
+
+    const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = Buffer.from(signatureSegment, 'base64url');
+    let signatureValid: boolean;
+
+    try {
+      if (header.alg === 'HS256') {
+        if (!jwtSecret) {
+          return { valid: false, reason: 'HS256 tokens are not accepted (no JWT secret)' };
+        }
+        const expected = crypto.createHmac('sha256', jwtSecret).update(signingInput).digest();
+        signatureValid =
+          expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+      } else if (header.alg === 'RS256' || header.alg === 'ES256') {
+        const key = await findKey(header.kid);
+        if (!key) {
+          return { valid: false, reason: `Unknown signing key ${header.kid ?? '(none)'}` };
+        }
+        signatureValid =
+          header.alg === 'RS256'
+            ? crypto.verify('sha256', signingInput, key, signature)
+            : crypto.verify('sha256', signingInput, { key, dsaEncoding: 'ieee-p1363' }, signature);
+      } else {
+        return { valid: false, reason: `Unsupported algorithm ${String(header.alg)}` };
+      }
+    } catch (err) {
+      return { valid: false, reason: `Verification error: ${(err as Error).message}` };
+    }
+
+    if (!signatureValid) {
+      return { valid: false, reason: 'Invalid signature' };
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(audience)) {
+      return { valid: false, reason: `Wrong audience ${String(claims.aud)}` };
+    }
+    if (claims.iss !== issuer) {
+      return { valid: false, reason: `Wrong issuer ${String(claims.iss)}` };
+    }
+    if (typeof claims.exp !== 'number') {
+      return { valid: false, reason: 'Missing exp claim' };
+    }
+
+    return { valid: true, expired: claims.exp * 1000 <= Date.now(), claims };
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Session revocations
+ *
+ * Sessions live in cookies and are refreshed through Supabase, so the proxy
+ * cannot end one by forgetting it. Instead, admins revoke a user's sessions:
+ * access tokens of that user issued before the revocation are rejected from
+ * then on, and so are the refreshes they would lead to. Logging in again
+ * from the ERP issues a new token, which is accepted.
+ *
+ * Revocations are persisted to a JSON file in STATE_DIR, one per user (the
+ * latest).
+ */
+
+import { readJsonFile, writeJsonFile } from '../json-file';
+import type { JwtClaims } from './types';
+
+export type SessionRevocation = {
+  /** Supabase user id (`sub`) */
+  userId: string;
+  /** Tokens issued at or before this time are rejected */
+  revokedAt: string;
+  /** User id of the admin who revoked the sessions */
+  revokedBy: string;
+};
+
+type SessionRevocationsOptions = {
+  /** JSON file the revocations are persisted to */
+  stateFile: string;
+};
+
+type PersistedRevocations = {
+  revocations: SessionRevocation[];
+};
+
+export type SessionRevocations = {
+  /** Revoke every session of a user that exists right now */
+  revoke: (userId: string, revokedBy: string) => SessionRevocation;
+  /** All revocations, newest first */
+  list: () => SessionRevocation[];
+  /** Whether a verified token belongs to a revoked session */
+  isRevoked: (claims: JwtClaims) => boolean;
+};
+
+export const createSessionRevocations = ({
+  stateFile,
+}: SessionRevocationsOptions): SessionRevocations => {
+  const revocations = new Map<string, SessionRevocation>(
+    readJsonFile<PersistedRevocations>(stateFile, { revocations: [] }).revocations.map(
+      (revocation) => [revocation.userId, revocation]
+    )
+  );
+
+  const persist = (): void => {
+    writeJsonFile(stateFile, {
+      revocations: [...revocations.values()],
+    } satisfies PersistedRevocations);
+  };
+
+  return {
+    revoke: (userId, revokedBy): SessionRevocation => {
+      const revocation = { userId, revokedAt: new Date().toISOString(), revokedBy };
+      revocations.set(userId, revocation);
+      persist();
+      return revocation;
+    },
+
+    list: (): SessionRevocation[] =>
+      [...revocations.values()].sort((a, b) => b.revokedAt.localeCompare(a.revokedAt)),
+
+    isRevoked: ({ sub, iat }): boolean => {
+      const revocation = sub === undefined ? undefined : revocations.get(sub);
+      if (!revocation) {
+        return false;
+      }
+      // `iat` has whole seconds, so a token from the second of the revocation counts as revoked
+      return iat === undefined || iat * 1000 <= new Date(revocation.revokedAt).getTime();
+    },
+  };
+};
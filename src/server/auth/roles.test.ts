@@ -0,0 +1,65 @@
+/**
+ * Tests for role resolution from Supabase token claims
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeJwtClaims } from './jwt';
+import { hasRole, userFromClaims } from './roles';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('Role resolution', () => {
+  it('should read the role from app_metadata by default', () => {
+    const user = userFromClaims(
+      { sub: 'user-1', email: 'a@junr.studio', app_metadata: { role: 'editor' } },
+      'app_metadata.role',
+      'viewer'
+    );
+    expect(user).toEqual({ id: 'user-1', email: 'a@junr.studio', role: 'editor' });
+  });
+
+  it('should support a custom claim path', () => {
+    const user = userFromClaims(
+      { sub: 'user-1', app_metadata: { studio: { role: 'admin' } } },
+      'app_metadata.studio.role',
+      'viewer'
+    );
+    expect(user.role).toBe('admin');
+  });
+
+  it('should fall back to the default role for missing or unknown roles', () => {
+    expect(userFromClaims({ sub: 'user-1' }, 'app_metadata.role', 'viewer').role).toBe('viewer');
+    expect(
+      userFromClaims(
+        { sub: 'user-1', app_metadata: { role: 'owner' } },
+        'app_metadata.role',
+        'viewer'
+      ).role
+    ).toBe('viewer');
+    // Supabase's own top-level "role" claim is not a studio role
+    expect(userFromClaims({ role: 'authenticated' }, 'role', 'editor').role).toBe('editor');
+  });
+
+  it('should rank roles viewer < editor < admin', () => {
+    const editor = { id: 'user-1', email: null, role: 'editor' as const };
+    expect(hasRole(editor, 'viewer')).toBe(true);
+    expect(hasRole(editor, 'editor')).toBe(true);
+    expect(hasRole(editor, 'admin')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('JWT claim decoding', () => {
+  it('should decode the payload of a JWT', () => {
+    const token = `${encode({ alg: 'HS256' })}.${encode({ sub: 'user-1' })}.signature`;
+    expect(decodeJwtClaims(token)).toEqual({ sub: 'user-1' });
+  });
+
+  it('should return null for malformed tokens', () => {
+    expect(decodeJwtClaims('not-a-jwt')).toBeNull();
+    expect(decodeJwtClaims('a.b.c')).toBeNull();
+    expect(decodeJwtClaims(`a.${encode(['array'])}.c`)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Role-based authorization
+ *
+ * Roles come from the Supabase access token. By default the proxy reads
+ * `app_metadata.role`, which only the service role can write (users cannot
+ * change their own app_metadata). A different claim can be used by setting a
+ * dot-separated path such as `app_metadata.studio_role`.
+ */
+
+import type express from 'express';
+import type { ApiKeyScope, AuthUser, JwtClaims, Role } from './types';
+import { ROLES } from './types';
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+/**
+ * Read a value from the claims by dot-separated path (e.g. "app_metadata.role")
+ */
+const getClaim = (claims: JwtClaims, claimPath: string): unknown => {
+  let value: unknown = claims;
+  for (const key of claimPath.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+/**
+ * Build the signed-in user from token claims.
+ * Falls back to `defaultRole` when the claim is missing or not a known role.
+ */
+export const userFromClaims = (
+  claims: JwtClaims,
+  claimPath: string,
+  defaultRole: Role
+): AuthUser => {
+  const claimedRole = getClaim(claims, claimPath);
+  return {
+    id: claims.sub ?? 'unknown',
+    email: claims.email ?? null,
+    role: isRole(claimedRole) ? claimedRole : defaultRole,
+  };
+};
+
+/**
+ * Whether the user has at least the required role
+ */
+export const hasRole = (user: AuthUser | undefined, required: Role): boolean =>
+  user !== undefined && ROLE_RANK[user.role] >= ROLE_RANK[required];
+
+/**
+ * Whether a request may do something that needs the `required` role, or
+ * `scope` for requests with an API key. Without a scope, API keys are
+ * always refused.
+ */
+export const isAllowed = (
+  locals: Pick<express.Locals, 'user' | 'apiKey'>,
+  required: Role,
+  scope?: ApiKeyScope
+): boolean =>
+  locals.apiKey
+    ? scope !== undefined && locals.apiKey.scopes.includes(scope)
+    : hasRole(locals.user, required);
+
+/**
+ * Middleware rejecting requests from users below the required role, and
+ * API keys without `scope` (or any API key when no scope is given)
+ */
+export const requireRole =
+  (required: Role, scope?: ApiKeyScope): express.RequestHandler =>
+  (_req, res, next) => {
+    if (!isAllowed(res.locals, required, scope)) {
+      res.status(403).json({
+        error: !res.locals.apiKey
+          ? `Requires ${required} role`
+          : scope
+            ? `Requires the ${scope} scope`
+            : 'Not available to API keys',
+      });
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,134 @@
+/**
+ * Logout and session revocation
+ *
+ * POST     /logout                - end the current session and go back to the ERP
+ * POST     /api/sessions/revoke   - revoke every current session of a user ({ userId }, admin)
+ * GET      /api/sessions/revoked  - users whose sessions were revoked, newest first (admin)
+ *
+ * Logging out signs the session out at Supabase, so its refresh token stops
+ * working, and clears the session cookies. It only takes POST: the session
+ * cookies are SameSite=Lax, so other sites cannot log users out with a link.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import type { AuditLog } from '../audit/log';
+import type { ServerConfig } from '../config';
+import type { TokenVerifier } from './jwt';
+import type { SessionRevocations } from './revocations';
+import { requireRole, userFromClaims } from './roles';
+import { clearSessionCookies } from './session';
+import type { SessionAuthClient } from './session';
+
+const revokeSessionsSchema = z.object({
+  userId: z.string().trim().min(1),
+});
+
+type LogoutRouterOptions = {
+  config: Pick<ServerConfig, 'erpUrl' | 'roleClaimPath' | 'defaultRole'>;
+  authClient: SessionAuthClient;
+  verifyToken: TokenVerifier;
+  audit?: AuditLog;
+};
+
+type SessionRevocationRouterOptions = {
+  revocations: SessionRevocations;
+  audit?: AuditLog;
+};
+
+/**
+ * Mounted before the session middleware, so sessions that are expired or
+ * can no longer be refreshed can still log out
+ */
+export const createLogoutRouter = ({
+  config,
+  authClient,
+  verifyToken,
+  audit,
+}: LogoutRouterOptions): express.Router => {
+  const router = express.Router();
+
+  /**
+   * Sign the session out at Supabase. Supabase needs an unexpired access
+   * token for that, so an expired one is refreshed first.
+   */
+  const signOut = async (token: string, refreshToken: string, expired: boolean): Promise<void> => {
+    let accessToken = token;
+    if (expired) {
+      const { data, error } = await authClient.setSession({
+        access_token: token,
+        refresh_token: refreshToken,
+      });
+      if (error || !data.session) {
+        // The refresh token no longer works, so there is nothing left to sign out
+        return;
+      }
+      accessToken = data.session.access_token;
+    }
+    const { error } = await authClient.admin.signOut(accessToken, 'local');
+    if (error) {
+      console.error('[Auth] Supabase sign-out failed:', error.message);
+    }
+  };
+
+  const logout: express.RequestHandler = async (req, res) => {
+    const cookies = req.cookies as Record<string, string | undefined>;
+    const token = cookies['studio_token'];
+    const refreshToken = cookies['studio_refresh'];
+
+    // Forged tokens are ignored, so they never reach Supabase or the audit log's user
+    const verification = token ? await verifyToken(token) : null;
+    const user = verification?.valid
+      ? userFromClaims(verification.claims, config.roleClaimPath, config.defaultRole)
+      : null;
+
+    if (token && refreshToken && verification?.valid) {
+      try {
+        await signOut(token, refreshToken, verification.expired);
+      } catch (err) {
+        console.error('[Auth] Supabase sign-out failed:', (err as Error).message);
+      }
+    }
+
+    clearSessionCookies(res);
+    if (user) {
+      console.log('[Auth] Logged out:', user.email ?? user.id);
+      audit?.record('logout', req, user);
+    }
+    res.redirect(config.erpUrl);
+  };
+
+  router.post('/logout', logout);
+
+  return router;
+};
+
+export const createSessionRevocationRouter = ({
+  revocations,
+  audit,
+}: SessionRevocationRouterOptions): express.Router => {
+  const router = express.Router();
+
+  router.post('/api/sessions/revoke', requireRole('admin'), express.json(), (req, res) => {
+    const parsed = revokeSessionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid revocation request',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const revocation = revocations.revoke(parsed.data.userId, res.locals.user?.id ?? 'unknown');
+    console.log('[Auth] Revoked sessions of', revocation.userId, 'by', revocation.revokedBy);
+    audit?.record('revoke-sessions', req, res.locals.user ?? null, {
+      userId: revocation.userId,
+    });
+    return res.status(201).json({ revocation });
+  });
+
+  router.get('/api/sessions/revoked', requireRole('admin'), (_req, res) => {
+    res.json({ revocations: revocations.list() });
+  });
+
+  return router;
+};
@@ -0,0 +1,179 @@
+/**
+ * Session middleware
+ *
+ * The ERP opens the Studio with `?token=...&refresh_token=...`. Those tokens
+ * are verified and moved into httpOnly cookies, then every request is checked
+ * against the cookies. Access tokens close to expiry are refreshed through
+ * Supabase; sessions that cannot be refreshed, and sessions an admin has
+ * revoked, are sent back to the ERP. Logins and refreshes (including failed
+ * ones) go to the audit log.
+ */
+
+import type express from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuditLog } from '../audit/log';
+import type { ServerConfig } from '../config';
+import type { StudioMetrics } from '../monitoring/metrics';
+import type { RateLimiter } from '../rate-limit/limiter';
+import type { TokenVerifier } from './jwt';
+import type { SessionRevocations } from './revocations';
+import { userFromClaims } from './roles';
+
+/** The parts of the Supabase auth client used to refresh sessions and sign out */
+export type SessionAuthClient = Pick<SupabaseClient['auth'], 'setSession'> & {
+  admin: Pick<SupabaseClient['auth']['admin'], 'signOut'>;
+};
+
+type SessionMiddlewareOptions = {
+  config: Pick<
+    ServerConfig,
+    | 'erpUrl'
+    | 'roleClaimPath'
+    | 'defaultRole'
+    | 'secureCookies'
+    | 'sessionMaxAgeMs'
+    | 'refreshBufferMs'
+  >;
+  authClient: SessionAuthClient;
+  verifyToken: TokenVerifier;
+  revocations?: SessionRevocations;
+  /** Budget for refreshes per user, each of which calls Supabase */
+  refreshLimiter?: RateLimiter;
+  audit?: AuditLog;
+  metrics?: StudioMetrics;
+};
+
+export const clearSessionCookies = (res: express.Response): void => {
+  res.clearCookie('studio_token');
+  res.clearCookie('studio_refresh');
+  // Set by older versions of the proxy, no longer trusted
+  res.clearCookie('studio_expires');
+};
+
+export const createSessionMiddleware = ({
+  config,
+  authClient,
+  verifyToken,
+  revocations,
+  refreshLimiter,
+  audit,
+  metrics,
+}: SessionMiddlewareOptions): express.RequestHandler => {
+  const cookieOptions = {
+    httpOnly: true,
+    secure: config.secureCookies,
+    sameSite: 'lax' as const, // 'lax' allows cookies on cross-site top-level navigations (clicking links)
+    // The access token is refreshed (or its session ends) well before the cookies expire
+    maxAge: config.sessionMaxAgeMs,
+  };
+
+  const setSessionCookies = (res: express.Response, token: string, refreshToken: string): void => {
+    res.cookie('studio_token', token, cookieOptions);
+    res.cookie('studio_refresh', refreshToken, cookieOptions);
+  };
+
+  return async (req, res, next) => {
+    // Authenticated with an API key instead (see ../api-keys/middleware)
+    if (res.locals.apiKey) {
+      return next();
+    }
+
+    // === NEW SESSION FROM URL ===
+    // expires_at is still sent by the ERP but ignored: expiry comes from the verified token
+    if (typeof req.query.token === 'string' && typeof req.query.refresh_token === 'string') {
+      const verification = await verifyToken(req.query.token);
+
+      if (!verification.valid || verification.expired) {
+        console.log(
+          '[Auth] Rejected login token:',
+          verification.valid ? 'Expired' : verification.reason
+        );
+        return res.redirect(config.erpUrl);
+      }
+      if (revocations?.isRevoked(verification.claims)) {
+        console.log('[Auth] Rejected login token of a revoked session:', verification.claims.sub);
+        return res.redirect(config.erpUrl);
+      }
+
+      setSessionCookies(res, req.query.token, req.query.refresh_token);
+      res.clearCookie('studio_expires');
+      audit?.record(
+        'login',
+        req,
+        userFromClaims(verification.claims, config.roleClaimPath, config.defaultRole)
+      );
+
+      // Validate path to prevent open redirect
+      const safePath = req.path.startsWith('/') && !req.path.startsWith('//') ? req.path : '/';
+      return res.redirect(safePath);
+    }
+
+    // === EXISTING SESSION ===
+    const cookies = req.cookies as Record<string, string | undefined>;
+    const token = cookies['studio_token'];
+    const refreshToken = cookies['studio_refresh'];
+
+    if (!token || !refreshToken) {
+      return res.redirect(config.erpUrl);
+    }
+
+    const verification = await verifyToken(token);
+    if (!verification.valid) {
+      console.log('[Auth] Rejected session token:', verification.reason);
+      clearSessionCookies(res);
+      return res.redirect(config.erpUrl);
+    }
+    if (revocations?.isRevoked(verification.claims)) {
+      console.log('[Auth] Rejected revoked session:', verification.claims.sub);
+      clearSessionCookies(res);
+      return res.redirect(config.erpUrl);
+    }
+
+    const user = userFromClaims(verification.claims, config.roleClaimPath, config.defaultRole);
+
+    // Token still valid
+    const expiresAt = (verification.claims.exp ?? 0) * 1000;
+    if (!verification.expired && expiresAt > Date.now() + config.refreshBufferMs) {
+      res.locals.user = user;
+      return next();
+    }
+
+    // === REFRESH NEEDED ===
+    // Only reached with a correctly signed token, so forged tokens never trigger a Supabase call
+    const limit = await refreshLimiter?.consume(`user:${user.id}`);
+    if (limit && !limit.allowed) {
+      // The cookies are kept: the session can still be refreshed once the window ends
+      refreshLimiter?.reject(res, `user:${user.id}`, limit.retryAfterSeconds);
+      return;
+    }
+    const { data, error } = await authClient.setSession({
+      access_token: token,
+      refresh_token: refreshToken,
+    });
+
+    if (error || !data.session) {
+      audit?.record('refresh-failed', req, user, {
+        reason: error?.message ?? 'No session returned',
+      });
+      metrics?.refreshed('failure');
+      clearSessionCookies(res);
+      return res.redirect(config.erpUrl);
+    }
+
+    const refreshed = await verifyToken(data.session.access_token);
+    if (!refreshed.valid) {
+      console.error('[Auth] Refreshed token failed verification:', refreshed.reason);
+      audit?.record('refresh-failed', req, user, { reason: refreshed.reason });
+      metrics?.refreshed('failure');
+      clearSessionCookies(res);
+      return res.redirect(config.erpUrl);
+    }
+
+    setSessionCookies(res, data.session.access_token, data.session.refresh_token);
+
+    res.locals.user = userFromClaims(refreshed.claims, config.roleClaimPath, config.defaultRole);
+    audit?.record('refresh', req, res.locals.user);
+    metrics?.refreshed('success');
+    return next();
+  };
+};
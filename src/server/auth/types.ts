@@ -0,0 +1,69 @@
+/**
+ * Types for authentication and authorization in the auth proxy
+ */
+
+/**
+ * Studio roles, from least to most privileged:
+ * - viewer: downloads page and rendered files only
+ * - editor: Studio access and starting renders
+ * - admin: deleting renders (including ?cleanup=true downloads)
+ */
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * The signed-in user, derived from the Supabase access token claims
+ */
+export type AuthUser = {
+  /** Supabase user id (the `sub` claim) */
+  id: string;
+  email: string | null;
+  role: Role;
+};
+
+/**
+ * What an API key may do. Keys are not tied to a role: a route is only open
+ * to API keys when it names the scope they need.
+ * - renders:read: list, download and follow renders and render jobs
+ * - renders:start: start and cancel render jobs
+ * - renders:delete: delete renders
+ */
+export const API_KEY_SCOPES = ['renders:read', 'renders:start', 'renders:delete'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * The API key a request was authenticated with
+ */
+export type ApiKeyIdentity = {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+};
+
+/**
+ * Decoded JWT payload. Only the claims the proxy reads are typed.
+ */
+export type JwtClaims = {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  iat?: number;
+  aud?: string | string[];
+  iss?: string;
+  app_metadata?: Record<string, unknown>;
+  [claim: string]: unknown;
+};
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Locals {
+      /** Set by the session middleware for authenticated requests */
+      user?: AuthUser;
+      /** Set instead of a session for requests with an API key */
+      apiKey?: ApiKeyIdentity;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Tests for startup configuration
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConfigError, describeConfig, loadConfigFromEnv } from './config';
+
+const baseEnv = {
+  SUPABASE_URL: 'https://xxx.supabase.co',
+  SUPABASE_PUBLISHABLE_KEY: 'sb_publishable_abc',
+};
+
+const problemsFor = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfigFromEnv(env, '/srv/studio');
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      return err.problems;
+    }
+    throw err;
+  }
+  return [];
+};
+
+describe('Server configuration', () => {
+  it('should apply defaults for unset and empty variables', () => {
+    const config = loadConfigFromEnv({ ...baseEnv, PORT: '', NODE_ENV: '' }, '/srv/studio');
+
+    expect(config).toMatchObject({
+      port: 3000,
+      remotionTarget: 'http://localhost:3001',
+      erpUrl: 'https://axio.junr.studio',
+      bypassAuth: false,
+      defaultRole: 'viewer',
+      secureCookies: false,
+      sessionMaxAgeMs: 24 * 60 * 60 * 1000,
+      refreshBufferMs: 5 * 60 * 1000,
+      stateDir: '/srv/studio/.studio-data',
+      renderConcurrency: 1,
+    });
+  });
+
+  it('should parse numbers, booleans and the inline JWKS', () => {
+    const config = loadConfigFromEnv(
+      {
+        ...baseEnv,
+        PORT: '8080',
+        REMOTION_PORT: '4000',
+        NODE_ENV: 'production',
+        SESSION_MAX_AGE_SECONDS: '3600',
+        REFRESH_BUFFER_SECONDS: '60',
+        TRUST_PROXY_HOPS: '1',
+        RATE_LIMIT_DOWNLOADS_MAX: '100',
+        RATE_LIMIT_RENDERS_MAX: '0',
+        SUPABASE_JWKS: '{"keys":[{"kty":"EC","kid":"local-dev"}]}',
+      },
+      '/srv/studio'
+    );
+
+    expect(config.port).toBe(8080);
+    expect(config.remotionTarget).toBe('http://localhost:4000');
+    expect(config.secureCookies).toBe(true);
+    expect(config.sessionMaxAgeMs).toBe(3_600_000);
+    expect(config.refreshBufferMs).toBe(60_000);
+    expect(config.trustProxyHops).toBe(1);
+    expect(config.rateLimits).toEqual({
+      auth: { max: 20, windowMs: 300_000 },
+      downloads: { max: 100, windowMs: 60_000 },
+      renders: null,
+    });
+    expect(config.jwks?.keys[0]?.kid).toBe('local-dev');
+  });
+
+  it('should only require Supabase credentials when auth is not bypassed', () => {
+    expect(problemsFor({})).toEqual([
+      'SUPABASE_URL: Required when BYPASS_AUTH is not true',
+      'SUPABASE_PUBLISHABLE_KEY: Required when BYPASS_AUTH is not true',
+    ]);
+    expect(problemsFor({ BYPASS_AUTH: 'true' })).toEqual([]);
+  });
+
+  it('should report every problem at once', () => {
+    const problems = problemsFor({
+      ...baseEnv,
+      ERP_URL: 'javascript:alert(1)',
+      PORT: 'eighty',
+      BYPASS_AUTH: 'yes',
+      DEFAULT_ROLE: 'owner',
+      SUPABASE_JWKS: '{not json',
+      REFRESH_BUFFER_SECONDS: '90000',
+    });
+
+    expect(problems.map((problem) => problem.split(':')[0])).toEqual([
+      'SUPABASE_JWKS',
+      'ERP_URL',
+      'BYPASS_AUTH',
+      'DEFAULT_ROLE',
+      'PORT',
+    ]);
+    expect(problems).toContain('PORT: Must be a number');
+    expect(problemsFor({ BYPASS_AUTH: 'yes' })).toContain(
+      'SUPABASE_URL: Required when BYPASS_AUTH is not true'
+    );
+  });
+
+  it('should reject a refresh buffer longer than the session and clashing ports', () => {
+    expect(problemsFor({ ...baseEnv, REFRESH_BUFFER_SECONDS: '90000' })).toEqual([
+      'REFRESH_BUFFER_SECONDS: Must be shorter than SESSION_MAX_AGE_SECONDS',
+    ]);
+    expect(problemsFor({ ...baseEnv, PORT: '3001' })).toEqual([
+      'PORT: Must differ from REMOTION_PORT',
+    ]);
+  });
+
+  it('should configure S3 storage and require a bucket and complete credentials', () => {
+    const config = loadConfigFromEnv(
+      {
+        ...baseEnv,
+        STORAGE_BACKEND: 's3',
+        S3_BUCKET: 'renders',
+        S3_PREFIX: 'studio',
+        S3_ENDPOINT: 'http://localhost:9000',
+        S3_ACCESS_KEY_ID: 'minioadmin',
+        S3_SECRET_ACCESS_KEY: 'minio-secret',
+      },
+      '/srv/studio'
+    );
+
+    expect(config.storage).toEqual({
+      backend: 's3',
+      bucket: 'renders',
+      prefix: 'studio/',
+      region: 'us-east-1',
+      endpoint: 'http://localhost:9000',
+      credentials: { accessKeyId: 'minioadmin', secretAccessKey: 'minio-secret' },
+      presignedDownloads: false,
+    });
+    expect(describeConfig(config)).not.toContain('minio-secret');
+    expect(loadConfigFromEnv(baseEnv, '/srv/studio').storage).toEqual({ backend: 'local' });
+    expect(problemsFor({ ...baseEnv, STORAGE_BACKEND: 's3', S3_ACCESS_KEY_ID: 'key' })).toEqual([
+      'S3_BUCKET: Required when STORAGE_BACKEND is s3',
+      'S3_SECRET_ACCESS_KEY: S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set together',
+    ]);
+  });
+
+  it('should redact secrets in the summary', () => {
+    const summary = describeConfig(
+      loadConfigFromEnv({ ...baseEnv, SUPABASE_JWT_SECRET: 'super-secret' }, '/srv/studio')
+    );
+
+    expect(summary).toContain('supabaseUrl: https://xxx.supabase.co');
+    expect(summary).toContain('jwtSecret: (set)');
+    expect(summary).not.toContain('super-secret');
+    expect(summary).not.toContain('sb_publishable_abc');
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Server configuration
+ *
+ * Everything the proxy needs from the environment, validated once at startup
+ * with a single zod schema. `createApp` only ever sees the typed config, so
+ * tests can build one directly instead of setting process.env.
+ *
+ * Misconfiguration fails fast with a list of every problem found, rather
+ * than surfacing later as a redirect loop or a crash on first request.
+ */
+
+import path from 'path';
+import { z } from 'zod';
+import type { JsonWebKeySet } from './auth/jwt';
+import { ROLES } from './auth/types';
+import type { Role } from './auth/types';
+import type { RateLimitBudget } from './rate-limit/types';
+import type { RetentionPolicy } from './renders/retention';
+import type { S3StorageOptions } from './storage/s3';
+
+export type StorageConfig =
+  | { backend: 'local' }
+  | ({
+      backend: 's3';
+      /** Redirect downloads to presigned URLs instead of streaming them */
+      presignedDownloads: boolean;
+    } & S3StorageOptions);
+
+export type ServerConfig = {
+  /** Port the proxy listens on */
+  port: number;
+  /** Remotion Studio behind the proxy, e.g. http://localhost:3001 */
+  remotionTarget: string;
+  /** Where users without a session are sent to log in */
+  erpUrl: string;
+  /** Skip authentication entirely (development only) */
+  bypassAuth: boolean;
+  supabaseUrl: string | null;
+  supabasePublishableKey: string | null;
+  /** Secret for legacy HS256 tokens */
+  jwtSecret: string | null;
+  /** Static JWKS replacing the project's JWKS (offline testing) */
+  jwks: JsonWebKeySet | null;
+  /** Dot path of the role claim in the access token */
+  roleClaimPath: string;
+  /** Role for users without a valid role claim */
+  defaultRole: Role;
+  /** Mark session cookies as Secure (production) */
+  secureCookies: boolean;
+  /** Lifetime of the session cookies */
+  sessionMaxAgeMs: number;
+  /** Access tokens are refreshed this long before they expire */
+  refreshBufferMs: number;
+  /** Rendered videos (and, with S3 storage, renders waiting to be uploaded) */
+  outDir: string;
+  /** Server state files (render queue etc.) */
+  stateDir: string;
+  /** Remotion entry point used for server-side renders */
+  entryPoint: string;
+  /** Static assets (logos) */
+  publicDir: string;
+  /** Base URL for links handed out by the server; taken from the request when null */
+  publicUrl: string | null;
+  /** Reverse proxies in front of the server whose X-Forwarded-For is trusted (0 for none) */
+  trustProxyHops: number;
+  /** HMAC secret for share links; generated and kept in stateDir when null */
+  shareLinkSecret: string | null;
+  /** Bearer token Prometheus sends to /metrics; the endpoint is open when null */
+  metricsToken: string | null;
+  renderConcurrency: number;
+  renderMaxAttempts: number;
+  /** Limits enforced on out/ by the retention sweeper */
+  retention: RetentionPolicy;
+  retentionSweepIntervalMs: number;
+  /** Render a poster and preview clip after each render */
+  renderPreviews: boolean;
+  /** Commit recorded in render metadata; read from git when null */
+  gitCommit: string | null;
+  /** Where finished renders are kept */
+  storage: StorageConfig;
+  /** Requests per window for each group of routes; null turns a limit off */
+  rateLimits: {
+    /** Logins per IP and session refreshes per user */
+    auth: RateLimitBudget | null;
+    /** Downloads per user (per IP for share links) */
+    downloads: RateLimitBudget | null;
+    /** Render submissions per user */
+    renders: RateLimitBudget | null;
+  };
+  /** Delivery of webhook subscriptions (the subscriptions themselves live in stateDir) */
+  webhooks: {
+    /** Attempts per delivery before it is marked failed */
+    maxAttempts: number;
+    /** Wait before the first retry, doubled for every further retry */
+    retryBaseMs: number;
+    /** How long a receiver gets to answer */
+    timeoutMs: number;
+  };
+};
+
+/**
+ * Thrown when the environment does not describe a usable configuration
+ */
+export class ConfigError extends Error {
+  /** One readable line per problem, e.g. "PORT: Too big: expected number to be <=65535" */
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+const DEFAULT_SESSION_MAX_AGE_SECONDS = 24 * 60 * 60;
+const DEFAULT_REFRESH_BUFFER_SECONDS = 5 * 60;
+
+/** Unset and empty variables both mean "use the default" */
+const optional = <T extends z.ZodType>(schema: T): z.ZodPipe<z.ZodTransform, z.ZodOptional<T>> =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema.optional());
+
+const httpUrl = z.url({ protocol: /^https?$/, error: 'Must be an http(s) URL' });
+
+const port = z.coerce.number({ error: 'Must be a number' }).int().min(1).max(65535);
+
+const positiveInt = z.coerce.number({ error: 'Must be a number' }).int().min(1);
+
+const positiveNumber = z.coerce.number({ error: 'Must be a number' }).positive();
+
+const nonNegativeInt = z.coerce.number({ error: 'Must be a number' }).int().min(0);
+
+const jwksJson = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'Must be a JSON Web Key Set (invalid JSON)' });
+      return z.NEVER;
+    }
+  })
+  .pipe(
+    z.object({
+      keys: z.array(z.looseObject({ kty: z.string(), kid: z.string().optional() })).min(1),
+    })
+  );
+
+const envSchema = z
+  .object({
+    SUPABASE_URL: optional(httpUrl),
+    SUPABASE_PUBLISHABLE_KEY: optional(z.string()),
+    SUPABASE_JWT_SECRET: optional(z.string()),
+    SUPABASE_JWKS: optional(jwksJson),
+    ERP_URL: optional(httpUrl),
+    BYPASS_AUTH: optional(z.enum(['true', 'false'])),
+    NODE_ENV: optional(z.enum(['development', 'production', 'test'])),
+    ROLE_CLAIM_PATH: optional(
+      z.string().regex(/^[\w-]+(\.[\w-]+)*$/, 'Must be a dot-separated claim path')
+    ),
+    DEFAULT_ROLE: optional(z.enum(ROLES)),
+    PORT: optional(port),
+    REMOTION_PORT: optional(port),
+    SESSION_MAX_AGE_SECONDS: optional(positiveInt),
+    REFRESH_BUFFER_SECONDS: optional(nonNegativeInt),
+    STATE_DIR: optional(z.string()),
+    RENDER_CONCURRENCY: optional(positiveInt),
+    RENDER_MAX_ATTEMPTS: optional(positiveInt),
+    PUBLIC_URL: optional(httpUrl),
+    TRUST_PROXY_HOPS: optional(nonNegativeInt),
+    SHARE_LINK_SECRET: optional(z.string().min(32, 'Must be at least 32 characters')),
+    METRICS_TOKEN: optional(z.string().min(16, 'Must be at least 16 characters')),
+    RETENTION_MAX_AGE_HOURS: optional(positiveNumber),
+    RETENTION_MAX_TOTAL_MB: optional(positiveNumber),
+    RETENTION_KEEP_PER_COMPOSITION: optional(positiveInt),
+    RETENTION_SWEEP_MINUTES: optional(positiveNumber),
+    RENDER_PREVIEWS: optional(z.enum(['true', 'false'])),
+    GIT_COMMIT: optional(z.string()),
+    RAILWAY_GIT_COMMIT_SHA: optional(z.string()),
+    STORAGE_BACKEND: optional(z.enum(['local', 's3'])),
+    S3_BUCKET: optional(z.string()),
+    S3_PREFIX: optional(z.string()),
+    S3_REGION: optional(z.string()),
+    S3_ENDPOINT: optional(httpUrl),
+    S3_ACCESS_KEY_ID: optional(z.string()),
+    S3_SECRET_ACCESS_KEY: optional(z.string()),
+    S3_PRESIGNED_DOWNLOADS: optional(z.enum(['true', 'false'])),
+    RATE_LIMIT_AUTH_MAX: optional(nonNegativeInt),
+    RATE_LIMIT_AUTH_WINDOW_SECONDS: optional(positiveInt),
+    RATE_LIMIT_DOWNLOADS_MAX: optional(nonNegativeInt),
+    RATE_LIMIT_DOWNLOADS_WINDOW_SECONDS: optional(positiveInt),
+    RATE_LIMIT_RENDERS_MAX: optional(nonNegativeInt),
+    RATE_LIMIT_RENDERS_WINDOW_SECONDS: optional(positiveInt),
+    WEBHOOK_MAX_ATTEMPTS: optional(positiveInt),
+    WEBHOOK_RETRY_BASE_SECONDS: optional(positiveNumber),
+    WEBHOOK_TIMEOUT_SECONDS: optional(positiveNumber),
+  })
+  // Checked even when other variables are invalid, so every problem is listed at once
+  .refine((env) => env.BYPASS_AUTH === 'true' || env.SUPABASE_URL !== undefined, {
+    path: ['SUPABASE_URL'],
+    message: 'Required when BYPASS_AUTH is not true',
+    when: () => true,
+  })
+  .refine((env) => env.BYPASS_AUTH === 'true' || env.SUPABASE_PUBLISHABLE_KEY !== undefined, {
+    path: ['SUPABASE_PUBLISHABLE_KEY'],
+    message: 'Required when BYPASS_AUTH is not true',
+    when: () => true,
+  })
+  .refine((env) => env.STORAGE_BACKEND !== 's3' || env.S3_BUCKET !== undefined, {
+    path: ['S3_BUCKET'],
+    message: 'Required when STORAGE_BACKEND is s3',
+    when: () => true,
+  })
+  .refine(
+    (env) => (env.S3_ACCESS_KEY_ID === undefined) === (env.S3_SECRET_ACCESS_KEY === undefined),
+    {
+      path: ['S3_SECRET_ACCESS_KEY'],
+      message: 'S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set together',
+      when: () => true,
+    }
+  )
+  .superRefine((env, ctx) => {
+    if ((env.PORT ?? 3000) === (env.REMOTION_PORT ?? 3001)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['PORT'],
+        message: 'Must differ from REMOTION_PORT',
+      });
+    }
+    const sessionMaxAge = env.SESSION_MAX_AGE_SECONDS ?? DEFAULT_SESSION_MAX_AGE_SECONDS;
+    const refreshBuffer = env.REFRESH_BUFFER_SECONDS ?? DEFAULT_REFRESH_BUFFER_SECONDS;
+    if (refreshBuffer >= sessionMaxAge) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['REFRESH_BUFFER_SECONDS'],
+        message: 'Must be shorter than SESSION_MAX_AGE_SECONDS',
+      });
+    }
+  });
+
+/** A max of 0 turns the limit off */
+const rateLimitBudget = (max: number, windowSeconds: number): RateLimitBudget | null =>
+  max === 0 ? null : { max, windowMs: windowSeconds * 1000 };
+
+/**
+ * Build the config from environment variables.
+ * Throws a ConfigError listing every invalid or missing variable.
+ */
+export const loadConfigFromEnv = (env: NodeJS.ProcessEnv, cwd = process.cwd()): ServerConfig => {
+  const parsed = envSchema.safeParse(env);
+  if (!parsed.success) {
+    throw new ConfigError(
+      parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+  const vars = parsed.data;
+
+  return {
+    port: vars.PORT ?? 3000,
+    remotionTarget: `http://localhost:${vars.REMOTION_PORT ?? 3001}`,
+    erpUrl: vars.ERP_URL ?? 'https://axio.junr.studio',
+    bypassAuth: vars.BYPASS_AUTH === 'true',
+    supabaseUrl: vars.SUPABASE_URL ?? null,
+    supabasePublishableKey: vars.SUPABASE_PUBLISHABLE_KEY ?? null,
+    jwtSecret: vars.SUPABASE_JWT_SECRET ?? null,
+    jwks: (vars.SUPABASE_JWKS as JsonWebKeySet | undefined) ?? null,
+    roleClaimPath: vars.ROLE_CLAIM_PATH ?? 'app_metadata.role',
+    defaultRole: vars.DEFAULT_ROLE ?? 'viewer',
+    secureCookies: vars.NODE_ENV === 'production',
+    sessionMaxAgeMs: (vars.SESSION_MAX_AGE_SECONDS ?? DEFAULT_SESSION_MAX_AGE_SECONDS) * 1000,
+    refreshBufferMs: (vars.REFRESH_BUFFER_SECONDS ?? DEFAULT_REFRESH_BUFFER_SECONDS) * 1000,
+    outDir: path.join(cwd, 'out'),
+    stateDir: path.resolve(cwd, vars.STATE_DIR ?? '.studio-data'),
+    entryPoint: path.join(cwd, 'src', 'index.ts'),
+    publicDir: path.join(cwd, 'public'),
+    publicUrl: vars.PUBLIC_URL ?? null,
+    trustProxyHops: vars.TRUST_PROXY_HOPS ?? 0,
+    shareLinkSecret: vars.SHARE_LINK_SECRET ?? null,
+    metricsToken: vars.METRICS_TOKEN ?? null,
+    renderConcurrency: vars.RENDER_CONCURRENCY ?? 1,
+    renderMaxAttempts: vars.RENDER_MAX_ATTEMPTS ?? 2,
+    retention: {
+      maxAgeMs: vars.RETENTION_MAX_AGE_HOURS ? vars.RETENTION_MAX_AGE_HOURS * 60 * 60 * 1000 : null,
+      maxTotalBytes: vars.RETENTION_MAX_TOTAL_MB
+        ? Math.floor(vars.RETENTION_MAX_TOTAL_MB * 1024 * 1024)
+        : null,
+      keepLastPerComposition: vars.RETENTION_KEEP_PER_COMPOSITION ?? null,
+    },
+    retentionSweepIntervalMs: (vars.RETENTION_SWEEP_MINUTES ?? 15) * 60 * 1000,
+    renderPreviews: vars.RENDER_PREVIEWS !== 'false',
+    gitCommit: vars.GIT_COMMIT ?? vars.RAILWAY_GIT_COMMIT_SHA ?? null,
+    storage:
+      vars.STORAGE_BACKEND === 's3' && vars.S3_BUCKET
+        ? {
+            backend: 's3',
+            bucket: vars.S3_BUCKET,
+            // Keys are joined to the prefix as-is, so it must end with a slash
+            prefix: vars.S3_PREFIX ? `${vars.S3_PREFIX.replace(/\/+$/, '')}/` : '',
+            region: vars.S3_REGION ?? 'us-east-1',
+            endpoint: vars.S3_ENDPOINT ?? null,
+            credentials:
+              vars.S3_ACCESS_KEY_ID && vars.S3_SECRET_ACCESS_KEY
+                ? {
+                    accessKeyId: vars.S3_ACCESS_KEY_ID,
+                    secretAccessKey: vars.S3_SECRET_ACCESS_KEY,
+                  }
+                : null,
+            presignedDownloads: vars.S3_PRESIGNED_DOWNLOADS === 'true',
+          }
+        : { backend: 'local' },
+    rateLimits: {
+      auth: rateLimitBudget(
+        vars.RATE_LIMIT_AUTH_MAX ?? 20,
+        vars.RATE_LIMIT_AUTH_WINDOW_SECONDS ?? 300
+      ),
+      downloads: rateLimitBudget(
+        vars.RATE_LIMIT_DOWNLOADS_MAX ?? 300,
+        vars.RATE_LIMIT_DOWNLOADS_WINDOW_SECONDS ?? 60
+      ),
+      renders: rateLimitBudget(
+        vars.RATE_LIMIT_RENDERS_MAX ?? 60,
+        vars.RATE_LIMIT_RENDERS_WINDOW_SECONDS ?? 3600
+      ),
+    },
+    webhooks: {
+      maxAttempts: vars.WEBHOOK_MAX_ATTEMPTS ?? 6,
+      retryBaseMs: (vars.WEBHOOK_RETRY_BASE_SECONDS ?? 30) * 1000,
+      timeoutMs: (vars.WEBHOOK_TIMEOUT_SECONDS ?? 10) * 1000,
+    },
+  };
+};
+
+const secret = (value: string | null): string => (value ? '(set)' : '(not set)');
+
+const limit = (value: number | null, format: (value: number) => string): string =>
+  value === null ? '(no limit)' : format(value);
+
+const storageEntries = (storage: StorageConfig): [string, string | boolean][] =>
+  storage.backend === 'local'
+    ? [['storage', 'local (outDir)']]
+    : [
+        ['storage', 's3'],
+        ['storage.bucket', storage.bucket],
+        ['storage.prefix', storage.prefix || '(none)'],
+        ['storage.region', storage.region],
+        ['storage.endpoint', storage.endpoint ?? '(AWS)'],
+        ['storage.credentials', storage.credentials ? '(set)' : '(default AWS credential chain)'],
+        ['storage.presignedDownloads', storage.presignedDownloads],
+      ];
+
+/**
+ * Effective configuration for the startup log, with secrets redacted
+ */
+export const describeConfig = (config: ServerConfig): string => {
+  const entries: [string, string | number | boolean][] = [
+    ['port', config.port],
+    ['remotionTarget', config.remotionTarget],
+    ['erpUrl', config.erpUrl],
+    ['bypassAuth', config.bypassAuth],
+    ['supabaseUrl', config.supabaseUrl ?? '(not set)'],
+    ['supabasePublishableKey', secret(config.supabasePublishableKey)],
+    ['jwtSecret', secret(config.jwtSecret)],
+    ['jwks', config.jwks ? `inline (${config.jwks.keys.length} keys)` : 'fetched from Supabase'],
+    ['roleClaimPath', config.roleClaimPath],
+    ['defaultRole', config.defaultRole],
+    ['secureCookies', config.secureCookies],
+    ['sessionMaxAge', `${config.sessionMaxAgeMs / 1000}s`],
+    ['refreshBuffer', `${config.refreshBufferMs / 1000}s`],
+    ['outDir', config.outDir],
+    ['stateDir', config.stateDir],
+    ['publicUrl', config.publicUrl ?? '(from request)'],
+    ['trustProxyHops', config.trustProxyHops],
+    ['shareLinkSecret', config.shareLinkSecret ? '(set)' : '(generated in stateDir)'],
+    ['metricsToken', config.metricsToken ? '(set)' : '(not set, /metrics is open)'],
+    ['renderConcurrency', config.renderConcurrency],
+    ['renderMaxAttempts', config.renderMaxAttempts],
+    ['retention.maxAge', limit(config.retention.maxAgeMs, (ms) => `${ms / 3_600_000}h`)],
+    [
+      'retention.maxTotal',
+      limit(config.retention.maxTotalBytes, (bytes) => `${Math.round(bytes / 1024 / 1024)}MB`),
+    ],
+    ['retention.keepPerComposition', limit(config.retention.keepLastPerComposition, String)],
+    ['retentionSweepInterval', `${config.retentionSweepIntervalMs / 60_000}min`],
+    ['renderPreviews', config.renderPreviews],
+    ['gitCommit', config.gitCommit ?? '(from git)'],
+    ...storageEntries(config.storage),
+    ...Object.entries(config.rateLimits).map(([name, budget]): [string, string] => [
+      `rateLimits.${name}`,
+      budget ? `${budget.max} per ${budget.windowMs / 1000}s` : '(off)',
+    ]),
+    ['webhooks.maxAttempts', config.webhooks.maxAttempts],
+    ['webhooks.retryBase', `${config.webhooks.retryBaseMs / 1000}s`],
+    ['webhooks.timeout', `${config.webhooks.timeoutMs / 1000}s`],
+  ];
+  return entries.map(([key, value]) => `  ${key}: ${String(value)}`).join('\n');
+};
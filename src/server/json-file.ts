@@ -0,0 +1,34 @@
+/**
+ * Small helpers for JSON state files kept by the server
+ *
+ * Writes go to a temporary file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated state file behind.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Read and parse a JSON file, returning the fallback when it does not exist
+ */
+export const readJsonFile = <T>(filePath: string, fallback: T): T => {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (err) {
+    console.error('[State] Ignoring unreadable state file:', filePath, (err as Error).message);
+    return fallback;
+  }
+};
+
+/**
+ * Atomically write a value as JSON
+ */
+export const writeJsonFile = (filePath: string, value: unknown): void => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2));
+  fs.renameSync(tmpPath, filePath);
+};
@@ -0,0 +1,175 @@
+/**
+ * Prometheus metrics
+ *
+ * - studio_http_requests_total         - requests by method, route and status
+ * - studio_auth_refreshes_total        - session refreshes by outcome
+ * - studio_proxy_errors_total          - requests the Studio could not answer
+ * - studio_rate_limited_total          - requests turned away by a rate limiter
+ * - studio_renders_total               - renders by source (api, studio) and outcome
+ * - studio_render_duration_seconds     - wall-clock render time of completed renders
+ * - studio_out_dir_bytes               - size of the files in out/
+ * - studio_out_dir_free_bytes          - free space on the file system holding out/
+ *
+ * plus the default Node.js process metrics. Each app gets its own registry.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type express from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import type { RenderEvents } from '../renders/events';
+import type { RenderMetadata } from '../renders/metadata';
+
+type StudioMetricsOptions = {
+  events: RenderEvents;
+  outDir: string;
+};
+
+export type StudioMetrics = {
+  registry: Registry;
+  /** Middleware counting every request once its response is done */
+  countRequests: express.RequestHandler;
+  /** Count a session refresh */
+  refreshed: (outcome: 'success' | 'failure') => void;
+  /** Count a request the Studio could not answer */
+  proxyError: () => void;
+  /** Count a request turned away by a rate limiter */
+  limited: (limiter: string) => void;
+  /** Count a completed render */
+  rendered: (metadata: RenderMetadata) => void;
+  close: () => void;
+};
+
+/**
+ * Route pattern of a request (e.g. /out/:filename), so file names and ids
+ * don't each get their own series. Requests no route handled (the Studio
+ * proxy, redirects to the ERP) share one label.
+ */
+const routeLabel = (req: express.Request): string => {
+  const route = req.route as { path?: unknown } | undefined;
+  return typeof route?.path === 'string' ? `${req.baseUrl}${route.path}` : '(other)';
+};
+
+/** Total size of the files below a directory, in bytes */
+const directorySize = async (dir: string): Promise<number> => {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else if (entry.isFile()) {
+      total += await fs.promises.stat(entryPath).then(
+        (stats) => stats.size,
+        () => 0
+      );
+    }
+  }
+  return total;
+};
+
+export const createStudioMetrics = ({ events, outDir }: StudioMetricsOptions): StudioMetrics => {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry });
+
+  const requests = new Counter({
+    name: 'studio_http_requests_total',
+    help: 'HTTP requests by method, route and status',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [registry],
+  });
+  const refreshes = new Counter({
+    name: 'studio_auth_refreshes_total',
+    help: 'Session refreshes through Supabase by outcome',
+    labelNames: ['outcome'] as const,
+    registers: [registry],
+  });
+  const proxyErrors = new Counter({
+    name: 'studio_proxy_errors_total',
+    help: 'Requests Remotion Studio could not answer',
+    registers: [registry],
+  });
+  const rateLimited = new Counter({
+    name: 'studio_rate_limited_total',
+    help: 'Requests turned away by a rate limiter',
+    labelNames: ['limiter'] as const,
+    registers: [registry],
+  });
+  const renders = new Counter({
+    name: 'studio_renders_total',
+    help: 'Finished renders by source and outcome',
+    labelNames: ['source', 'outcome'] as const,
+    registers: [registry],
+  });
+  const renderDuration = new Histogram({
+    name: 'studio_render_duration_seconds',
+    help: 'Wall-clock time of completed renders',
+    labelNames: ['source'] as const,
+    buckets: [5, 15, 30, 60, 120, 300, 600, 1200, 1800],
+    registers: [registry],
+  });
+  new Gauge({
+    name: 'studio_out_dir_bytes',
+    help: 'Size of the files in out/',
+    registers: [registry],
+    async collect(): Promise<void> {
+      this.set(await directorySize(outDir));
+    },
+  });
+  new Gauge({
+    name: 'studio_out_dir_free_bytes',
+    help: 'Free space on the file system holding out/',
+    registers: [registry],
+    async collect(): Promise<void> {
+      const stats = await fs.promises.statfs(outDir).catch(() => null);
+      if (stats) {
+        this.set(stats.bavail * stats.bsize);
+      }
+    },
+  });
+
+  // Completed renders come from `rendered`, which has their render time
+  const unsubscribe = events.subscribe(({ event }) => {
+    if (event.type === 'failed') {
+      renders.inc({ source: event.jobId ? 'api' : 'studio', outcome: 'failed' });
+    }
+  });
+
+  return {
+    registry,
+
+    countRequests: (req, res, next): void => {
+      // 'close' also fires for responses the client cut short, unlike 'finish'
+      res.on('close', () => {
+        requests.inc({ method: req.method, route: routeLabel(req), status: res.statusCode });
+      });
+      next();
+    },
+
+    refreshed: (outcome): void => {
+      refreshes.inc({ outcome });
+    },
+
+    proxyError: (): void => {
+      proxyErrors.inc();
+    },
+
+    limited: (limiter): void => {
+      rateLimited.inc({ limiter });
+    },
+
+    rendered: ({ source, renderTimeMs }): void => {
+      renders.inc({ source, outcome: 'completed' });
+      if (renderTimeMs !== null) {
+        renderDuration.observe({ source }, renderTimeMs / 1000);
+      }
+    },
+
+    close: unsubscribe,
+  };
+};
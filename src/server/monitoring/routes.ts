@@ -0,0 +1,90 @@
+/**
+ * Health checks and metrics, mounted before authentication
+ *
+ * GET /healthz  - the proxy is up
+ * GET /readyz   - Remotion Studio answers and out/ is writable (503 otherwise)
+ * GET /metrics  - Prometheus text format; needs `Authorization: Bearer <METRICS_TOKEN>` when set
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import express from 'express';
+import type { StudioMetrics } from './metrics';
+
+/** How long the Studio gets to answer a readiness check */
+const STUDIO_CHECK_TIMEOUT_MS = 2000;
+
+type MonitoringRouterOptions = {
+  metrics: StudioMetrics;
+  /** Remotion Studio URL, e.g. http://localhost:3001 */
+  remotionTarget: string;
+  outDir: string;
+  /** Bearer token for /metrics, or null to leave it open */
+  metricsToken: string | null;
+};
+
+type ReadinessCheck = { ok: true } | { ok: false; error: string };
+
+const safeEqual = (a: string, b: string): boolean => {
+  const expected = Buffer.from(a);
+  const actual = Buffer.from(b);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+export const createMonitoringRouter = ({
+  metrics,
+  remotionTarget,
+  outDir,
+  metricsToken,
+}: MonitoringRouterOptions): express.Router => {
+  const router = express.Router();
+
+  /** Any HTTP answer counts: the Studio only needs to be up */
+  const checkStudio = async (): Promise<ReadinessCheck> => {
+    try {
+      const res = await fetch(remotionTarget, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(STUDIO_CHECK_TIMEOUT_MS),
+      });
+      await res.body?.cancel();
+      return { ok: true };
+    } catch (err) {
+      return { ok: false, error: `Remotion Studio is not reachable: ${(err as Error).message}` };
+    }
+  };
+
+  const checkOutDir = async (): Promise<ReadinessCheck> => {
+    try {
+      await fs.promises.access(outDir, fs.constants.W_OK);
+      return { ok: true };
+    } catch (err) {
+      return { ok: false, error: `out/ is not writable: ${(err as Error).message}` };
+    }
+  };
+
+  router.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  router.get('/readyz', async (_req, res) => {
+    const [studio, outDirCheck] = await Promise.all([checkStudio(), checkOutDir()]);
+    const ready = studio.ok && outDirCheck.ok;
+    res
+      .status(ready ? 200 : 503)
+      .json({ status: ready ? 'ready' : 'not ready', checks: { studio, outDir: outDirCheck } });
+  });
+
+  router.get('/metrics', async (req, res) => {
+    if (
+      metricsToken !== null &&
+      !safeEqual(`Bearer ${metricsToken}`, req.get('Authorization') ?? '')
+    ) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).send('Invalid metrics token');
+    }
+    res.setHeader('Content-Type', metrics.registry.contentType);
+    return res.send(await metrics.registry.metrics());
+  });
+
+  return router;
+};
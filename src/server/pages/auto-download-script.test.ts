@@ -0,0 +1,72 @@
+/**
+ * Tests for the auto-download script injected into the Studio
+ * Runs the script against a stub event stream and DOM
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { autoDownloadScript } from './auto-download-script';
+
+type Listener = (e: { data: string }) => void;
+
+/**
+ * Run the script and return a way to send it events and the links it clicked
+ */
+const runScript = (
+  cleanupAfterDownload: boolean
+): { send: (type: string, data: unknown) => void; clicked: string[] } => {
+  const listeners = new Map<string, Listener>();
+  const clicked: string[] = [];
+
+  class FakeEventSource {
+    static CLOSED = 2;
+    readyState = 1;
+    addEventListener(type: string, listener: Listener): void {
+      listeners.set(type, listener);
+    }
+    close(): void {}
+  }
+  const document = {
+    createElement: (): { href: string; click: () => void; style: object } => {
+      const link = {
+        href: '',
+        style: {},
+        click: (): void => {
+          clicked.push(link.href);
+        },
+      };
+      return link;
+    },
+    body: { appendChild: (): void => {}, removeChild: (): void => {} },
+  };
+  const silentConsole = { log: (): void => {} };
+
+  const source = autoDownloadScript(cleanupAfterDownload).replace(/<\/?script>/g, '');
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval -- runs the browser script under test
+  const run = new Function('window', 'document', 'EventSource', 'console', source) as (
+    ...globals: unknown[]
+  ) => void;
+  run({ EventSource: FakeEventSource }, document, FakeEventSource, silentConsole);
+
+  return {
+    send: (type, data): void => listeners.get(type)?.({ data: JSON.stringify(data) }),
+    clicked,
+  };
+};
+
+describe('Auto-download script', () => {
+  it('should download Studio renders once they complete', () => {
+    const { send, clicked } = runScript(true);
+    send('completed', { file: 'logo.mp4', url: '/out/logo.mp4', size: 5, jobId: null });
+
+    expect(clicked).toEqual(['/out/logo.mp4?cleanup=true']);
+  });
+
+  it("should leave other clients' API jobs alone", () => {
+    const { send, clicked } = runScript(true);
+    send('completed', { file: 'job.mp4', url: '/out/job.mp4', size: 5, jobId: 'abc' });
+
+    expect(clicked).toEqual([]);
+  });
+});
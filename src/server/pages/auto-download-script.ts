@@ -0,0 +1,145 @@
+/**
+ * Auto-download script injected into Remotion Studio
+ *
+ * Downloads each Studio render as soon as the server reports it complete.
+ * Renders of API jobs belong to whoever queued them and are left alone, so
+ * an open Studio tab never cleans up another client's files. Only admins may
+ * delete renders, so only their downloads request cleanup.
+ */
+
+export const autoDownloadScript = (cleanupAfterDownload: boolean): string => `
+<script>
+(function() {
+  // Auto-download watcher for Remotion Studio
+  const CLEANUP_AFTER_DOWNLOAD = ${JSON.stringify(cleanupAfterDownload)};
+  const knownFiles = new Map(); // name -> {size, stable}
+  const pendingDownloads = new Map(); // name -> {size, checks}
+  let initialized = false;
+
+  function triggerDownload(url, name) {
+    // Add cleanup=true to auto-delete after download completes on server
+    const downloadUrl = CLEANUP_AFTER_DOWNLOAD ? url + '?cleanup=true' : url;
+    const a = document.createElement('a');
+    a.href = downloadUrl;
+    a.download = name;
+    a.style.display = 'none';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    console.log('[Auto-Download] Downloading' + (CLEANUP_AFTER_DOWNLOAD ? ' (with auto-cleanup):' : ':'), name);
+  }
+
+  async function checkForNewRenders() {
+    try {
+      const res = await fetch('/api/renders', { credentials: 'include' });
+      if (!res.ok) return;
+
+      const data = await res.json();
+
+      // On first run, just record existing files (don't download)
+      if (!initialized) {
+        for (const file of data.files) {
+          knownFiles.set(file.name, { size: file.size, stable: true });
+        }
+        initialized = true;
+        console.log('[Auto-Download] Initialized with', knownFiles.size, 'existing files');
+        return;
+      }
+
+      // Check each file
+      for (const file of data.files) {
+        const known = knownFiles.get(file.name);
+
+        // API jobs are downloaded by whoever queued them
+        if (!known && file.jobId) {
+          knownFiles.set(file.name, { size: file.size, stable: true });
+          pendingDownloads.delete(file.name);
+        } else if (!known) {
+          // New file detected - add to pending and wait for size to stabilize
+          const pending = pendingDownloads.get(file.name);
+
+          if (!pending) {
+            // First time seeing this file
+            pendingDownloads.set(file.name, { size: file.size, checks: 1, url: file.url });
+            console.log('[Auto-Download] New file detected, waiting for completion:', file.name, '(' + file.size + ' bytes)');
+          } else if (pending.size === file.size) {
+            // Size unchanged - increment stability counter
+            pending.checks++;
+            console.log('[Auto-Download] File size stable check', pending.checks, '/ 3:', file.name);
+
+            // After 3 checks with same size (6 seconds), consider complete
+            if (pending.checks >= 3) {
+              console.log('[Auto-Download] File complete, downloading:', file.name);
+              triggerDownload(pending.url, file.name);
+              knownFiles.set(file.name, { size: file.size, stable: true });
+              pendingDownloads.delete(file.name);
+            }
+          } else {
+            // Size changed - reset counter (file still being written)
+            pending.size = file.size;
+            pending.checks = 1;
+            console.log('[Auto-Download] File still writing:', file.name, '(' + file.size + ' bytes)');
+          }
+        }
+      }
+
+      // Update known files with current sizes
+      for (const file of data.files) {
+        if (knownFiles.has(file.name)) {
+          knownFiles.set(file.name, { size: file.size, stable: true });
+        }
+      }
+    } catch (err) {
+      // Silent fail - don't spam console
+    }
+  }
+
+  // Fallback when the event stream is unavailable: poll every 2 seconds
+  let pollTimer = null;
+  function startPolling() {
+    if (pollTimer) return;
+    pollTimer = setInterval(checkForNewRenders, 2000);
+    checkForNewRenders();
+    console.log('[Auto-Download] Event stream unavailable, polling for new renders');
+  }
+
+  function connectEvents() {
+    if (!window.EventSource) {
+      startPolling();
+      return;
+    }
+
+    const source = new EventSource('/api/renders/events');
+    let errors = 0;
+
+    source.onopen = () => {
+      errors = 0;
+    };
+
+    // The server only sends "completed" once the file is in render storage
+    source.addEventListener('completed', (e) => {
+      const data = JSON.parse(e.data);
+      knownFiles.set(data.file, { size: data.size, stable: true });
+      pendingDownloads.delete(data.file);
+      // API jobs are downloaded by whoever queued them
+      if (data.jobId !== null) return;
+      console.log('[Auto-Download] Render complete, downloading:', data.file);
+      triggerDownload(data.url, data.file);
+    });
+
+    source.onerror = () => {
+      errors++;
+      // EventSource reconnects by itself; give up after repeated failures
+      if (source.readyState === EventSource.CLOSED || errors >= 3) {
+        source.close();
+        initialized = false;
+        startPolling();
+      }
+    };
+  }
+
+  connectEvents();
+  console.log('[Auto-Download] Watcher active - new renders will download automatically after completion');
+})();
+</script>
+`;
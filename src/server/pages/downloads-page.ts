@@ -0,0 +1,334 @@
+/**
+ * Downloads page
+ *
+ * Lists rendered videos and auto-downloads new renders as they complete,
+ * using the live render event stream (with polling as a fallback). Each
+ * render shows its poster thumbnail and plays its preview clip on hover.
+ * Several renders can be selected and downloaded together as one ZIP.
+ */
+
+type DownloadsPageOptions = {
+  /** Whether to show a link back to the Studio (editors and admins only) */
+  studioLink: boolean;
+};
+
+export const downloadsPage = ({ studioLink }: DownloadsPageOptions): string => {
+  const backLink = studioLink ? '<a href="/" class="back-link">&larr; Back to Studio</a>' : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Remotion Downloads</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #0a0a0a; color: #fff; padding: 2rem; }
+    h1 { margin-bottom: 1rem; }
+    .status { padding: 0.5rem 1rem; border-radius: 4px; margin-bottom: 1rem; font-size: 0.9rem; }
+    .status.watching { background: #1a3a1a; border: 1px solid #2d5a2d; }
+    .status.downloading { background: #3a3a1a; border: 1px solid #5a5a2d; }
+    .files { list-style: none; }
+    .file { background: #1a1a1a; border: 1px solid #333; border-radius: 8px; padding: 1rem; margin-bottom: 0.5rem; display: flex; justify-content: space-between; align-items: center; gap: 1rem; }
+    .thumb { width: 160px; aspect-ratio: 16 / 9; flex-shrink: 0; border-radius: 4px; background: #000; object-fit: contain; display: flex; align-items: center; justify-content: center; color: #555; font-size: 0.75rem; }
+    .file-info { flex: 1; }
+    .file-name { font-weight: 600; margin-bottom: 0.25rem; }
+    .file-meta { font-size: 0.8rem; color: #888; }
+    .download-btn { background: #3b82f6; color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; text-decoration: none; }
+    .download-btn:hover { background: #2563eb; }
+    .new { animation: pulse 2s ease-in-out; }
+    @keyframes pulse { 0%, 100% { box-shadow: 0 0 0 0 rgba(59, 130, 246, 0); } 50% { box-shadow: 0 0 0 10px rgba(59, 130, 246, 0.3); } }
+    .empty { color: #666; font-style: italic; }
+    .toggle { margin-bottom: 1rem; }
+    .toggle label { display: flex; align-items: center; gap: 0.5rem; cursor: pointer; }
+    .back-link { color: #3b82f6; text-decoration: none; margin-bottom: 1rem; display: inline-block; }
+    .toolbar { display: flex; align-items: center; gap: 1rem; margin-bottom: 1rem; }
+    .toolbar label { display: flex; align-items: center; gap: 0.5rem; cursor: pointer; }
+    .download-btn:disabled { background: #333; color: #777; cursor: default; }
+    .select { width: 1.1rem; height: 1.1rem; flex-shrink: 0; cursor: pointer; }
+  </style>
+</head>
+<body>
+  ${backLink}
+  <h1>Rendered Videos</h1>
+  <div class="toggle">
+    <label><input type="checkbox" id="autoDownload" checked> Auto-download new renders</label>
+  </div>
+  <div id="status" class="status watching">Watching for new renders...</div>
+  <div class="toolbar">
+    <label><input type="checkbox" id="selectAll"> Select all</label>
+    <button type="button" id="downloadSelected" class="download-btn" disabled>Download selected as ZIP</button>
+  </div>
+  <ul id="files" class="files"></ul>
+
+  <script>
+    let knownFiles = new Set();
+    let autoDownload = true;
+    const statusEl = document.getElementById('status');
+    const filesEl = document.getElementById('files');
+    const autoDownloadEl = document.getElementById('autoDownload');
+    const selectAllEl = document.getElementById('selectAll');
+    const downloadSelectedEl = document.getElementById('downloadSelected');
+    let selected = new Set();
+
+    autoDownloadEl.addEventListener('change', (e) => {
+      autoDownload = e.target.checked;
+      statusEl.textContent = autoDownload ? 'Watching for new renders...' : 'Auto-download disabled';
+      statusEl.className = 'status watching';
+    });
+
+    function formatSize(bytes) {
+      if (bytes < 1024) return bytes + ' B';
+      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+      return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    }
+
+    function formatDate(dateStr) {
+      return new Date(dateStr).toLocaleString();
+    }
+
+    function formatDetails(f) {
+      const details = [];
+      if (f.width && f.height) details.push(f.width + '&times;' + f.height);
+      if (f.durationSeconds !== null && f.durationSeconds !== undefined) {
+        details.push(f.durationSeconds.toFixed(1) + 's');
+      }
+      return details.map(d => ' &bull; ' + d).join('');
+    }
+
+    // Poster thumbnail that plays the preview clip on hover
+    function thumbnail(f) {
+      if (!f.posterUrl) {
+        return '<div class="thumb">No preview</div>';
+      }
+      if (!f.previewUrl) {
+        return \`<img class="thumb" src="\${f.posterUrl}" alt="">\`;
+      }
+      return \`<video class="thumb" src="\${f.previewUrl}" poster="\${f.posterUrl}" muted loop playsinline preload="none"></video>\`;
+    }
+
+    filesEl.addEventListener('mouseover', (e) => {
+      if (e.target.tagName === 'VIDEO') e.target.play().catch(() => {});
+    });
+    filesEl.addEventListener('mouseout', (e) => {
+      if (e.target.tagName === 'VIDEO') {
+        e.target.pause();
+        e.target.currentTime = 0;
+      }
+    });
+
+    // Selection for ZIP downloads survives the list being re-rendered
+    function updateSelection() {
+      downloadSelectedEl.disabled = selected.size === 0;
+      downloadSelectedEl.textContent = selected.size > 0
+        ? 'Download ' + selected.size + ' as ZIP'
+        : 'Download selected as ZIP';
+      selectAllEl.checked = knownFiles.size > 0 && selected.size === knownFiles.size;
+    }
+
+    filesEl.addEventListener('change', (e) => {
+      if (!e.target.classList.contains('select')) return;
+      if (e.target.checked) {
+        selected.add(e.target.value);
+      } else {
+        selected.delete(e.target.value);
+      }
+      updateSelection();
+    });
+
+    selectAllEl.addEventListener('change', (e) => {
+      selected = e.target.checked ? new Set(knownFiles) : new Set();
+      filesEl.querySelectorAll('.select').forEach((box) => {
+        box.checked = e.target.checked;
+      });
+      updateSelection();
+    });
+
+    // A form post lets the browser stream the ZIP straight to disk
+    downloadSelectedEl.addEventListener('click', () => {
+      const form = document.createElement('form');
+      form.method = 'POST';
+      form.action = '/api/renders/archive';
+      for (const name of selected) {
+        const input = document.createElement('input');
+        input.type = 'hidden';
+        input.name = 'files';
+        input.value = name;
+        form.appendChild(input);
+      }
+      document.body.appendChild(form);
+      form.submit();
+      document.body.removeChild(form);
+    });
+
+    function triggerDownload(url, name) {
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    }
+
+    async function checkRenders() {
+      try {
+        const res = await fetch('/api/renders', { credentials: 'include' });
+
+        // Check if we got redirected (auth issue)
+        if (res.redirected) {
+          statusEl.textContent = 'Auth error - redirected. Try refreshing page.';
+          statusEl.className = 'status downloading';
+          console.error('Redirected to:', res.url);
+          return;
+        }
+
+        if (!res.ok) {
+          statusEl.textContent = 'API error: ' + res.status + ' ' + res.statusText;
+          statusEl.className = 'status downloading';
+          console.error('API error:', res.status, await res.text());
+          return;
+        }
+
+        const contentType = res.headers.get('content-type');
+        if (!contentType || !contentType.includes('application/json')) {
+          statusEl.textContent = 'Invalid response - not JSON';
+          statusEl.className = 'status downloading';
+          console.error('Not JSON, got:', contentType, await res.text());
+          return;
+        }
+
+        const data = await res.json();
+
+        // Check for new files
+        const newFiles = data.files.filter(f => !knownFiles.has(f.name));
+
+        // Debug info
+        console.log('Renders API response:', data);
+        console.log('Known files:', [...knownFiles]);
+        console.log('New files:', newFiles);
+
+        // Update UI
+        if (data.files.length === 0) {
+          filesEl.innerHTML = '<li class="empty">No rendered videos yet. Render something in the Studio!</li>';
+        } else {
+          filesEl.innerHTML = data.files.map(f => {
+            const isNew = newFiles.some(nf => nf.name === f.name);
+            return \`<li class="file \${isNew ? 'new' : ''}">
+              <input type="checkbox" class="select" value="\${f.name}" \${selected.has(f.name) ? 'checked' : ''} aria-label="Select \${f.name}">
+              \${thumbnail(f)}
+              <div class="file-info">
+                <div class="file-name">\${f.name}</div>
+                <div class="file-meta">\${formatSize(f.size)} &bull; \${formatDate(f.created)}\${formatDetails(f)}</div>
+              </div>
+              <a href="\${f.url}" class="download-btn" download>Download</a>
+            </li>\`;
+          }).join('');
+        }
+
+        // Auto-download new files
+        if (autoDownload && newFiles.length > 0) {
+          statusEl.textContent = 'Downloading ' + newFiles.map(f => f.name).join(', ') + '...';
+          statusEl.className = 'status downloading';
+
+          for (const file of newFiles) {
+            triggerDownload(file.url, file.name);
+          }
+
+          setTimeout(() => {
+            statusEl.textContent = 'Watching for new renders...';
+            statusEl.className = 'status watching';
+          }, 3000);
+        }
+
+        // Update known files, forgetting the selection of deleted ones
+        knownFiles = new Set(data.files.map(f => f.name));
+        selected = new Set([...selected].filter(name => knownFiles.has(name)));
+        updateSelection();
+      } catch (err) {
+        console.error('Error checking renders:', err);
+      }
+    }
+
+    // Fallback when the event stream is unavailable: poll every 2 seconds
+    let pollTimer = null;
+    function startPolling() {
+      if (pollTimer) return;
+      console.log('Live render events unavailable, polling instead');
+      pollTimer = setInterval(checkRenders, 2000);
+    }
+
+    // Live render events from the server
+    function connectEvents() {
+      if (!window.EventSource) {
+        startPolling();
+        return;
+      }
+
+      const source = new EventSource('/api/renders/events');
+      let errors = 0;
+
+      source.onopen = () => {
+        errors = 0;
+      };
+
+      source.addEventListener('started', (e) => {
+        const data = JSON.parse(e.data);
+        statusEl.textContent = 'Rendering ' + (data.file || data.compositionId) + '...';
+        statusEl.className = 'status downloading';
+      });
+
+      source.addEventListener('progress', (e) => {
+        const data = JSON.parse(e.data);
+        const name = data.file || 'job ' + data.jobId.slice(0, 8);
+        const detail = data.progress !== null
+          ? Math.round(data.progress * 100) + '%'
+          : formatSize(data.bytes) + ' written';
+        statusEl.textContent = 'Rendering ' + name + ': ' + detail;
+        statusEl.className = 'status downloading';
+      });
+
+      source.addEventListener('completed', () => {
+        statusEl.textContent = autoDownload ? 'Watching for new renders...' : 'Auto-download disabled';
+        statusEl.className = 'status watching';
+        checkRenders();
+      });
+
+      // Posters and preview clips arrive a little after the render itself
+      source.addEventListener('preview-ready', () => {
+        checkRenders();
+      });
+
+      // Renders deleted by cleanup or retention drop off the list
+      source.addEventListener('deleted', () => {
+        checkRenders();
+      });
+
+      source.addEventListener('failed', (e) => {
+        const data = JSON.parse(e.data);
+        statusEl.textContent = 'Render failed: ' + data.error;
+        statusEl.className = 'status downloading';
+      });
+
+      source.addEventListener('cancelled', (e) => {
+        const data = JSON.parse(e.data);
+        statusEl.textContent = 'Render cancelled: job ' + data.jobId.slice(0, 8);
+        statusEl.className = 'status watching';
+      });
+
+      source.onerror = () => {
+        errors++;
+        // EventSource reconnects by itself; give up after repeated failures
+        if (source.readyState === EventSource.CLOSED || errors >= 3) {
+          source.close();
+          startPolling();
+        }
+      };
+    }
+
+    // Initial list, then live updates
+    checkRenders();
+    connectEvents();
+  </script>
+</body>
+</html>`;
+};
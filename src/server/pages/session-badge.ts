@@ -0,0 +1,28 @@
+/**
+ * "Signed in as" badge injected into Remotion Studio
+ *
+ * Shows whose session the Studio is running under, with a logout button.
+ * Logging out is a form POST, so other sites cannot log users out with a link.
+ * Kept small in the bottom-right corner, clear of the Studio's own controls.
+ */
+
+import type { AuthUser } from '../auth/types';
+import { escapeHtml } from './html';
+
+type SessionBadgeOptions = {
+  user: AuthUser;
+  /** False when there is no session to end (auth bypassed) */
+  logoutButton: boolean;
+};
+
+export const sessionBadge = ({ user, logoutButton }: SessionBadgeOptions): string => {
+  const logout = logoutButton
+    ? '<form method="post" action="/logout" style="display: inline; margin: 0;"><button type="submit" style="margin-left: 8px; padding: 0; border: 0; background: none; color: #8ab4ff; font: inherit; cursor: pointer;">Log out</button></form>'
+    : '';
+
+  return `
+<div id="studio-session-badge" style="position: fixed; right: 12px; bottom: 12px; z-index: 2147483647; padding: 4px 10px; border-radius: 999px; background: rgba(20, 20, 20, 0.85); border: 1px solid #333; color: #ccc; font: 12px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  Signed in as <strong style="color: #fff;">${escapeHtml(user.email ?? user.id)}</strong> (${user.role})${logout}
+</div>
+`;
+};
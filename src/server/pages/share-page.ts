@@ -0,0 +1,106 @@
+/**
+ * Share link landing pages
+ *
+ * Public pages for people without a Studio session (clients, freelancers):
+ * an inline preview of the shared render with a download button, or a short
+ * explanation when the link can no longer be used.
+ */
+
+import { escapeHtml } from './html';
+
+type SharePageOptions = {
+  /** Inline SVG logo, or null to show the studio name instead */
+  logoSvg: string | null;
+  /** Shared file name */
+  file: string;
+  /** URL of the file, without query */
+  fileUrl: string;
+  expiresAt: string;
+  /** Null for unlimited downloads */
+  downloadsLeft: number | null;
+};
+
+const layout = (title: string, logoSvg: string | null, content: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)} - Junr Studio</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #0a0a0a; color: #f9f5f3; min-height: 100vh; display: flex; flex-direction: column; align-items: center; padding: 2rem; }
+    .logo { width: 180px; margin: 1rem 0 2rem; }
+    .logo svg { width: 100%; height: auto; display: block; }
+    .logo-text { font-size: 1.5rem; font-weight: 700; letter-spacing: 0.05em; }
+    .card { background: #1a1a1a; border: 1px solid #333; border-radius: 8px; padding: 1.5rem; width: 100%; max-width: 960px; }
+    .preview { width: 100%; max-height: 70vh; background: #000; border-radius: 4px; display: block; margin-bottom: 1rem; object-fit: contain; }
+    .file-name { font-weight: 600; margin-bottom: 0.25rem; word-break: break-all; }
+    .file-meta { font-size: 0.8rem; color: #888; margin-bottom: 1rem; }
+    .download-btn { background: #3b82f6; color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; text-decoration: none; display: inline-block; }
+    .download-btn:hover { background: #2563eb; }
+    .message { color: #888; }
+  </style>
+</head>
+<body>
+  <div class="logo">${logoSvg ?? '<span class="logo-text">JUNR STUDIO</span>'}</div>
+  <div class="card">
+${content}
+  </div>
+</body>
+</html>`;
+
+export const sharePage = ({
+  logoSvg,
+  file,
+  fileUrl,
+  expiresAt,
+  downloadsLeft,
+}: SharePageOptions): string => {
+  // Watching the preview counts as a download, so nothing loads until asked:
+  // videos wait for play, and GIFs of limited links are not shown inline
+  const previewUrl = escapeHtml(`${fileUrl}?inline=1`);
+  const isGif = file.toLowerCase().endsWith('.gif');
+  const preview = !isGif
+    ? `<video class="preview" src="${previewUrl}" controls playsinline preload="none"></video>`
+    : downloadsLeft === null
+      ? `<img class="preview" src="${previewUrl}" alt="${escapeHtml(file)}">`
+      : '';
+  const limit =
+    downloadsLeft === null
+      ? ''
+      : ` &middot; ${downloadsLeft} download${downloadsLeft === 1 ? '' : 's'} left`;
+
+  return layout(
+    file,
+    logoSvg,
+    `    ${preview}
+    <div class="file-name">${escapeHtml(file)}</div>
+    <div class="file-meta">Available until <span id="expires">${escapeHtml(expiresAt)}</span>${limit}</div>
+    <a class="download-btn" href="${escapeHtml(`${fileUrl}?download=1`)}">Download</a>
+    <script>
+      const expiresEl = document.getElementById('expires');
+      expiresEl.textContent = new Date(expiresEl.textContent).toLocaleString();
+    </script>`
+  );
+};
+
+const UNAVAILABLE_MESSAGES = {
+  'not-found': 'This link is not valid. Check that it was copied completely.',
+  revoked: 'This link has been disabled.',
+  expired: 'This link has expired.',
+  'download-limit': 'This link has reached its download limit.',
+  'file-missing': 'The shared video is no longer available.',
+};
+
+export type ShareUnavailableReason = keyof typeof UNAVAILABLE_MESSAGES;
+
+export const shareUnavailablePage = (
+  logoSvg: string | null,
+  reason: ShareUnavailableReason
+): string =>
+  layout(
+    'Link unavailable',
+    logoSvg,
+    `    <p class="message">${UNAVAILABLE_MESSAGES[reason]} Please ask for a new link.</p>`
+  );
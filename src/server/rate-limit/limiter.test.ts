@@ -0,0 +1,60 @@
+/**
+ * Tests for rate limiters and the in-memory store
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createRateLimiter } from './limiter';
+import { createMemoryRateLimitStore } from './memory-store';
+
+describe('Rate limiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow the budget per window and say when to retry', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    const limiter = createRateLimiter({
+      name: 'downloads',
+      budget: { max: 2, windowMs: 60_000 },
+      store: createMemoryRateLimitStore(),
+    });
+
+    expect(await limiter.consume('user:1')).toEqual({ allowed: true });
+    expect(await limiter.consume('user:1')).toEqual({ allowed: true });
+    vi.advanceTimersByTime(15_500);
+    expect(await limiter.consume('user:1')).toEqual({ allowed: false, retryAfterSeconds: 45 });
+
+    // Other keys have their own budget
+    expect(await limiter.consume('user:2')).toEqual({ allowed: true });
+
+    vi.advanceTimersByTime(44_500);
+    expect(await limiter.consume('user:1')).toEqual({ allowed: true });
+  });
+
+  it('should keep limiters apart in a shared store', async () => {
+    const store = createMemoryRateLimitStore();
+    const auth = createRateLimiter({ name: 'auth', budget: { max: 1, windowMs: 60_000 }, store });
+    const renders = createRateLimiter({
+      name: 'renders',
+      budget: { max: 1, windowMs: 60_000 },
+      store,
+    });
+
+    expect((await auth.consume('user:1')).allowed).toBe(true);
+    expect((await renders.consume('user:1')).allowed).toBe(true);
+    expect((await auth.consume('user:1')).allowed).toBe(false);
+  });
+
+  it('should never limit without a budget', async () => {
+    const store = createMemoryRateLimitStore();
+    const increment = vi.spyOn(store, 'increment');
+    const limiter = createRateLimiter({ name: 'renders', budget: null, store });
+
+    for (let i = 0; i < 5; i++) {
+      expect(await limiter.consume('user:1')).toEqual({ allowed: true });
+    }
+    expect(increment).not.toHaveBeenCalled();
+  });
+});
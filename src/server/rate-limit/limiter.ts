@@ -0,0 +1,89 @@
+/**
+ * Rate limiters
+ *
+ * Each limiter has a name (used in keys and logs), a budget and a store.
+ * `middleware` limits whole routes by a key taken from the request, e.g.
+ * the user id or the client's IP; `consume` is for code that only needs a
+ * budget on some paths, like the session refresh.
+ *
+ * Limited requests get `429 Too Many Requests` with `Retry-After`.
+ */
+
+import type express from 'express';
+import type { RateLimitBudget, RateLimitStore } from './types';
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+type RateLimiterOptions = {
+  /** e.g. "auth" or "downloads" */
+  name: string;
+  /** Null for no limit */
+  budget: RateLimitBudget | null;
+  store: RateLimitStore;
+  /** Called for each request that is turned away */
+  onLimited?: (name: string) => void;
+};
+
+/** Key of a request, or null to let it through uncounted */
+export type RateLimitKey = (req: express.Request, res: express.Response) => string | null;
+
+export type RateLimiter = {
+  /** Count a request for `key` against the budget */
+  consume: (key: string) => Promise<RateLimitResult>;
+  /** Send the 429 response for a request limited under `key` */
+  reject: (res: express.Response, key: string, retryAfterSeconds: number) => void;
+  middleware: (key: RateLimitKey) => express.RequestHandler;
+};
+
+/** The signed-in user, or the client's IP for requests without one */
+export const userOrIpKey: RateLimitKey = (req, res) =>
+  res.locals.user ? `user:${res.locals.user.id}` : `ip:${req.ip ?? 'unknown'}`;
+
+export const createRateLimiter = ({
+  name,
+  budget,
+  store,
+  onLimited,
+}: RateLimiterOptions): RateLimiter => {
+  const consume = async (key: string): Promise<RateLimitResult> => {
+    if (!budget) {
+      return { allowed: true };
+    }
+    const { count, resetAt } = await store.increment(`${name}:${key}`, budget.windowMs);
+    if (count <= budget.max) {
+      return { allowed: true };
+    }
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    };
+  };
+
+  const reject = (res: express.Response, key: string, retryAfterSeconds: number): void => {
+    console.log('[RateLimit] Limited', name, key, `(retry in ${retryAfterSeconds}s)`);
+    onLimited?.(name);
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({
+      error: `Too many requests, try again in ${retryAfterSeconds} seconds`,
+    });
+  };
+
+  return {
+    consume,
+    reject,
+
+    middleware:
+      (key): express.RequestHandler =>
+      async (req, res, next) => {
+        const requestKey = key(req, res);
+        if (requestKey === null) {
+          return next();
+        }
+        const result = await consume(requestKey);
+        if (!result.allowed) {
+          return reject(res, requestKey, result.retryAfterSeconds);
+        }
+        return next();
+      },
+  };
+};
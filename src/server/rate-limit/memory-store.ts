@@ -0,0 +1,39 @@
+/**
+ * In-memory rate limit store
+ *
+ * Counts are lost on restart and not shared between instances, which is
+ * fine for a single proxy. Ended windows are dropped as the store grows.
+ */
+
+import type { RateLimitCount, RateLimitStore } from './types';
+
+/** Drop ended windows once this many keys are tracked */
+const PRUNE_AFTER_KEYS = 10_000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, RateLimitCount>();
+
+  const prune = (now: number): void => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return {
+    increment: (key, windowMs): Promise<RateLimitCount> => {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= PRUNE_AFTER_KEYS) {
+          prune(now);
+        }
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return Promise.resolve({ ...window });
+    },
+  };
+};
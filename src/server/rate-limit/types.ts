@@ -0,0 +1,26 @@
+/**
+ * Types for rate limiting
+ *
+ * Limits are counted in fixed windows: every key gets `max` requests per
+ * window, and the count starts over when the window ends. Counts live in a
+ * store, so a shared one (e.g. Redis) can replace the in-memory store when
+ * the proxy runs as more than one instance.
+ */
+
+/** Requests allowed per window; a budget of null means no limit */
+export type RateLimitBudget = {
+  max: number;
+  windowMs: number;
+};
+
+export type RateLimitCount = {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** When the current window ends (ms since the epoch) */
+  resetAt: number;
+};
+
+export type RateLimitStore = {
+  /** Count a request for `key`, starting a new window when the last one has ended */
+  increment: (key: string, windowMs: number) => Promise<RateLimitCount>;
+};
@@ -0,0 +1,177 @@
+/**
+ * Batch ZIP download of renders
+ *
+ * POST /api/renders/archive streams a ZIP of several renders, built on the
+ * fly, so a campaign's worth of variants downloads in one go. The renders
+ * are picked either by name or by the same filters as the listing (e.g.
+ * every render of a composition since midnight). Each render's metadata
+ * sidecar is included next to it.
+ *
+ * Accepts JSON, and form posts (`files=a.mp4&files=b.mp4`) so the downloads
+ * page can let the browser save the archive straight to disk.
+ */
+
+import { once } from 'events';
+import express from 'express';
+import { ZipArchive } from 'archiver';
+import { z } from 'zod';
+import type { AuditLog } from '../audit/log';
+import { requireRole } from '../auth/roles';
+import type { RenderStorage, StoredObject } from '../storage/types';
+import {
+  invalidRenderFilename,
+  listRenders,
+  matchesRenderFilter,
+  renderFilterSchema,
+} from './files';
+import { renderUser, sidecarKey } from './metadata';
+
+/** Most renders in one archive */
+const MAX_ARCHIVE_FILES = 500;
+
+const archiveRequestSchema = renderFilterSchema
+  .extend({
+    // A form post with a single file sends a string instead of an array
+    files: z.preprocess(
+      (value) => (typeof value === 'string' ? [value] : value),
+      z.array(z.string()).min(1).max(MAX_ARCHIVE_FILES).optional()
+    ),
+  })
+  .refine(
+    ({ files, ...filter }) =>
+      (files !== undefined) !== Object.values(filter).some((value) => value !== undefined),
+    { message: 'Give either files or a filter (composition, user, from, to)' }
+  );
+
+type RenderArchiveRouterOptions = {
+  storage: RenderStorage;
+  /** Records each archive as a download of the renders in it */
+  audit?: AuditLog;
+};
+
+/** e.g. renders-2026-01-10.zip */
+const archiveName = (): string => `renders-${new Date().toISOString().slice(0, 10)}.zip`;
+
+export const createRenderArchiveRouter = ({
+  storage,
+  audit,
+}: RenderArchiveRouterOptions): express.Router => {
+  const router = express.Router();
+
+  /**
+   * The renders a request selects, or an error response to send
+   */
+  const selectRenders = async (
+    request: z.infer<typeof archiveRequestSchema>
+  ): Promise<StoredObject[] | { status: number; body: Record<string, unknown> }> => {
+    const { files, ...filter } = request;
+
+    if (files) {
+      const invalid = files.filter((file) => invalidRenderFilename(file));
+      if (invalid.length > 0) {
+        return { status: 400, body: { error: 'Invalid filenames', files: invalid } };
+      }
+      const unique = [...new Set(files)];
+      const objects = await Promise.all(unique.map((file) => storage.stat(file)));
+      const missing = unique.filter((_file, i) => !objects[i]);
+      if (missing.length > 0) {
+        return { status: 404, body: { error: 'Files not found', files: missing } };
+      }
+      return objects.filter((object): object is StoredObject => object !== null);
+    }
+
+    const matching = (await listRenders(storage))
+      .filter((file) => matchesRenderFilter(file, filter))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    if (matching.length === 0) {
+      return { status: 404, body: { error: 'No renders match the filter' } };
+    }
+    if (matching.length > MAX_ARCHIVE_FILES) {
+      return {
+        status: 400,
+        body: { error: `Filter matches ${matching.length} renders, at most ${MAX_ARCHIVE_FILES}` },
+      };
+    }
+    return matching.map(({ name, size, created }) => ({ key: name, size, modifiedAt: created }));
+  };
+
+  router.post(
+    '/api/renders/archive',
+    requireRole('viewer', 'renders:read'),
+    express.json(),
+    express.urlencoded({ extended: false }),
+    async (req, res) => {
+      const parsed = archiveRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid archive request',
+          issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        });
+      }
+
+      const selected = await selectRenders(parsed.data);
+      if (!Array.isArray(selected)) {
+        return res.status(selected.status).json(selected.body);
+      }
+
+      const name = archiveName();
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      // Videos are compressed already - only the sidecars are worth deflating
+      const archive = new ZipArchive({ zlib: { level: 6 } });
+      archive.pipe(res);
+
+      // Stop reading from storage when the client goes away
+      const aborted = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          aborted.abort();
+          archive.abort();
+        }
+      });
+
+      const totalBytes = selected.reduce((sum, object) => sum + object.size, 0);
+      console.log('[Archive] Streaming', name, `(${selected.length} renders, ${totalBytes} bytes)`);
+      audit?.record('download', req, renderUser(res.locals.user), {
+        files: selected.map((object) => object.key),
+        archive: name,
+      });
+
+      try {
+        // One entry at a time, so only one storage stream is open at once
+        for (const object of selected) {
+          const entry = once(archive, 'entry', { signal: aborted.signal });
+          archive.append(await storage.read(object.key), {
+            name: object.key,
+            date: object.modifiedAt,
+            store: true,
+          });
+          await entry;
+
+          const sidecar = await storage.stat(sidecarKey(object.key));
+          if (sidecar) {
+            const sidecarEntry = once(archive, 'entry', { signal: aborted.signal });
+            archive.append(await storage.read(sidecar.key), {
+              name: sidecar.key,
+              date: sidecar.modifiedAt,
+            });
+            await sidecarEntry;
+          }
+        }
+        await archive.finalize();
+      } catch (err) {
+        if (aborted.signal.aborted) {
+          console.log('[Archive] Cancelled by the client:', name);
+          return;
+        }
+        console.error('[Archive] Failed:', name, (err as Error).message);
+        // Headers are out already - cut the response so the client sees a broken download
+        res.destroy(err as Error);
+      }
+    }
+  );
+
+  return router;
+};
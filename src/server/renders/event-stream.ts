@@ -0,0 +1,62 @@
+/**
+ * Server-Sent Events endpoint for render progress
+ *
+ * GET /api/renders/events
+ *
+ * Railway (and other edge proxies) buffer or drop SSE responses unless they
+ * look unmistakably like a stream, which is also why remotion.config.ts turns
+ * off lazy compilation in production. This handler therefore:
+ * - disables caching, transformation and nginx-style buffering
+ * - writes a padding comment up front so buffering proxies flush immediately
+ * - sends a heartbeat comment regularly so idle connections are not closed
+ * - replays missed events for clients reconnecting with Last-Event-ID
+ */
+
+import express from 'express';
+import { requireRole } from '../auth/roles';
+import type { RenderEventEnvelope, RenderEvents } from './events';
+
+/** Interval between heartbeat comments */
+const HEARTBEAT_MS = 15_000;
+
+/** Client reconnect delay sent in the retry field */
+const RETRY_MS = 3_000;
+
+const formatEvent = ({ id, event }: RenderEventEnvelope): string =>
+  `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+export const createRenderEventStreamRouter = (events: RenderEvents): express.Router => {
+  const router = express.Router();
+
+  router.get('/api/renders/events', requireRole('viewer', 'renders:read'), (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`:${' '.repeat(2048)}\n`);
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const lastEventId = parseInt(req.get('Last-Event-ID') ?? '');
+    if (!Number.isNaN(lastEventId)) {
+      for (const envelope of events.replaySince(lastEventId)) {
+        res.write(formatEvent(envelope));
+      }
+    }
+
+    const unsubscribe = events.subscribe((envelope) => {
+      res.write(formatEvent(envelope));
+    });
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,79 @@
+/**
+ * Tests for the render event bus
+ * Ensures Studio renders are reported once written and queue events are not duplicated
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createRenderEvents } from './events';
+import type { RenderEvent, RenderEvents } from './events';
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Render events', () => {
+  let outDir: string;
+  let events: RenderEvents;
+  let received: RenderEvent[];
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-events-'));
+    fs.writeFileSync(path.join(outDir, 'existing.mp4'), 'old render');
+    events = createRenderEvents({ outDir, stableAfterMs: 50 });
+    received = [];
+    events.subscribe(({ event }) => received.push(event));
+  });
+
+  afterEach(() => {
+    events.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should report a Studio render as written once its size stops changing', async () => {
+    const filePath = path.join(outDir, 'logo.mp4');
+    fs.writeFileSync(filePath, 'first chunk');
+    await wait(20);
+    fs.appendFileSync(filePath, ' second chunk');
+    await wait(200);
+
+    const types = received.map((event) => event.type);
+    expect(types[0]).toBe('file-created');
+    expect(types).not.toContain('completed');
+    expect(types.filter((type) => type === 'file-written')).toHaveLength(1);
+    expect(received.at(-1)).toEqual({
+      type: 'file-written',
+      file: 'logo.mp4',
+      size: fs.statSync(filePath).size,
+    });
+  });
+
+  it('should ignore files that are not renders and files present at startup', async () => {
+    fs.writeFileSync(path.join(outDir, 'notes.txt'), 'hello');
+    fs.utimesSync(path.join(outDir, 'existing.mp4'), new Date(), new Date());
+    await wait(150);
+
+    expect(received).toEqual([]);
+  });
+
+  it('should not re-announce files completed by the render queue', async () => {
+    fs.writeFileSync(path.join(outDir, 'job.mp4'), 'video');
+    events.emit({ type: 'completed', file: 'job.mp4', url: '/out/job.mp4', size: 5, jobId: 'abc' });
+    await wait(150);
+
+    expect(received.map((event) => event.type)).toEqual(['completed']);
+  });
+
+  it('should replay events after a given id', () => {
+    events.emit({ type: 'failed', file: null, jobId: 'a', error: 'first' });
+    events.emit({ type: 'failed', file: null, jobId: 'b', error: 'second' });
+
+    const [first] = events.replaySince(0);
+    const replayed = events.replaySince(first!.id);
+
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0]?.event).toMatchObject({ jobId: 'b' });
+  });
+});
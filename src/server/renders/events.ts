@@ -0,0 +1,218 @@
+/**
+ * Render event bus
+ *
+ * Collects render lifecycle events from several sources:
+ * - The render queue, which reports real progress for API-started jobs
+ * - The Studio render tracker, which announces Studio renders as they start
+ * - An fs.watch on out/, which notices Studio renders as they are written
+ * - Cleanup after download and the retention sweeper, which delete renders
+ *
+ * Studio renders give no progress percentage, so a watched file counts as
+ * written once its size has stopped changing for `stableAfterMs`. The
+ * heuristic runs once on the server instead of in every open browser tab.
+ * The Studio render tracker then moves the file into render storage and
+ * announces it as completed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+/** Extensions of rendered videos served from out/ */
+export const RENDER_EXTENSIONS = ['.mp4', '.webm', '.mov', '.gif'];
+
+/** Events kept for clients that reconnect with Last-Event-ID */
+const REPLAY_BUFFER_SIZE = 50;
+
+/** Why a render was deleted */
+export type RenderDeleteReason = 'manual' | 'cleanup' | 'retention';
+
+export type RenderEvent =
+  | {
+      type: 'started';
+      /** Output file (Studio renders) or null until an API job has finished */
+      file: string | null;
+      jobId: string | null;
+      compositionId: string;
+    }
+  | { type: 'file-created'; file: string }
+  /** A Studio render stopped growing in out/ - it is not in render storage yet */
+  | { type: 'file-written'; file: string; size: number }
+  | {
+      type: 'progress';
+      /** Output file (Studio renders) or null while an API job is still rendering */
+      file: string | null;
+      jobId: string | null;
+      /** 0 to 1 when known (API jobs), null for Studio renders */
+      progress: number | null;
+      /** Bytes written so far when known (Studio renders) */
+      bytes: number | null;
+    }
+  | { type: 'completed'; file: string; url: string; size: number; jobId: string | null }
+  | { type: 'failed'; file: string | null; jobId: string | null; error: string }
+  | { type: 'cancelled'; file: null; jobId: string }
+  | { type: 'preview-ready'; file: string; posterUrl: string; previewUrl: string | null }
+  | { type: 'deleted'; file: string; reason: RenderDeleteReason };
+
+export type RenderEventEnvelope = {
+  id: number;
+  event: RenderEvent;
+};
+
+type RenderEventsOptions = {
+  /** Directory to watch for Studio renders */
+  outDir: string;
+  /** How long a file's size must stay unchanged before it counts as complete */
+  stableAfterMs: number;
+};
+
+export type RenderEvents = {
+  emit: (event: RenderEvent) => void;
+  /** Returns an unsubscribe function */
+  subscribe: (listener: (envelope: RenderEventEnvelope) => void) => () => void;
+  /** Buffered events with an id greater than `lastId` */
+  replaySince: (lastId: number) => RenderEventEnvelope[];
+  /** Stops watching out/ */
+  close: () => void;
+};
+
+type WatchedFile = {
+  size: number;
+  completed: boolean;
+  timer: NodeJS.Timeout | null;
+};
+
+export const createRenderEvents = ({
+  outDir,
+  stableAfterMs,
+}: RenderEventsOptions): RenderEvents => {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  const buffer: RenderEventEnvelope[] = [];
+  const files = new Map<string, WatchedFile>();
+  let nextId = 1;
+
+  const emit = (event: RenderEvent): void => {
+    // Files announced by the queue are complete already - the watcher must not re-announce them
+    if (event.type === 'completed' || event.type === 'file-written') {
+      const known = files.get(event.file);
+      if (known?.timer) {
+        clearTimeout(known.timer);
+      }
+      files.set(event.file, { size: event.size, completed: true, timer: null });
+    }
+
+    const envelope = { id: nextId++, event };
+    buffer.push(envelope);
+    if (buffer.length > REPLAY_BUFFER_SIZE) {
+      buffer.shift();
+    }
+    emitter.emit('event', envelope);
+  };
+
+  const checkStable = (file: string): void => {
+    const entry = files.get(file);
+    if (!entry || entry.completed) {
+      return;
+    }
+    entry.timer = null;
+
+    let size: number;
+    try {
+      size = fs.statSync(path.join(outDir, file)).size;
+    } catch {
+      // Removed before it finished
+      files.delete(file);
+      return;
+    }
+
+    if (size > 0 && size === entry.size) {
+      emit({ type: 'file-written', file, size });
+      return;
+    }
+
+    if (size !== entry.size) {
+      entry.size = size;
+      emit({ type: 'progress', file, jobId: null, progress: null, bytes: size });
+    }
+    entry.timer = setTimeout(() => checkStable(file), stableAfterMs);
+  };
+
+  const onFileChange = (file: string): void => {
+    if (!RENDER_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+      return;
+    }
+
+    let size: number;
+    try {
+      size = fs.statSync(path.join(outDir, file)).size;
+    } catch {
+      files.delete(file);
+      return;
+    }
+
+    const entry = files.get(file);
+    if (entry && (entry.timer || (entry.completed && entry.size === size))) {
+      // Already being tracked, or an unchanged completed file
+      return;
+    }
+
+    // New file, or a completed file being overwritten by a new render
+    files.set(file, {
+      size,
+      completed: false,
+      timer: setTimeout(() => checkStable(file), stableAfterMs),
+    });
+    emit({ type: 'file-created', file });
+  };
+
+  // Files present at startup are finished renders
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const file of fs.readdirSync(outDir)) {
+    if (RENDER_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+      files.set(file, {
+        size: fs.statSync(path.join(outDir, file)).size,
+        completed: true,
+        timer: null,
+      });
+    }
+  }
+
+  let watcher: fs.FSWatcher | null = null;
+  try {
+    watcher = fs.watch(outDir, (_eventType, file) => {
+      if (file) {
+        onFileChange(file.toString());
+      }
+    });
+    watcher.on('error', (err) => {
+      console.error('[Events] Watcher error:', err.message);
+    });
+  } catch (err) {
+    console.error('[Events] Could not watch', outDir, (err as Error).message);
+  }
+
+  return {
+    emit,
+
+    subscribe: (listener): (() => void) => {
+      emitter.on('event', listener);
+      return () => {
+        emitter.off('event', listener);
+      };
+    },
+
+    replaySince: (lastId): RenderEventEnvelope[] =>
+      buffer.filter((envelope) => envelope.id > lastId),
+
+    close: (): void => {
+      watcher?.close();
+      for (const entry of files.values()) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+        }
+      }
+      emitter.removeAllListeners();
+    },
+  };
+};
@@ -0,0 +1,538 @@
+/**
+ * Rendered file routes
+ *
+ * Lists the videos in render storage with their metadata sidecars (filter by
+ * composition or user, sort, paginate) and serves them as downloads, or
+ * inline for `<video>` previews (`?inline=1`). Each render's poster and
+ * preview clip are served from /out/:filename/poster.jpg and
+ * /out/:filename/preview.mp4. Downloads support byte ranges (seeking,
+ * resuming interrupted downloads) and conditional requests (ETag and
+ * Last-Modified). Admins may delete a render (DELETE /api/renders/:filename),
+ * or ask for it to be deleted once it has been downloaded completely
+ * (`?cleanup=true`).
+ *
+ * With a storage backend that supports it, downloads can instead be
+ * redirected to short-lived presigned URLs so large files don't pass
+ * through this server.
+ */
+
+import express from 'express';
+import path from 'path';
+import type { Readable } from 'stream';
+import { z } from 'zod';
+import type { AuditLog } from '../audit/log';
+import { isAllowed, requireRole } from '../auth/roles';
+import { contentTypeFor } from '../storage/content-types';
+import type { ByteRange, RenderStorage, StoredObject } from '../storage/types';
+import { RENDER_EXTENSIONS } from './events';
+import type { RenderEvents } from './events';
+import { deleteRender, readRenderMetadata, renderUser } from './metadata';
+import type { RenderMetadata } from './metadata';
+import { posterKey, PREVIEW_PREFIX, previewClipKey } from './previews';
+import type { PreviewGenerator } from './previews';
+import { compositionIdFromFilename } from './retention';
+
+/** Lifetime of presigned download URLs */
+const PRESIGNED_URL_TTL_SECONDS = 300;
+
+/**
+ * The byte range to serve, null for the whole file.
+ *
+ * Only single ranges are served; multi-range requests get the whole file,
+ * which HTTP allows. A range is also ignored when If-Range names an older
+ * version of the file, so a resumed download never mixes two renders.
+ */
+const requestedRange = (
+  req: express.Request,
+  size: number,
+  etag: string,
+  lastModified: Date
+): ByteRange | 'unsatisfiable' | null => {
+  if (!req.headers.range) {
+    return null;
+  }
+
+  const ifRange = req.get('If-Range');
+  if (ifRange) {
+    const matches = ifRange.startsWith('"')
+      ? ifRange === etag
+      : Date.parse(ifRange) >= Math.floor(lastModified.getTime() / 1000) * 1000;
+    if (!matches) {
+      return null;
+    }
+  }
+
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) {
+    return 'unsatisfiable';
+  }
+  if (ranges === -2 || ranges?.type !== 'bytes' || ranges.length !== 1) {
+    return null;
+  }
+  const [range] = ranges;
+  return range ? { start: range.start, end: range.end } : null;
+};
+
+/**
+ * ETag of a stored object, from its size and modification time
+ */
+const etagFor = ({ size, modifiedAt }: StoredObject): string =>
+  `"${size.toString(16)}-${modifiedAt.getTime().toString(16)}"`;
+
+/**
+ * The byte range sendStoredFile serves for a request, null for the whole file
+ */
+export const storedFileRange = (
+  req: express.Request,
+  object: StoredObject
+): ByteRange | 'unsatisfiable' | null =>
+  requestedRange(req, object.size, etagFor(object), object.modifiedAt);
+
+/**
+ * Why a requested filename cannot be served from out/, or null if it can.
+ * Rejects anything that could escape the directory and non-video files.
+ */
+export const invalidRenderFilename = (filename: string | undefined): string | null => {
+  if (!filename || filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
+    return 'Invalid filename';
+  }
+  if (!RENDER_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+    return 'Invalid file type';
+  }
+  return null;
+};
+
+type SendStoredFileOptions = {
+  storage: RenderStorage;
+  object: StoredObject;
+  /** Name offered to the browser */
+  filename: string;
+  /** Display in the browser instead of downloading */
+  inline: boolean;
+  /** Called when the file (or part of it) starts streaming, not for 304s or HEAD requests */
+  onSend?: () => void;
+  /** Called once the whole file has been sent in a single, non-ranged response */
+  onComplete?: () => void;
+};
+
+/**
+ * Stream an object from render storage with support for byte ranges
+ * (seeking, resuming) and conditional requests
+ */
+export const sendStoredFile = async (
+  req: express.Request,
+  res: express.Response,
+  { storage, object, filename, inline, onSend, onComplete }: SendStoredFileOptions
+): Promise<void> => {
+  const { size, modifiedAt } = object;
+  const etag = etagFor(object);
+
+  res.setHeader('Content-Type', contentTypeFor(filename));
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', modifiedAt.toUTCString());
+  // Files can be re-rendered under the same name, so always revalidate
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader(
+    'Content-Disposition',
+    `${inline ? 'inline' : 'attachment'}; filename="${filename}"`
+  );
+
+  // Conditional request (If-None-Match / If-Modified-Since)
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const range = requestedRange(req, size, etag, modifiedAt);
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  // Stream the file (or the requested part of it)
+  let stream: Readable;
+  try {
+    stream = await storage.read(object.key, range ?? undefined);
+  } catch (err) {
+    console.error('[Download] Read failed:', filename, (err as Error).message);
+    res.removeHeader('Content-Length');
+    res.removeHeader('Content-Range');
+    res.status(404).send('File not found');
+    return;
+  }
+
+  onSend?.();
+  stream.pipe(res);
+
+  // Partial and resumed downloads don't count as complete
+  if (onComplete && !range) {
+    res.on('finish', onComplete);
+  }
+
+  stream.on('error', (err) => {
+    console.error('[Download] Stream error:', filename, err.message);
+    if (!res.headersSent) {
+      res.status(500).send('Download failed');
+    } else {
+      res.destroy(err);
+    }
+  });
+};
+
+/**
+ * A rendered file as returned by GET /api/renders. Fields the sidecar would
+ * provide are null for renders without one.
+ */
+export type RenderListing = Omit<RenderMetadata, 'file' | 'source' | 'completedAt'> & {
+  name: string;
+  url: string;
+  size: number;
+  created: Date;
+  source: RenderMetadata['source'] | null;
+  /** Null until generated */
+  posterUrl: string | null;
+  previewUrl: string | null;
+};
+
+const SORT_KEYS = ['created', 'name', 'size', 'composition', 'duration'] as const;
+
+type SortKey = (typeof SORT_KEYS)[number];
+
+/**
+ * Filters shared by the listing and the ZIP archive
+ */
+export const renderFilterSchema = z.object({
+  composition: z.string().optional(),
+  /** Matches the id or email of whoever started the render */
+  user: z.string().optional(),
+  /** ISO timestamps; renders created at or after `from` and before `to` */
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+});
+
+export type RenderFilter = z.infer<typeof renderFilterSchema>;
+
+export const matchesRenderFilter = (
+  file: RenderListing,
+  { composition, user, from, to }: RenderFilter
+): boolean =>
+  (composition === undefined || file.compositionId === composition) &&
+  (user === undefined ||
+    file.triggeredBy?.id === user ||
+    file.triggeredBy?.email?.toLowerCase() === user.toLowerCase()) &&
+  (from === undefined || file.created.getTime() >= Date.parse(from)) &&
+  (to === undefined || file.created.getTime() < Date.parse(to));
+
+const listQuerySchema = renderFilterSchema.extend({
+  sort: z.enum(SORT_KEYS).default('created'),
+  /** Defaults to newest/largest/longest first, and A-Z for names */
+  order: z.enum(['asc', 'desc']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const compareBy: Record<SortKey, (a: RenderListing, b: RenderListing) => number> = {
+  created: (a, b) => a.created.getTime() - b.created.getTime(),
+  name: (a, b) => a.name.localeCompare(b.name),
+  size: (a, b) => a.size - b.size,
+  composition: (a, b) => a.compositionId.localeCompare(b.compositionId),
+  duration: (a, b) => (a.durationSeconds ?? 0) - (b.durationSeconds ?? 0),
+};
+
+/**
+ * Every rendered file in storage merged with its sidecar
+ */
+export const listRenders = async (storage: RenderStorage): Promise<RenderListing[]> => {
+  const [objects, previewObjects] = await Promise.all([
+    storage.list(),
+    storage.list(PREVIEW_PREFIX),
+  ]);
+  const previewKeys = new Set(previewObjects.map((object) => object.key));
+
+  return Promise.all(
+    objects
+      .filter((object) => RENDER_EXTENSIONS.includes(path.extname(object.key).toLowerCase()))
+      .map(async ({ key: f, size, modifiedAt }): Promise<RenderListing> => {
+        const metadata = await readRenderMetadata(storage, f);
+        return {
+          name: f,
+          url: `/out/${f}`,
+          size,
+          created: metadata ? new Date(metadata.completedAt) : modifiedAt,
+          compositionId: metadata?.compositionId ?? compositionIdFromFilename(f),
+          inputProps: metadata?.inputProps ?? null,
+          codec: metadata?.codec ?? null,
+          width: metadata?.width ?? null,
+          height: metadata?.height ?? null,
+          fps: metadata?.fps ?? null,
+          durationInFrames: metadata?.durationInFrames ?? null,
+          durationSeconds: metadata?.durationSeconds ?? null,
+          posterFrame: metadata?.posterFrame ?? null,
+          renderTimeMs: metadata?.renderTimeMs ?? null,
+          startedAt: metadata?.startedAt ?? null,
+          triggeredBy: metadata?.triggeredBy ?? null,
+          source: metadata?.source ?? null,
+          jobId: metadata?.jobId ?? null,
+          gitCommit: metadata?.gitCommit ?? null,
+          posterUrl: previewKeys.has(posterKey(f)) ? `/out/${f}/poster.jpg` : null,
+          previewUrl: previewKeys.has(previewClipKey(f)) ? `/out/${f}/preview.mp4` : null,
+        };
+      })
+  );
+};
+
+type RenderFileRouterOptions = {
+  storage: RenderStorage;
+  /** Null when preview generation is turned off */
+  previews: PreviewGenerator | null;
+  /** Redirect downloads to presigned URLs when the storage backend has them */
+  presignedDownloads: boolean;
+  /** Receives a deleted event for each render deleted through these routes */
+  events?: RenderEvents;
+  /** Records downloads and deletions */
+  audit?: AuditLog;
+};
+
+const posterRequestSchema = z.object({
+  frame: z.number().int().min(0),
+});
+
+export const createRenderFileRouter = ({
+  storage,
+  previews,
+  presignedDownloads,
+  events,
+  audit,
+}: RenderFileRouterOptions): express.Router => {
+  const router = express.Router();
+
+  // List rendered files (newest first unless sorted otherwise)
+  router.get('/api/renders', requireRole('viewer', 'renders:read'), async (req, res) => {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    const { sort, page, limit } = parsed.data;
+    const order = parsed.data.order ?? (sort === 'name' || sort === 'composition' ? 'asc' : 'desc');
+
+    try {
+      const matching = (await listRenders(storage))
+        .filter((file) => matchesRenderFilter(file, parsed.data))
+        .sort((a, b) => (order === 'asc' ? 1 : -1) * compareBy[sort](a, b));
+      return res.json({
+        files: matching.slice((page - 1) * limit, page * limit),
+        total: matching.length,
+        page,
+        limit,
+      });
+    } catch (err) {
+      console.error('Error listing renders:', err);
+      return res.status(500).json({ error: 'Failed to list renders' });
+    }
+  });
+
+  // Re-take a render's poster at another frame
+  router.post(
+    '/api/renders/:filename/poster',
+    requireRole('editor', 'renders:start'),
+    express.json(),
+    async (req: express.Request<{ filename: string }>, res) => {
+      const filename = req.params.filename;
+      const invalid = invalidRenderFilename(filename);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      if (!previews) {
+        return res.status(404).json({ error: 'Previews are turned off' });
+      }
+      const parsed = posterRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid poster request',
+          issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        });
+      }
+      const metadata = (await storage.stat(filename))
+        ? await readRenderMetadata(storage, filename)
+        : null;
+      if (!metadata) {
+        return res.status(404).json({ error: 'Render not found or has no metadata' });
+      }
+      const { frame } = parsed.data;
+      if (metadata.durationInFrames !== null && frame >= metadata.durationInFrames) {
+        return res.status(400).json({ error: `Frame must be below ${metadata.durationInFrames}` });
+      }
+
+      try {
+        await previews.regeneratePoster(metadata, frame);
+      } catch (err) {
+        console.error('[Preview] Poster failed for', filename, (err as Error).message);
+        return res.status(500).json({ error: 'Failed to render poster' });
+      }
+      return res.json({ posterUrl: `/out/${filename}/poster.jpg`, posterFrame: frame });
+    }
+  );
+
+  // Poster and preview clip of a render (404 until they have been generated)
+  const servePreviewFile =
+    (kind: 'poster' | 'preview') =>
+    async (req: express.Request<{ filename: string }>, res: express.Response): Promise<void> => {
+      const filename = req.params.filename;
+      const invalid = invalidRenderFilename(filename);
+      if (invalid) {
+        res.status(400).send(invalid);
+        return;
+      }
+      const key = kind === 'poster' ? posterKey(filename) : previewClipKey(filename);
+      const object = await storage.stat(key);
+      if (!object) {
+        res.status(404).send(`No ${kind} for this render`);
+        return;
+      }
+      await sendStoredFile(req, res, {
+        storage,
+        object,
+        filename: path.posix.basename(key),
+        inline: true,
+      });
+    };
+  router.get(
+    '/out/:filename/poster.jpg',
+    requireRole('viewer', 'renders:read'),
+    servePreviewFile('poster')
+  );
+  router.get(
+    '/out/:filename/preview.mp4',
+    requireRole('viewer', 'renders:read'),
+    servePreviewFile('preview')
+  );
+
+  // Serve rendered files with optional auto-cleanup after download
+  // (Express also routes HEAD requests here)
+  router.get(
+    '/out/:filename',
+    requireRole('viewer', 'renders:read'),
+    async (req: express.Request<{ filename: string }>, res) => {
+      const filename = req.params.filename;
+      const autoCleanup = req.query.cleanup === 'true';
+
+      // Deleting renders is reserved for admins and keys with the delete scope
+      if (autoCleanup && !isAllowed(res.locals, 'admin', 'renders:delete')) {
+        return res.status(403).send('Cleanup requires admin role');
+      }
+
+      const invalid = invalidRenderFilename(filename);
+      if (invalid) {
+        return res.status(400).send(invalid);
+      }
+
+      const object = await storage.stat(filename);
+      if (!object) {
+        return res.status(404).send('File not found');
+      }
+      const inline = req.query.inline === '1';
+
+      // Previews, HEAD requests and the rest of a resumed download aren't downloads
+      const download = !inline && req.method === 'GET' && !req.headers.range;
+      const recordDownload = (): void => {
+        audit?.record('download', req, renderUser(res.locals.user), { file: filename });
+      };
+
+      // Cleanup needs to see the download finish, so those always stream through here
+      if (presignedDownloads && !autoCleanup) {
+        const url = await storage.presignedUrl(filename, {
+          expiresInSeconds: PRESIGNED_URL_TTL_SECONDS,
+          filename,
+          inline,
+        });
+        if (url) {
+          if (download) {
+            recordDownload();
+          }
+          return res.redirect(302, url);
+        }
+      }
+
+      return sendStoredFile(req, res, {
+        storage,
+        object,
+        filename,
+        inline,
+        // Revalidations answered with 304 send nothing, so they aren't downloads either
+        ...(download && { onSend: recordDownload }),
+        // Delete file once it has been downloaded completely (if cleanup requested).
+        // Partial and resumed downloads keep the file so the client can fetch the rest.
+        ...(autoCleanup && {
+          onComplete: (): void => {
+            deleteRender(storage, filename).then(
+              () => {
+                console.log('[Cleanup] Deleted after successful download:', filename);
+                audit?.record('delete', req, renderUser(res.locals.user), {
+                  file: filename,
+                  reason: 'cleanup',
+                });
+                events?.emit({ type: 'deleted', file: filename, reason: 'cleanup' });
+              },
+              (err: unknown) =>
+                console.error(
+                  '[Cleanup] Failed to delete after download:',
+                  filename,
+                  (err as Error).message
+                )
+            );
+          },
+        }),
+      });
+    }
+  );
+
+  // Delete a render with its sidecar and previews
+  router.delete(
+    '/api/renders/:filename',
+    requireRole('admin', 'renders:delete'),
+    async (req: express.Request<{ filename: string }>, res) => {
+      const filename = req.params.filename;
+      const invalid = invalidRenderFilename(filename);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      if (!(await storage.stat(filename))) {
+        return res.status(404).json({ error: 'Render not found' });
+      }
+
+      await deleteRender(storage, filename);
+      console.log(
+        '[Cleanup] Deleted',
+        filename,
+        'by',
+        res.locals.user?.email ?? res.locals.user?.id
+      );
+      events?.emit({ type: 'deleted', file: filename, reason: 'manual' });
+      audit?.record('delete', req, renderUser(res.locals.user), {
+        file: filename,
+        reason: 'manual',
+      });
+      return res.status(204).end();
+    }
+  );
+
+  return router;
+};
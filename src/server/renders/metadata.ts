@@ -0,0 +1,166 @@
+/**
+ * Render metadata sidecars
+ *
+ * Every finished render in out/ gets a JSON file next to it
+ * (`<file>.json`) describing how it was made: composition, input props,
+ * codec, dimensions, timing, who started it and which commit of the
+ * project rendered it. The listing API reads these to filter and sort
+ * renders; files without a sidecar (older renders) are still listed with
+ * whatever can be derived from the filename.
+ *
+ * Sidecars are kept in render storage next to their render.
+ */
+
+import { execFileSync } from 'child_process';
+import { randomBytes } from 'crypto';
+import type { AuthUser } from '../auth/types';
+import type { RenderStorage } from '../storage/types';
+import { posterKey, previewClipKey } from './previews';
+import type { RenderedVideo, RenderUser } from './types';
+
+export type RenderMetadata = {
+  /** File name inside out/ */
+  file: string;
+  compositionId: string;
+  /** Null when unknown (e.g. a Studio render with custom-schema props) */
+  inputProps: Record<string, unknown> | null;
+  codec: string | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  durationInFrames: number | null;
+  durationSeconds: number | null;
+  /** Frame the poster thumbnail was (or is to be) taken from; null for the default */
+  posterFrame: number | null;
+  /** Wall-clock time from start to finished file */
+  renderTimeMs: number | null;
+  /** ISO timestamps */
+  startedAt: string | null;
+  completedAt: string;
+  triggeredBy: RenderUser | null;
+  /** Render queue (API) or Remotion Studio */
+  source: 'api' | 'studio';
+  jobId: string | null;
+  /** Commit of this project the render was made from */
+  gitCommit: string | null;
+};
+
+/**
+ * The parts of the signed-in user recorded with a render
+ */
+export const renderUser = (user: AuthUser | undefined): RenderUser | null =>
+  user ? { id: user.id, email: user.email } : null;
+
+/**
+ * Storage key of the sidecar describing a rendered file
+ */
+export const sidecarKey = (file: string): string => `${file}.json`;
+
+/**
+ * The sidecar of a render, or null when it has none (or it is unreadable)
+ */
+export const readRenderMetadata = async (
+  storage: RenderStorage,
+  file: string
+): Promise<RenderMetadata | null> => {
+  if (!(await storage.stat(sidecarKey(file)))) {
+    return null;
+  }
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.read(sidecarKey(file))) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as RenderMetadata;
+  } catch (err) {
+    console.error('[Render] Ignoring unreadable metadata for', file, (err as Error).message);
+    return null;
+  }
+};
+
+export const writeRenderMetadata = async (
+  storage: RenderStorage,
+  metadata: RenderMetadata
+): Promise<void> => {
+  try {
+    await storage.write(
+      sidecarKey(metadata.file),
+      JSON.stringify(metadata, null, 2),
+      'application/json'
+    );
+  } catch (err) {
+    console.error('[Render] Failed to write metadata for', metadata.file, (err as Error).message);
+  }
+};
+
+/**
+ * Delete a rendered file together with its sidecar, poster and preview clip
+ */
+export const deleteRender = async (storage: RenderStorage, file: string): Promise<void> => {
+  await storage.delete(file);
+  await Promise.all(
+    [sidecarKey(file), posterKey(file), previewClipKey(file)].map((key) => storage.delete(key))
+  );
+};
+
+/**
+ * A new, unique file name for a render of `compositionId`:
+ * `<compositionId>-<8 hex chars>.<extension>`
+ */
+export const versionedFilename = (compositionId: string, extension: string): string =>
+  `${compositionId}-${randomBytes(4).toString('hex')}.${extension}`;
+
+/**
+ * Dimensions, fps and duration of a video file without a known composition
+ */
+export type VideoProbe = (filePath: string) => Promise<RenderedVideo | null>;
+
+/**
+ * Probe with @remotion/renderer (imported lazily, like the render backend)
+ */
+export const probeWithRemotion: VideoProbe = async (filePath) => {
+  try {
+    const { getVideoMetadata } = await import('@remotion/renderer');
+    const { width, height, fps, durationInSeconds } = await getVideoMetadata(filePath);
+    return {
+      width,
+      height,
+      fps,
+      durationInFrames: durationInSeconds === null ? null : Math.round(durationInSeconds * fps),
+    };
+  } catch (err) {
+    console.error('[Render] Could not read video metadata:', filePath, (err as Error).message);
+    return null;
+  }
+};
+
+/**
+ * Current commit of the project checkout, or null outside a git repository
+ * (e.g. in a Docker image - set GIT_COMMIT there instead)
+ */
+export const readGitCommit = (cwd: string): string | null => {
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], {
+      cwd,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    }).trim();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Metadata fields derived from what the renderer reported
+ */
+export const videoFields = (
+  video: RenderedVideo | null
+): Pick<RenderMetadata, 'width' | 'height' | 'fps' | 'durationInFrames' | 'durationSeconds'> => ({
+  width: video?.width ?? null,
+  height: video?.height ?? null,
+  fps: video?.fps ?? null,
+  durationInFrames: video?.durationInFrames ?? null,
+  durationSeconds:
+    video && video.durationInFrames !== null ? video.durationInFrames / video.fps : null,
+});
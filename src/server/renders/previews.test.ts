@@ -0,0 +1,204 @@
+/**
+ * Tests for poster thumbnails and preview clips
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createRenderEvents } from './events';
+import type { RenderEvent, RenderEvents } from './events';
+import { deleteRender, readRenderMetadata, writeRenderMetadata } from './metadata';
+import type { RenderMetadata } from './metadata';
+import { createLocalStorage } from '../storage/local';
+import type { RenderStorage } from '../storage/types';
+import { createPreviewGenerator, defaultPosterFrame, posterKey, previewClipKey } from './previews';
+import { createRenderSlots } from './slots';
+import type { RenderSlots } from './slots';
+import type { PreviewBackend } from './types';
+
+const metadata = (file: string): RenderMetadata => ({
+  file,
+  compositionId: 'logo',
+  inputProps: { holdSeconds: 0.5 },
+  codec: 'h264',
+  width: 1920,
+  height: 1080,
+  fps: 60,
+  durationInFrames: 180,
+  durationSeconds: 3,
+  posterFrame: null,
+  renderTimeMs: 1000,
+  startedAt: null,
+  completedAt: new Date().toISOString(),
+  triggeredBy: null,
+  source: 'api',
+  jobId: null,
+  gitCommit: null,
+});
+
+describe('Default poster frame', () => {
+  it('should use the end of the hold phase', () => {
+    expect(defaultPosterFrame({ revealSeconds: 1.5, holdSeconds: 1 }, 180, 60)).toBe(149);
+    expect(defaultPosterFrame({ revealSeconds: 1.5, holdSeconds: 1 }, 90, 30)).toBe(74);
+  });
+
+  it('should take legacy phase props as frames', () => {
+    const props = { revealSeconds: 1.5, holdSeconds: 1, revealDuration: 90, holdDuration: 30 };
+    expect(defaultPosterFrame(props, 180, 60)).toBe(119);
+  });
+
+  it('should fall back to the middle without phase props', () => {
+    expect(defaultPosterFrame({}, 180, 60)).toBe(90);
+  });
+
+  it('should stay inside the composition', () => {
+    expect(defaultPosterFrame({ revealSeconds: 3, holdSeconds: 1 }, 180, 60)).toBe(179);
+  });
+});
+
+describe('Preview generator', () => {
+  let outDir: string;
+  let storage: RenderStorage;
+  let events: RenderEvents;
+  let received: RenderEvent[];
+  let posterRequests: { inputProps: Record<string, unknown>; frame: number | null }[];
+  let failPreview: boolean;
+  let slots: RenderSlots;
+
+  const backend: PreviewBackend = {
+    renderPoster: (request, frame, outputLocation) => {
+      posterRequests.push({ inputProps: request.inputProps, frame });
+      fs.writeFileSync(outputLocation, 'jpeg');
+      return Promise.resolve(frame ?? 149);
+    },
+    renderPreview: (_request, outputLocation) => {
+      fs.writeFileSync(outputLocation, 'partial');
+      return failPreview ? Promise.reject(new Error('Chrome crashed')) : Promise.resolve();
+    },
+  };
+
+  const render = async (file: string): Promise<RenderMetadata> => {
+    fs.writeFileSync(path.join(outDir, file), 'video');
+    await writeRenderMetadata(storage, metadata(file));
+    return metadata(file);
+  };
+
+  const generator = (withEvents = true): ReturnType<typeof createPreviewGenerator> =>
+    createPreviewGenerator({
+      storage,
+      workDir: path.join(outDir, '.partial'),
+      backend,
+      slots,
+      ...(withEvents && { events }),
+    });
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'previews-test-'));
+    storage = createLocalStorage({ root: outDir });
+    events = createRenderEvents({ outDir, stableAfterMs: 60_000 });
+    received = [];
+    events.subscribe(({ event }) => {
+      // The watcher also announces the render files the tests write
+      if (event.type === 'preview-ready') {
+        received.push(event);
+      }
+    });
+    posterRequests = [];
+    failPreview = false;
+    slots = createRenderSlots(1);
+  });
+
+  afterEach(() => {
+    events.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should render poster and preview clip and record the poster frame', async () => {
+    await generator().generate(await render('logo-00000001.mp4'));
+
+    expect(posterRequests).toEqual([{ inputProps: { holdSeconds: 0.5 }, frame: null }]);
+    expect(await storage.stat(posterKey('logo-00000001.mp4'))).not.toBeNull();
+    expect(await storage.stat(previewClipKey('logo-00000001.mp4'))).not.toBeNull();
+    expect((await readRenderMetadata(storage, 'logo-00000001.mp4'))?.posterFrame).toBe(149);
+    // Work files are cleaned up once stored
+    expect(fs.readdirSync(path.join(outDir, '.partial'))).toEqual([]);
+    expect(received).toEqual([
+      {
+        type: 'preview-ready',
+        file: 'logo-00000001.mp4',
+        posterUrl: '/out/logo-00000001.mp4/poster.jpg',
+        previewUrl: '/out/logo-00000001.mp4/preview.mp4',
+      },
+    ]);
+  });
+
+  it('should keep the poster when the preview clip fails', async () => {
+    failPreview = true;
+    await generator().generate(await render('logo-00000001.mp4'));
+
+    expect(await storage.stat(posterKey('logo-00000001.mp4'))).not.toBeNull();
+    expect(await storage.stat(previewClipKey('logo-00000001.mp4'))).toBeNull();
+    expect(received).toMatchObject([{ type: 'preview-ready', previewUrl: null }]);
+  });
+
+  it('should discard previews of renders deleted while generating', async () => {
+    const previews = generator();
+    const first = await render('logo-00000001.mp4');
+    const second = await render('logo-00000002.mp4');
+
+    const pending = Promise.all([previews.generate(first), previews.generate(second)]);
+    await deleteRender(storage, 'logo-00000002.mp4');
+    await pending;
+
+    expect(fs.readdirSync(path.join(outDir, '.previews')).sort()).toEqual([
+      'logo-00000001.mp4.poster.jpg',
+      'logo-00000001.mp4.preview.mp4',
+    ]);
+  });
+
+  it('should not reject when storage fails once the previews are stored', async () => {
+    const file = 'logo-00000001.mp4';
+    const { stat, importFile } = storage;
+    let storageDown = false;
+    storage.importFile = async (key, ...rest): Promise<void> => {
+      await importFile(key, ...rest);
+      storageDown ||= key === previewClipKey(file);
+    };
+    storage.stat = (key): ReturnType<RenderStorage['stat']> =>
+      storageDown ? Promise.reject(new Error('S3 unreachable')) : stat(key);
+    const previews = generator();
+
+    await expect(previews.generate(await render(file))).resolves.toBeUndefined();
+    await expect(previews.regeneratePoster(metadata(file), 12)).rejects.toThrow('S3 unreachable');
+
+    // Storage is back for the poster, but not when announcing it
+    storageDown = false;
+    storage.stat = (key): ReturnType<RenderStorage['stat']> =>
+      key === previewClipKey(file) ? Promise.reject(new Error('S3 unreachable')) : stat(key);
+    await expect(previews.regeneratePoster(metadata(file), 12)).resolves.toBeUndefined();
+    expect(received).toEqual([]);
+  });
+
+  it('should wait for a render slot held by the render queue', async () => {
+    const release = await slots.acquire();
+    const done = generator().generate(await render('logo-00000001.mp4'));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(posterRequests).toEqual([]);
+
+    release();
+    await done;
+    expect(posterRequests).toHaveLength(1);
+    expect(await storage.stat(previewClipKey('logo-00000001.mp4'))).not.toBeNull();
+  });
+
+  it('should re-take a poster at a chosen frame', async () => {
+    await generator(false).regeneratePoster(await render('logo-00000001.mp4'), 12);
+
+    expect(posterRequests.map((request) => request.frame)).toEqual([12]);
+    expect((await readRenderMetadata(storage, 'logo-00000001.mp4'))?.posterFrame).toBe(12);
+  });
+});
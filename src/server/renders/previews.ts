@@ -0,0 +1,187 @@
+/**
+ * Poster thumbnails and preview clips
+ *
+ * After each render a poster JPEG and a short, low-resolution preview clip
+ * are rendered from the same composition and input props, so the downloads
+ * page can show what each file contains. They are rendered into a local
+ * work directory and then kept in render storage under `.previews/`, out of
+ * sight of the file listing, the event watcher and the retention sweeper,
+ * and are deleted together with their render.
+ *
+ * The poster is taken at a chosen frame, or by default at the end of the
+ * hold phase for compositions with `revealSeconds` / `holdSeconds` props
+ * (the moment the logo is fully visible), otherwise from the middle. The
+ * legacy `revealDuration` / `holdDuration` props are in frames and win over
+ * the seconds, as in the compositions.
+ *
+ * Generation runs one file at a time in the background; a failure only
+ * means the render has no preview.
+ */
+
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { RenderStorage } from '../storage/types';
+import type { RenderEvents } from './events';
+import { readRenderMetadata, writeRenderMetadata } from './metadata';
+import type { RenderMetadata } from './metadata';
+import type { RenderSlots } from './slots';
+import type { PreviewBackend, PreviewRequest } from './types';
+
+export const PREVIEW_PREFIX = '.previews/';
+
+export const posterKey = (file: string): string => `${PREVIEW_PREFIX}${file}.poster.jpg`;
+
+export const previewClipKey = (file: string): string => `${PREVIEW_PREFIX}${file}.preview.mp4`;
+
+const previewRequest = (metadata: RenderMetadata): PreviewRequest => ({
+  compositionId: metadata.compositionId,
+  inputProps: metadata.inputProps ?? {},
+});
+
+/**
+ * Frame to take the poster from when none was chosen
+ */
+export const defaultPosterFrame = (
+  props: Record<string, unknown>,
+  durationInFrames: number,
+  fps: number
+): number => {
+  const phaseFrames = (frames: unknown, seconds: unknown): number | null => {
+    if (typeof frames === 'number') {
+      return frames;
+    }
+    return typeof seconds === 'number' ? seconds * fps : null;
+  };
+  const reveal = phaseFrames(props.revealDuration, props.revealSeconds);
+  const hold = phaseFrames(props.holdDuration, props.holdSeconds);
+  const frame =
+    reveal !== null && hold !== null ? reveal + hold - 1 : Math.floor(durationInFrames / 2);
+  return Math.min(Math.max(Math.round(frame), 0), durationInFrames - 1);
+};
+
+type PreviewGeneratorOptions = {
+  storage: RenderStorage;
+  /** Local directory posters and clips are rendered into before storing them */
+  workDir: string;
+  backend: PreviewBackend;
+  /** Render slots shared with the render queue, so previews count against its concurrency */
+  slots: RenderSlots;
+  /** Announces finished previews so open pages can show them */
+  events?: RenderEvents;
+};
+
+export type PreviewGenerator = {
+  /**
+   * Queue poster and preview clip for a render described by its metadata.
+   * Resolves once both are done (or failed).
+   */
+  generate: (metadata: RenderMetadata) => Promise<void>;
+  /**
+   * Re-render only the poster of an existing render at `frame`.
+   * Rejects when rendering fails.
+   */
+  regeneratePoster: (metadata: RenderMetadata, frame: number) => Promise<void>;
+};
+
+export const createPreviewGenerator = ({
+  storage,
+  workDir,
+  backend,
+  slots,
+  events,
+}: PreviewGeneratorOptions): PreviewGenerator => {
+  // One generation at a time, each render in a slot so previews never add to the renders running
+  let chain: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = chain.then(task);
+    chain = result.catch(() => undefined);
+    return result;
+  };
+
+  const workFile = (extension: string): string => {
+    fs.mkdirSync(workDir, { recursive: true });
+    return path.join(workDir, `preview-${randomBytes(4).toString('hex')}.${extension}`);
+  };
+
+  const renderPoster = async (metadata: RenderMetadata, frame: number | null): Promise<void> => {
+    const poster = workFile('jpg');
+    try {
+      const posterFrame = await slots.run(() =>
+        backend.renderPoster(previewRequest(metadata), frame, poster)
+      );
+
+      // The render may have been deleted meanwhile
+      const current = await readRenderMetadata(storage, metadata.file);
+      if (current && (await storage.stat(metadata.file))) {
+        await storage.importFile(posterKey(metadata.file), poster, 'image/jpeg');
+        await writeRenderMetadata(storage, { ...current, posterFrame });
+      }
+    } finally {
+      fs.rmSync(poster, { force: true });
+    }
+  };
+
+  const renderClip = async (metadata: RenderMetadata): Promise<void> => {
+    const clip = workFile('mp4');
+    try {
+      await slots.run(() => backend.renderPreview(previewRequest(metadata), clip));
+      if (await storage.stat(metadata.file)) {
+        await storage.importFile(previewClipKey(metadata.file), clip, 'video/mp4');
+      }
+    } finally {
+      fs.rmSync(clip, { force: true });
+    }
+  };
+
+  // Only tells open pages, so a storage error is logged rather than thrown
+  const announce = async (file: string): Promise<void> => {
+    try {
+      const preview = await storage.stat(previewClipKey(file));
+      events?.emit({
+        type: 'preview-ready',
+        file,
+        posterUrl: `/out/${file}/poster.jpg`,
+        previewUrl: preview ? `/out/${file}/preview.mp4` : null,
+      });
+    } catch (err) {
+      console.error('[Preview] Could not announce previews of', file, (err as Error).message);
+    }
+  };
+
+  return {
+    generate: (metadata): Promise<void> =>
+      enqueue(async () => {
+        try {
+          await renderPoster(metadata, metadata.posterFrame);
+        } catch (err) {
+          console.error('[Preview] Poster failed for', metadata.file, (err as Error).message);
+          return;
+        }
+
+        try {
+          await renderClip(metadata);
+        } catch (err) {
+          console.error('[Preview] Preview clip failed for', metadata.file, (err as Error).message);
+        }
+
+        try {
+          if (!(await storage.stat(metadata.file))) {
+            return;
+          }
+        } catch (err) {
+          console.error('[Preview] Could not check', metadata.file, (err as Error).message);
+          return;
+        }
+        console.log('[Preview] Ready:', metadata.file);
+        await announce(metadata.file);
+      }),
+
+    regeneratePoster: (metadata, frame): Promise<void> =>
+      enqueue(async () => {
+        await renderPoster(metadata, frame);
+        console.log('[Preview] Poster updated:', metadata.file, `(frame ${frame})`);
+        await announce(metadata.file);
+      }),
+  };
+};
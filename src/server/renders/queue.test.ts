@@ -0,0 +1,395 @@
+/**
+ * Tests for the persistent render queue
+ * Covers concurrency, priority ordering, partial output handling and crash recovery
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLocalStorage } from '../storage/local';
+import type { RenderStorage } from '../storage/types';
+import { createRenderEvents } from './events';
+import type { RenderEvent, RenderEvents } from './events';
+import { readRenderMetadata } from './metadata';
+import { createRenderQueue } from './queue';
+import { createRenderSlots } from './slots';
+import type { RenderBackend, RenderedVideo, RenderJob, RenderRequest } from './types';
+
+type PendingRender = {
+  request: RenderRequest;
+  outputLocation: string;
+  finish: () => void;
+  fail: (err: Error) => void;
+  /** Registers the canceller, which a deferred backend has not done yet */
+  registerCancel: () => void;
+};
+
+/**
+ * Backend whose renders only complete when the test says so. With
+ * `deferCancel`, it registers its canceller only when the test says so,
+ * like the real backend, which does so after bundling.
+ */
+const createControlledBackend = ({ deferCancel = false } = {}): {
+  backend: RenderBackend;
+  pending: PendingRender[];
+} => {
+  const pending: PendingRender[] = [];
+  const backend: RenderBackend = {
+    render: (request, outputLocation, { onCancel }) =>
+      new Promise<RenderedVideo>((resolve, reject) => {
+        const registerCancel = (): void => onCancel(() => reject(new Error('Cancelled')));
+        if (!deferCancel) {
+          registerCancel();
+        }
+        pending.push({
+          request,
+          outputLocation,
+          registerCancel,
+          finish: () => {
+            fs.writeFileSync(outputLocation, 'video');
+            resolve({ width: 1920, height: 1080, fps: 30, durationInFrames: 90 });
+          },
+          fail: reject,
+        });
+      }),
+  };
+  return { backend, pending };
+};
+
+const request = (compositionId: string): RenderRequest => ({
+  compositionId,
+  inputProps: {},
+  codec: 'h264',
+  posterFrame: null,
+});
+
+describe('Render queue', () => {
+  let tmpDir: string;
+  let outDir: string;
+  let stateFile: string;
+  let storage: RenderStorage;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-queue-'));
+    outDir = path.join(tmpDir, 'out');
+    stateFile = path.join(tmpDir, 'state', 'render-jobs.json');
+    fs.mkdirSync(outDir);
+    storage = createLocalStorage({ root: outDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should not run more jobs than the concurrency limit', async () => {
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(2),
+      maxAttempts: 2,
+      backend,
+    });
+
+    const jobs = [
+      queue.create(request('a'), 0, null),
+      queue.create(request('b'), 0, null),
+      queue.create(request('c'), 0, null),
+    ];
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    expect(jobs.map((job) => job.status)).toEqual(['rendering', 'rendering', 'queued']);
+
+    pending[0]?.finish();
+    await vi.waitFor(() => expect(pending).toHaveLength(3));
+
+    expect(queue.get(jobs[0]!.id)?.status).toBe('done');
+  });
+
+  it('should wait for render slots taken by previews', async () => {
+    const { backend, pending } = createControlledBackend();
+    const slots = createRenderSlots(1);
+    const releasePreview = await slots.acquire();
+    const queue = createRenderQueue({ outDir, storage, stateFile, slots, maxAttempts: 2, backend });
+
+    const job = queue.create(request('a'), 0, null);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(job.status).toBe('queued');
+
+    releasePreview();
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    expect(job.status).toBe('rendering');
+  });
+
+  it('should render higher priorities first and equal priorities in FIFO order', async () => {
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend,
+    });
+
+    queue.create(request('first'), 0, null);
+    queue.create(request('low'), -1, null);
+    queue.create(request('normal'), 0, null);
+    queue.create(request('urgent'), 5, null);
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    // Finishing a render moves it into storage before the next one starts
+    for (let i = 0; i < 3; i++) {
+      pending[i]?.finish();
+      await vi.waitFor(() => expect(pending).toHaveLength(i + 2));
+    }
+
+    expect(pending.map((p) => p.request.compositionId)).toEqual([
+      'first',
+      'urgent',
+      'normal',
+      'low',
+    ]);
+  });
+
+  it('should only move finished renders into the output directory', async () => {
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend,
+    });
+
+    const job = queue.create(request('logo'), 0, null);
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    expect(pending[0]?.outputLocation.startsWith(path.join(outDir, '.partial'))).toBe(true);
+    expect(fs.readdirSync(outDir)).toEqual(['.partial']);
+
+    pending[0]?.finish();
+    await vi.waitFor(() => expect(job.status).toBe('done'));
+
+    expect(job.outputFile).toMatch(/^logo-[0-9a-f]{8}\.mp4$/);
+    expect(fs.existsSync(path.join(outDir, job.outputFile!))).toBe(true);
+  });
+
+  it('should write a metadata sidecar for finished renders', async () => {
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend,
+      gitCommit: 'abc1234',
+    });
+
+    const job = queue.create(
+      { compositionId: 'logo', inputProps: { title: 'Hello' }, codec: 'vp9', posterFrame: 12 },
+      0,
+      { id: 'user-1', email: 'editor@example.com' }
+    );
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    pending[0]?.finish();
+
+    const metadata = await vi.waitFor(async () => {
+      expect(job.outputFile).not.toBeNull();
+      const written = await readRenderMetadata(storage, job.outputFile!);
+      expect(written).not.toBeNull();
+      return written;
+    });
+    expect(metadata).toMatchObject({
+      file: job.outputFile,
+      compositionId: 'logo',
+      inputProps: { title: 'Hello' },
+      codec: 'vp9',
+      width: 1920,
+      height: 1080,
+      fps: 30,
+      durationInFrames: 90,
+      durationSeconds: 3,
+      posterFrame: 12,
+      triggeredBy: { id: 'user-1', email: 'editor@example.com' },
+      source: 'api',
+      jobId: job.id,
+      gitCommit: 'abc1234',
+    });
+    expect(metadata?.renderTimeMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should mark failed renders and remove their partial output', async () => {
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend,
+    });
+
+    const job = queue.create(request('logo'), 0, null);
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    fs.writeFileSync(pending[0]!.outputLocation, 'half a video');
+    pending[0]?.fail(new Error('Chrome crashed'));
+    await vi.waitFor(() => expect(job.status).toBe('failed'));
+
+    expect(job.error).toBe('Chrome crashed');
+    expect(fs.existsSync(pending[0]!.outputLocation)).toBe(false);
+  });
+
+  describe('Cancellation', () => {
+    let events: RenderEvents;
+    let received: RenderEvent['type'][];
+    let rendered: string[];
+
+    beforeEach(() => {
+      events = createRenderEvents({ outDir, stableAfterMs: 60_000 });
+      received = [];
+      rendered = [];
+      events.subscribe(({ event }) => {
+        if ('jobId' in event && event.type !== 'progress') {
+          received.push(event.type);
+        }
+      });
+    });
+
+    afterEach(() => {
+      events.close();
+    });
+
+    const cancellableQueue = (backend: RenderBackend): ReturnType<typeof createRenderQueue> =>
+      createRenderQueue({
+        outDir,
+        storage,
+        stateFile,
+        slots: createRenderSlots(1),
+        maxAttempts: 2,
+        backend,
+        events,
+        onRendered: (metadata) => rendered.push(metadata.file),
+      });
+
+    it('should cancel an active job when it is removed', async () => {
+      const { backend, pending } = createControlledBackend();
+      const queue = cancellableQueue(backend);
+
+      const job = queue.create(request('a'), 0, null);
+      queue.create(request('b'), 0, null);
+      await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+      expect(queue.remove(job.id)).toBe(true);
+      await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+      expect(queue.get(job.id)).toBeUndefined();
+      expect(pending.map((p) => p.request.compositionId)).toEqual(['a', 'b']);
+      expect(received).toEqual(['started', 'cancelled', 'started']);
+      expect(queue.remove('unknown')).toBe(false);
+    });
+
+    it('should abort a job removed before its canceller was registered', async () => {
+      const { backend, pending } = createControlledBackend({ deferCancel: true });
+      const queue = cancellableQueue(backend);
+
+      const job = queue.create(request('a'), 0, null);
+      await vi.waitFor(() => expect(pending).toHaveLength(1));
+      queue.remove(job.id);
+      pending[0]?.registerCancel();
+
+      await vi.waitFor(() => expect(received).toContain('cancelled'));
+      expect(received).toEqual(['started', 'cancelled']);
+    });
+
+    it('should discard the output of a removed job that finishes anyway', async () => {
+      const { backend, pending } = createControlledBackend({ deferCancel: true });
+      const queue = cancellableQueue(backend);
+
+      const job = queue.create(request('a'), 0, null);
+      await vi.waitFor(() => expect(pending).toHaveLength(1));
+      queue.remove(job.id);
+      pending[0]?.finish();
+
+      await vi.waitFor(() => expect(received).toContain('cancelled'));
+      expect(received).toEqual(['started', 'cancelled']);
+      expect(rendered).toEqual([]);
+      expect(await storage.list()).toEqual([]);
+      expect(fs.readdirSync(path.join(outDir, '.partial'))).toEqual([]);
+    });
+  });
+
+  it('should re-queue interrupted jobs and fail them once attempts are used up', async () => {
+    const interrupted = (id: string, attempts: number): RenderJob => ({
+      ...request(id),
+      id,
+      priority: 0,
+      attempts,
+      status: 'rendering',
+      triggeredBy: null,
+      progress: 0.5,
+      outputFile: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    });
+    fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+    fs.writeFileSync(
+      stateFile,
+      JSON.stringify({ jobs: [interrupted('retry', 1), interrupted('give-up', 2)] })
+    );
+    fs.mkdirSync(path.join(outDir, '.partial'));
+    fs.writeFileSync(path.join(outDir, '.partial', 'leftover.mp4'), 'half a video');
+
+    const { backend, pending } = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend,
+    });
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    expect(queue.get('retry')?.status).toBe('rendering');
+    expect(queue.get('retry')?.attempts).toBe(2);
+    expect(queue.get('give-up')?.status).toBe('failed');
+    expect(fs.existsSync(path.join(outDir, '.partial', 'leftover.mp4'))).toBe(false);
+  });
+
+  it('should persist queued jobs across instances', async () => {
+    const first = createControlledBackend();
+    const queue = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend: first.backend,
+    });
+    queue.create(request('a'), 0, null);
+    const waiting = queue.create(request('b'), 0, null);
+    await vi.waitFor(() => expect(first.pending).toHaveLength(1));
+
+    const second = createControlledBackend();
+    const restarted = createRenderQueue({
+      outDir,
+      storage,
+      stateFile,
+      slots: createRenderSlots(1),
+      maxAttempts: 2,
+      backend: second.backend,
+    });
+
+    expect(restarted.get(waiting.id)?.status).toBe('queued');
+    expect(restarted.list()).toHaveLength(2);
+  });
+});
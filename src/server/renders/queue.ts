@@ -0,0 +1,314 @@
+/**
+ * Persistent render queue
+ *
+ * Jobs started through the API wait in a queue ordered by priority (higher
+ * first), then FIFO. Each job renders in one of the shared render slots (see
+ * ./slots), so a single container never runs more Chrome instances than it
+ * can handle, previews included.
+ *
+ * Crash safety:
+ * - Job state is saved to a JSON file on every status change
+ * - Renders write into out/.partial/ and are moved into render storage only
+ *   when complete, so /api/renders never lists a half-written file
+ * - On startup, jobs that were rendering are re-queued (or marked failed once
+ *   they have used up their attempts) and leftover partial files are removed
+ *
+ * Each finished render gets a metadata sidecar (see ./metadata).
+ *
+ * Removing a rendering job cancels it: the backend is aborted (as soon as it
+ * can be, if it has not registered its canceller yet), anything it still
+ * produces is discarded and a `cancelled` event is emitted instead of
+ * `completed` or `failed`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from '../json-file';
+import { contentTypeFor } from '../storage/content-types';
+import type { RenderStorage } from '../storage/types';
+import type { RenderEvents } from './events';
+import { deleteRender, videoFields, writeRenderMetadata } from './metadata';
+import type { RenderMetadata } from './metadata';
+import type { RenderSlots } from './slots';
+import type { RenderBackend, RenderJob, RenderRequest, RenderUser } from './types';
+import { CODEC_EXTENSIONS } from './types';
+
+/** Finished jobs kept in the state file for status lookups */
+const MAX_FINISHED_JOBS = 200;
+
+type RenderQueueOptions = {
+  /** Local directory renders are written to (in its .partial/ subdirectory) */
+  outDir: string;
+  /** Where finished renders are kept */
+  storage: RenderStorage;
+  /** JSON file the queue state is persisted to */
+  stateFile: string;
+  /** Limits the renders running at once, shared with preview generation */
+  slots: RenderSlots;
+  /** Attempts per job before a job interrupted by a restart is marked failed */
+  maxAttempts: number;
+  backend: RenderBackend;
+  /** Receives started, progress, completed, failed and cancelled events for each job */
+  events?: RenderEvents;
+  /** Commit recorded in render metadata */
+  gitCommit?: string | null;
+  /** Called with the metadata of each finished render (e.g. to generate previews) */
+  onRendered?: (metadata: RenderMetadata) => void;
+};
+
+type PersistedQueue = {
+  jobs: RenderJob[];
+};
+
+export type RenderQueue = {
+  /** Adds a job to the queue and starts it as soon as a slot is free */
+  create: (request: RenderRequest, priority: number, triggeredBy: RenderUser | null) => RenderJob;
+  get: (id: string) => RenderJob | undefined;
+  /** All known jobs, newest first */
+  list: () => RenderJob[];
+  /** Cancels a queued or active job and forgets it. Returns false for unknown ids. */
+  remove: (id: string) => boolean;
+};
+
+export const createRenderQueue = ({
+  outDir,
+  storage,
+  stateFile,
+  slots,
+  maxAttempts,
+  backend,
+  events,
+  gitCommit = null,
+  onRendered,
+}: RenderQueueOptions): RenderQueue => {
+  const partialDir = path.join(outDir, '.partial');
+  const jobs = new Map<string, RenderJob>();
+  const cancellers = new Map<string, () => void>();
+  /** Ids of removed jobs that were still rendering */
+  const cancelled = new Set<string>();
+  /** Whether the queue is already waiting for a slot for its next job */
+  let waitingForSlot = false;
+
+  const persist = (): void => {
+    const all = [...jobs.values()];
+    const unfinished = all.filter((job) => job.status === 'queued' || job.status === 'rendering');
+    const finished = all
+      .filter((job) => job.status === 'done' || job.status === 'failed')
+      .slice(-MAX_FINISHED_JOBS);
+
+    // Drop the oldest finished jobs from memory too, so both stay in sync
+    for (const job of all) {
+      if (!unfinished.includes(job) && !finished.includes(job)) {
+        jobs.delete(job.id);
+      }
+    }
+
+    try {
+      writeJsonFile(stateFile, { jobs: [...jobs.values()] } satisfies PersistedQueue);
+    } catch (err) {
+      console.error('[Render] Failed to save queue state:', (err as Error).message);
+    }
+  };
+
+  const recover = (): void => {
+    const state = readJsonFile<PersistedQueue>(stateFile, { jobs: [] });
+
+    for (const job of state.jobs) {
+      job.triggeredBy ??= null;
+      job.posterFrame ??= null;
+      if (job.status === 'rendering') {
+        if (job.attempts < maxAttempts) {
+          job.status = 'queued';
+          job.progress = 0;
+          job.startedAt = null;
+          console.log('[Render] Re-queued after restart:', job.id, job.compositionId);
+        } else {
+          job.status = 'failed';
+          job.error = 'Interrupted by server restart';
+          job.finishedAt = new Date().toISOString();
+          console.log('[Render] Marked failed after restart:', job.id, job.compositionId);
+        }
+      }
+      jobs.set(job.id, job);
+    }
+
+    // Anything left in .partial belongs to a render that never finished
+    fs.rmSync(partialDir, { recursive: true, force: true });
+  };
+
+  const nextQueuedJob = (): RenderJob | undefined => {
+    // Array.prototype.sort is stable, so equal priorities keep insertion (FIFO) order
+    return [...jobs.values()]
+      .filter((job) => job.status === 'queued')
+      .sort((a, b) => b.priority - a.priority)[0];
+  };
+
+  const run = async (job: RenderJob): Promise<void> => {
+    const outputFile = `${job.compositionId}-${job.id.slice(0, 8)}.${CODEC_EXTENSIONS[job.codec]}`;
+    const partialPath = path.join(partialDir, outputFile);
+
+    job.status = 'rendering';
+    job.attempts += 1;
+    const startedAt = new Date();
+    job.startedAt = startedAt.toISOString();
+    persist();
+    console.log('[Render] Started:', job.id, job.compositionId, `(attempt ${job.attempts})`);
+    events?.emit({ type: 'started', file: null, jobId: job.id, compositionId: job.compositionId });
+    events?.emit({ type: 'progress', file: null, jobId: job.id, progress: 0, bytes: null });
+
+    try {
+      fs.mkdirSync(partialDir, { recursive: true });
+      const video = await backend.render(job, partialPath, {
+        onProgress: (progress) => {
+          // Renderer reports every frame - only forward whole-percent changes
+          if (Math.floor(progress * 100) > Math.floor(job.progress * 100)) {
+            events?.emit({ type: 'progress', file: null, jobId: job.id, progress, bytes: null });
+          }
+          job.progress = progress;
+        },
+        onCancel: (abort) => {
+          // Removed before the backend could be stopped
+          if (cancelled.has(job.id)) {
+            abort();
+            return;
+          }
+          cancellers.set(job.id, abort);
+        },
+      });
+      if (cancelled.has(job.id)) {
+        throw new Error('Render cancelled');
+      }
+      await storage.importFile(outputFile, partialPath, contentTypeFor(outputFile));
+      job.status = 'done';
+      job.progress = 1;
+      job.outputFile = outputFile;
+      const completedAt = new Date();
+      const metadata: RenderMetadata = {
+        file: outputFile,
+        compositionId: job.compositionId,
+        inputProps: job.inputProps,
+        codec: job.codec,
+        ...videoFields(video),
+        posterFrame: job.posterFrame,
+        renderTimeMs: completedAt.getTime() - startedAt.getTime(),
+        startedAt: job.startedAt,
+        completedAt: completedAt.toISOString(),
+        triggeredBy: job.triggeredBy,
+        source: 'api',
+        jobId: job.id,
+        gitCommit,
+      };
+      await writeRenderMetadata(storage, metadata);
+      // Removed while the file was being stored
+      if (cancelled.has(job.id)) {
+        await deleteRender(storage, outputFile);
+        throw new Error('Render cancelled');
+      }
+      console.log('[Render] Done:', job.id, outputFile);
+      events?.emit({
+        type: 'completed',
+        file: outputFile,
+        url: `/out/${outputFile}`,
+        size: (await storage.stat(outputFile))?.size ?? 0,
+        jobId: job.id,
+      });
+      onRendered?.(metadata);
+    } catch (err) {
+      fs.rmSync(partialPath, { force: true });
+      if (cancelled.has(job.id)) {
+        console.log('[Render] Cancelled:', job.id, job.compositionId);
+        events?.emit({ type: 'cancelled', file: null, jobId: job.id });
+        return;
+      }
+      job.status = 'failed';
+      job.error = err instanceof Error ? err.message : String(err);
+      console.error('[Render] Failed:', job.id, job.error);
+      events?.emit({ type: 'failed', file: null, jobId: job.id, error: job.error });
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      cancellers.delete(job.id);
+      cancelled.delete(job.id);
+      // Removed (cancelled) jobs must not be written back
+      if (jobs.has(job.id)) {
+        persist();
+      }
+    }
+  };
+
+  const start = (job: RenderJob, release: () => void): void => {
+    void run(job).finally(() => {
+      release();
+      pump();
+    });
+  };
+
+  const pump = (): void => {
+    if (waitingForSlot) {
+      return;
+    }
+    for (let job = nextQueuedJob(); job; job = nextQueuedJob()) {
+      const release = slots.tryAcquire();
+      if (!release) {
+        // Every slot is taken (by jobs or previews): start the next job once one frees up
+        waitingForSlot = true;
+        void slots.acquire().then((slot) => {
+          waitingForSlot = false;
+          // Picked only now, since jobs may have been added or removed meanwhile
+          const next = nextQueuedJob();
+          if (next) {
+            start(next, slot);
+          } else {
+            slot();
+          }
+          pump();
+        });
+        return;
+      }
+      start(job, release);
+    }
+  };
+
+  recover();
+  pump();
+
+  return {
+    create: (request, priority, triggeredBy): RenderJob => {
+      const job: RenderJob = {
+        ...request,
+        id: randomUUID(),
+        priority,
+        attempts: 0,
+        status: 'queued',
+        triggeredBy,
+        progress: 0,
+        outputFile: null,
+        error: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+      };
+      jobs.set(job.id, job);
+      persist();
+      pump();
+      return job;
+    },
+
+    get: (id): RenderJob | undefined => jobs.get(id),
+
+    list: (): RenderJob[] => [...jobs.values()].reverse(),
+
+    remove: (id): boolean => {
+      if (!jobs.has(id)) {
+        return false;
+      }
+      if (jobs.get(id)?.status === 'rendering') {
+        cancelled.add(id);
+      }
+      jobs.delete(id);
+      cancellers.get(id)?.();
+      persist();
+      return true;
+    },
+  };
+};
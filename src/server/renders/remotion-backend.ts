@@ -0,0 +1,121 @@
+/**
+ * Render backend built on @remotion/bundler and @remotion/renderer
+ *
+ * The project is bundled once per process (bundling takes several seconds)
+ * and the bundle is reused for every job. Both packages are imported lazily
+ * so the proxy starts quickly and only pays the cost on the first render.
+ */
+
+import type * as RemotionRenderer from '@remotion/renderer';
+import type { VideoConfig } from 'remotion';
+import { defaultPosterFrame } from './previews';
+import type { PreviewBackend, PreviewRequest, RenderBackend, RenderedVideo } from './types';
+
+/** Preview clips are scaled down to at most this width */
+const PREVIEW_MAX_WIDTH = 480;
+
+/** Preview clips stop after this long */
+const PREVIEW_MAX_SECONDS = 6;
+
+type SelectedComposition = {
+  serveUrl: string;
+  renderer: typeof RemotionRenderer;
+  composition: VideoConfig;
+};
+
+type RemotionBackendOptions = {
+  /** Remotion entry point (the file calling registerRoot) */
+  entryPoint: string;
+};
+
+export const createRemotionBackend = ({
+  entryPoint,
+}: RemotionBackendOptions): RenderBackend & PreviewBackend => {
+  let bundlePromise: Promise<string> | null = null;
+
+  const getServeUrl = (): Promise<string> => {
+    if (!bundlePromise) {
+      console.log('[Render] Bundling project from', entryPoint);
+      bundlePromise = import('@remotion/bundler')
+        .then(({ bundle }) => bundle({ entryPoint }))
+        .catch((err: unknown) => {
+          // Allow the next job to retry bundling
+          bundlePromise = null;
+          throw err;
+        });
+    }
+    return bundlePromise;
+  };
+
+  const select = async (request: PreviewRequest): Promise<SelectedComposition> => {
+    const serveUrl = await getServeUrl();
+    const renderer = await import('@remotion/renderer');
+    const composition = await renderer.selectComposition({
+      serveUrl,
+      id: request.compositionId,
+      inputProps: request.inputProps,
+    });
+    return { serveUrl, renderer, composition };
+  };
+
+  return {
+    render: async (request, outputLocation, { onProgress, onCancel }): Promise<RenderedVideo> => {
+      const { serveUrl, renderer, composition } = await select(request);
+
+      const { cancelSignal, cancel } = renderer.makeCancelSignal();
+      onCancel(cancel);
+
+      await renderer.renderMedia({
+        serveUrl,
+        composition,
+        codec: request.codec,
+        inputProps: request.inputProps,
+        outputLocation,
+        cancelSignal,
+        onProgress: ({ progress }) => onProgress(progress),
+      });
+
+      const { width, height, fps, durationInFrames } = composition;
+      return { width, height, fps, durationInFrames };
+    },
+
+    renderPoster: async (request, frame, outputLocation): Promise<number> => {
+      const { serveUrl, renderer, composition } = await select(request);
+      const posterFrame = Math.min(
+        frame ??
+          defaultPosterFrame(composition.props, composition.durationInFrames, composition.fps),
+        composition.durationInFrames - 1
+      );
+
+      await renderer.renderStill({
+        serveUrl,
+        composition,
+        inputProps: request.inputProps,
+        frame: posterFrame,
+        output: outputLocation,
+        imageFormat: 'jpeg',
+        jpegQuality: 85,
+      });
+      return posterFrame;
+    },
+
+    renderPreview: async (request, outputLocation): Promise<void> => {
+      const { serveUrl, renderer, composition } = await select(request);
+      const lastFrame =
+        Math.min(composition.durationInFrames, Math.round(PREVIEW_MAX_SECONDS * composition.fps)) -
+        1;
+
+      await renderer.renderMedia({
+        serveUrl,
+        composition,
+        codec: 'h264',
+        inputProps: request.inputProps,
+        outputLocation,
+        frameRange: [0, lastFrame],
+        scale: Math.min(1, PREVIEW_MAX_WIDTH / composition.width),
+        crf: 30,
+        muted: true,
+      });
+    },
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * Tests for the render retention policy
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createLocalStorage } from '../storage/local';
+import { compositionIdFromFilename, createRetentionSweeper, planRetention } from './retention';
+import type { RetentionFile, RetentionPolicy } from './retention';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 10);
+
+const noLimits: RetentionPolicy = {
+  maxAgeMs: null,
+  maxTotalBytes: null,
+  keepLastPerComposition: null,
+};
+
+const file = (name: string, ageHours: number, size = 100): RetentionFile => ({
+  name,
+  compositionId: compositionIdFromFilename(name),
+  size,
+  modifiedAt: NOW - ageHours * HOUR,
+});
+
+describe('Retention policy', () => {
+  it('should derive composition ids from API and Studio file names', () => {
+    expect(compositionIdFromFilename('logo-animation-junr-default-1a2b3c4d.mp4')).toBe(
+      'logo-animation-junr-default'
+    );
+    expect(compositionIdFromFilename('logo-animation-junr-default.mp4')).toBe(
+      'logo-animation-junr-default'
+    );
+  });
+
+  it('should delete nothing without limits', () => {
+    expect(planRetention([file('a.mp4', 1000)], noLimits, NOW)).toEqual([]);
+  });
+
+  it('should delete renders older than the max age', () => {
+    const decisions = planRetention(
+      [file('old.mp4', 48), file('new.mp4', 1)],
+      { ...noLimits, maxAgeMs: 24 * HOUR },
+      NOW
+    );
+    expect(decisions).toEqual([{ file: 'old.mp4', size: 100, reason: 'max-age' }]);
+  });
+
+  it('should keep the newest renders of each composition', () => {
+    const decisions = planRetention(
+      [
+        file('intro-00000001.mp4', 3),
+        file('intro-00000002.mp4', 2),
+        file('intro-00000003.mp4', 1),
+        file('outro-00000001.mp4', 5),
+      ],
+      { ...noLimits, keepLastPerComposition: 2 },
+      NOW
+    );
+    expect(decisions).toEqual([{ file: 'intro-00000001.mp4', size: 100, reason: 'keep-last' }]);
+  });
+
+  it('should delete the oldest renders until the total fits', () => {
+    const decisions = planRetention(
+      [file('a.mp4', 3, 400), file('b.mp4', 2, 400), file('c.mp4', 1, 400)],
+      { ...noLimits, maxTotalBytes: 900 },
+      NOW
+    );
+    expect(decisions).toEqual([{ file: 'a.mp4', size: 400, reason: 'max-total-bytes' }]);
+  });
+
+  it('should count files already deleted by other limits towards the total', () => {
+    const decisions = planRetention(
+      [file('a.mp4', 48, 400), file('b.mp4', 2, 400), file('c.mp4', 1, 400)],
+      { ...noLimits, maxAgeMs: 24 * HOUR, maxTotalBytes: 800 },
+      NOW
+    );
+    expect(decisions.map((decision) => decision.file)).toEqual(['a.mp4']);
+  });
+});
+
+describe('Retention sweeper', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  const writeRender = (name: string, ageHours: number): void => {
+    const filePath = path.join(outDir, name);
+    fs.writeFileSync(filePath, 'video');
+    const modified = new Date(Date.now() - ageHours * HOUR);
+    fs.utimesSync(filePath, modified, modified);
+  };
+
+  it('should only delete on sweep, never on plan', async () => {
+    writeRender('old.mp4', 48);
+    const sweeper = createRetentionSweeper({
+      storage: createLocalStorage({ root: outDir }),
+      policy: { ...noLimits, maxAgeMs: 24 * HOUR },
+      intervalMs: HOUR,
+    });
+
+    expect((await sweeper.plan()).map((decision) => decision.file)).toEqual(['old.mp4']);
+    expect(fs.existsSync(path.join(outDir, 'old.mp4'))).toBe(true);
+
+    expect((await sweeper.sweep()).map((decision) => decision.file)).toEqual(['old.mp4']);
+    expect(fs.existsSync(path.join(outDir, 'old.mp4'))).toBe(false);
+  });
+
+  it('should keep protected files, files being written and non-video files', async () => {
+    writeRender('shared.mp4', 48);
+    writeRender('notes.txt', 48);
+    fs.writeFileSync(path.join(outDir, 'rendering.mp4'), 'video');
+
+    const sweeper = createRetentionSweeper({
+      storage: createLocalStorage({ root: outDir }),
+      policy: { ...noLimits, maxAgeMs: 0 },
+      intervalMs: HOUR,
+      isProtected: (name) => name === 'shared.mp4',
+    });
+
+    expect(await sweeper.sweep()).toEqual([]);
+    expect(fs.readdirSync(outDir).sort()).toEqual(['notes.txt', 'rendering.mp4', 'shared.mp4']);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Retention policy for rendered files
+ *
+ * Keeps render storage from growing forever. A sweeper runs periodically and
+ * deletes renders that break any of the configured limits:
+ * - maxAgeMs: renders older than this
+ * - keepLastPerComposition: all but the newest N renders of each composition
+ * - maxTotalBytes: the oldest renders until the rest fits
+ *
+ * Files still being written (recently modified) and files with an active
+ * share link are never deleted. Metadata sidecars go with their render.
+ * Admins can preview a sweep at GET /api/retention without deleting anything.
+ */
+
+import express from 'express';
+import path from 'path';
+import type { AuditLog } from '../audit/log';
+import { requireRole } from '../auth/roles';
+import type { RenderStorage } from '../storage/types';
+import { RENDER_EXTENSIONS } from './events';
+import type { RenderEvents } from './events';
+import { deleteRender, readRenderMetadata } from './metadata';
+
+/** Files modified more recently than this may still be rendering */
+const MIN_FILE_AGE_MS = 60_000;
+
+export type RetentionPolicy = {
+  /** Null disables the limit */
+  maxAgeMs: number | null;
+  maxTotalBytes: number | null;
+  keepLastPerComposition: number | null;
+};
+
+export type RetentionReason = 'max-age' | 'keep-last' | 'max-total-bytes';
+
+export type RetentionFile = {
+  name: string;
+  compositionId: string;
+  size: number;
+  modifiedAt: number;
+};
+
+export type RetentionDecision = {
+  file: string;
+  size: number;
+  reason: RetentionReason;
+};
+
+type RetentionSweeperOptions = {
+  storage: RenderStorage;
+  policy: RetentionPolicy;
+  /** Time between sweeps */
+  intervalMs: number;
+  /** Files that must be kept regardless of the policy (e.g. shared files) */
+  isProtected?: (file: string) => boolean;
+  /** Receives a deleted event for each render the sweeper removes */
+  events?: RenderEvents;
+  /** Records each deletion */
+  audit?: AuditLog;
+};
+
+export type RetentionSweeper = {
+  /** Files the policy would delete right now */
+  plan: () => Promise<RetentionDecision[]>;
+  /** Delete everything the policy allows and return what was deleted */
+  sweep: () => Promise<RetentionDecision[]>;
+  /** Start sweeping every intervalMs (no-op when the policy has no limits) */
+  start: () => void;
+  stop: () => void;
+};
+
+export const hasRetentionLimits = (policy: RetentionPolicy): boolean =>
+  policy.maxAgeMs !== null ||
+  policy.maxTotalBytes !== null ||
+  policy.keepLastPerComposition !== null;
+
+/**
+ * Composition id of a rendered file without a metadata sidecar. Renders are
+ * named `<compositionId>-<8 hex chars>.<ext>`; older Studio renders `<compositionId>.<ext>`.
+ */
+export const compositionIdFromFilename = (filename: string): string =>
+  path.basename(filename, path.extname(filename)).replace(/-[0-9a-f]{8}$/, '');
+
+/**
+ * Decide which files to delete. Pure, so the policy can be tested
+ * without touching the filesystem.
+ */
+export const planRetention = (
+  files: RetentionFile[],
+  policy: RetentionPolicy,
+  now: number
+): RetentionDecision[] => {
+  const newestFirst = [...files].sort((a, b) => b.modifiedAt - a.modifiedAt);
+  const decisions = new Map<string, RetentionDecision>();
+  const remove = (file: RetentionFile, reason: RetentionReason): void => {
+    if (!decisions.has(file.name)) {
+      decisions.set(file.name, { file: file.name, size: file.size, reason });
+    }
+  };
+
+  if (policy.maxAgeMs !== null) {
+    for (const file of newestFirst) {
+      if (now - file.modifiedAt > policy.maxAgeMs) {
+        remove(file, 'max-age');
+      }
+    }
+  }
+
+  if (policy.keepLastPerComposition !== null) {
+    const seen = new Map<string, number>();
+    for (const file of newestFirst) {
+      const count = (seen.get(file.compositionId) ?? 0) + 1;
+      seen.set(file.compositionId, count);
+      if (count > policy.keepLastPerComposition) {
+        remove(file, 'keep-last');
+      }
+    }
+  }
+
+  if (policy.maxTotalBytes !== null) {
+    let total = newestFirst
+      .filter((file) => !decisions.has(file.name))
+      .reduce((sum, file) => sum + file.size, 0);
+    for (const file of [...newestFirst].reverse()) {
+      if (total <= policy.maxTotalBytes) {
+        break;
+      }
+      if (!decisions.has(file.name)) {
+        remove(file, 'max-total-bytes');
+        total -= file.size;
+      }
+    }
+  }
+
+  return [...decisions.values()];
+};
+
+export const createRetentionSweeper = ({
+  storage,
+  policy,
+  intervalMs,
+  isProtected = (): boolean => false,
+  events,
+  audit,
+}: RetentionSweeperOptions): RetentionSweeper => {
+  let timer: NodeJS.Timeout | null = null;
+
+  const plan = async (): Promise<RetentionDecision[]> => {
+    const now = Date.now();
+    const candidates = (await storage.list()).filter(
+      (object) =>
+        RENDER_EXTENSIONS.includes(path.extname(object.key).toLowerCase()) &&
+        now - object.modifiedAt.getTime() >= MIN_FILE_AGE_MS &&
+        !isProtected(object.key)
+    );
+    const files = await Promise.all(
+      candidates.map(
+        async ({ key, size, modifiedAt }): Promise<RetentionFile> => ({
+          name: key,
+          compositionId:
+            (await readRenderMetadata(storage, key))?.compositionId ??
+            compositionIdFromFilename(key),
+          size,
+          modifiedAt: modifiedAt.getTime(),
+        })
+      )
+    );
+    return planRetention(files, policy, now);
+  };
+
+  const sweep = async (): Promise<RetentionDecision[]> => {
+    const deleted: RetentionDecision[] = [];
+    for (const decision of await plan()) {
+      try {
+        await deleteRender(storage, decision.file);
+        deleted.push(decision);
+        console.log(
+          '[Retention] Deleted',
+          decision.file,
+          `(${decision.reason}, ${decision.size} bytes)`
+        );
+        events?.emit({ type: 'deleted', file: decision.file, reason: 'retention' });
+        audit?.record('delete', null, null, {
+          file: decision.file,
+          reason: 'retention',
+          rule: decision.reason,
+        });
+      } catch (err) {
+        console.error('[Retention] Failed to delete', decision.file, (err as Error).message);
+      }
+    }
+    return deleted;
+  };
+
+  const sweepInBackground = (): void => {
+    sweep().catch((err: unknown) => {
+      console.error('[Retention] Sweep failed:', (err as Error).message);
+    });
+  };
+
+  return {
+    plan,
+    sweep,
+
+    start: (): void => {
+      if (timer || !hasRetentionLimits(policy)) {
+        return;
+      }
+      timer = setInterval(sweepInBackground, intervalMs);
+      timer.unref();
+      sweepInBackground();
+    },
+
+    stop: (): void => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+};
+
+/**
+ * GET /api/retention - the policy and what the next sweep would delete (admin, dry run)
+ */
+export const createRetentionRouter = (
+  sweeper: RetentionSweeper,
+  policy: RetentionPolicy
+): express.Router => {
+  const router = express.Router();
+
+  router.get('/api/retention', requireRole('admin'), async (_req, res) => {
+    const files = await sweeper.plan();
+    res.json({
+      policy,
+      enabled: hasRetentionLimits(policy),
+      files,
+      totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+    });
+  });
+
+  return router;
+};
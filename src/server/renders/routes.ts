@@ -0,0 +1,103 @@
+/**
+ * Render job API
+ *
+ * POST   /api/render      - queue a render ({ compositionId, inputProps?, codec?, priority?, posterFrame? })
+ * GET    /api/render      - all known jobs, newest first
+ * GET    /api/render/:id  - job status and progress
+ * DELETE /api/render/:id  - cancel (if active) and forget a job
+ *
+ * Mounted behind the session middleware, so every route requires a valid session
+ * or API key. Reading job status needs the viewer role (or the renders:read
+ * scope); starting and cancelling renders needs editor (or renders:start).
+ *
+ * Remotion Studio's render dialog posts to the same POST /api/render. Its
+ * requests carry a `type` field ('video', 'still', ...) and are passed on
+ * to the Studio proxy untouched.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import type { AuditLog } from '../audit/log';
+import { requireRole } from '../auth/roles';
+import { renderUser } from './metadata';
+import type { RenderQueue } from './queue';
+import { CODEC_EXTENSIONS } from './types';
+import type { RenderCodec } from './types';
+
+const codecs = Object.keys(CODEC_EXTENSIONS) as [RenderCodec, ...RenderCodec[]];
+
+const renderRequestSchema = z.object({
+  compositionId: z.string().regex(/^[a-zA-Z0-9-]+$/, 'Invalid composition id'),
+  inputProps: z.record(z.string(), z.unknown()).default({}),
+  codec: z.enum(codecs).default('h264'),
+  priority: z.number().int().min(-10).max(10).default(0),
+  posterFrame: z.number().int().min(0).nullable().default(null),
+});
+
+const isStudioRenderRequest = (body: unknown): boolean =>
+  typeof body === 'object' && body !== null && 'type' in body;
+
+export const createRenderJobRouter = (queue: RenderQueue, audit?: AuditLog): express.Router => {
+  const router = express.Router();
+
+  router.post(
+    '/api/render',
+    requireRole('editor', 'renders:start'),
+    express.json({ limit: '1mb' }),
+    (req, res, next) => {
+      if (isStudioRenderRequest(req.body)) {
+        // The Studio itself is only open to sessions
+        if (res.locals.apiKey) {
+          return res.status(400).json({ error: 'Studio render requests need a session' });
+        }
+        return next();
+      }
+
+      const parsed = renderRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid render request',
+          issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        });
+      }
+
+      const { priority, ...request } = parsed.data;
+      const job = queue.create(request, priority, renderUser(res.locals.user));
+      audit?.record('render', req, job.triggeredBy, {
+        jobId: job.id,
+        compositionId: job.compositionId,
+        source: 'api',
+      });
+      return res.status(202).location(`/api/render/${job.id}`).json({ job });
+    }
+  );
+
+  router.get('/api/render', requireRole('viewer', 'renders:read'), (_req, res) => {
+    return res.json({ jobs: queue.list() });
+  });
+
+  router.get(
+    '/api/render/:id',
+    requireRole('viewer', 'renders:read'),
+    (req: express.Request<{ id: string }>, res) => {
+      const job = queue.get(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Render job not found' });
+      }
+      return res.json({ job });
+    }
+  );
+
+  router.delete(
+    '/api/render/:id',
+    requireRole('editor', 'renders:start'),
+    (req: express.Request<{ id: string }>, res) => {
+      if (!queue.remove(req.params.id)) {
+        return res.status(404).json({ error: 'Render job not found' });
+      }
+      return res.status(204).end();
+    }
+  );
+
+  return router;
+};
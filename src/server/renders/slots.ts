@@ -0,0 +1,66 @@
+/**
+ * Render slots
+ *
+ * Every headless Chrome render - queued jobs as well as posters and preview
+ * clips - takes a slot first, so RENDER_CONCURRENCY caps all of them
+ * together and a container never runs more Chrome instances than it can
+ * hold in memory. Waiters get slots in the order they asked for them.
+ */
+
+export type RenderSlots = {
+  /** Resolves with a function that frees the slot again, once one is free */
+  acquire: () => Promise<() => void>;
+  /** Takes a slot if one is free right now, or returns null */
+  tryAcquire: () => (() => void) | null;
+  /** Runs `task` in a slot and frees it when the task settles */
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+};
+
+export const createRenderSlots = (concurrency: number): RenderSlots => {
+  let free = concurrency;
+  const waiting: ((release: () => void) => void)[] = [];
+
+  // Hands the slot to the next waiter, or frees it; only the first call counts
+  const releaser = (): (() => void) => {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = waiting.shift();
+      if (next) {
+        next(releaser());
+      } else {
+        free += 1;
+      }
+    };
+  };
+
+  const tryAcquire = (): (() => void) | null => {
+    if (free === 0) {
+      return null;
+    }
+    free -= 1;
+    return releaser();
+  };
+
+  const acquire = (): Promise<() => void> => {
+    const release = tryAcquire();
+    return release ? Promise.resolve(release) : new Promise((resolve) => waiting.push(resolve));
+  };
+
+  return {
+    acquire,
+    tryAcquire,
+
+    run: async <T>(task: () => Promise<T>): Promise<T> => {
+      const release = await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+};
@@ -0,0 +1,243 @@
+/**
+ * Tests for Studio render tracking (versioned names and metadata sidecars)
+ *
+ * The ordering of storage and the completed event also runs against an
+ * S3-compatible server when S3_TEST_ENDPOINT is set (see storage.test.ts).
+ *
+ * @vitest-environment node
+ */
+
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLocalStorage } from '../storage/local';
+import { createS3Storage } from '../storage/s3';
+import type { RenderStorage } from '../storage/types';
+import { createRenderEvents } from './events';
+import type { RenderEvent, RenderEvents } from './events';
+import { readRenderMetadata } from './metadata';
+import { createStudioRenderTracker } from './studio-renders';
+import type { StudioRenderTracker } from './studio-renders';
+
+const s3Endpoint = process.env.S3_TEST_ENDPOINT;
+
+type TrackerFixture = {
+  outDir: string;
+  storage: RenderStorage;
+  events: RenderEvents;
+  tracker: StudioRenderTracker;
+  /** Every event emitted, in order */
+  received: RenderEvent[];
+  /** Write a render to out/ and report it written, as the watcher would */
+  complete: (file: string) => void;
+  close: () => void;
+};
+
+const createTrackerFixture = (createStorage: (outDir: string) => RenderStorage): TrackerFixture => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'studio-renders-'));
+  const outDir = path.join(tmpDir, 'out');
+  const storage = createStorage(outDir);
+  const events = createRenderEvents({ outDir, stableAfterMs: 60_000 });
+  const received: RenderEvent[] = [];
+  events.subscribe(({ event }) => received.push(event));
+  const tracker = createStudioRenderTracker({
+    outDir,
+    storage,
+    events,
+    probe: () => Promise.resolve({ width: 1080, height: 1080, fps: 25, durationInFrames: 50 }),
+    gitCommit: 'abc1234',
+  });
+
+  return {
+    outDir,
+    storage,
+    events,
+    tracker,
+    received,
+    complete: (file): void => {
+      fs.writeFileSync(path.join(outDir, file), 'video');
+      events.emit({ type: 'file-written', file, size: 5 });
+    },
+    close: (): void => {
+      tracker.close();
+      events.close();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    },
+  };
+};
+
+describe('Studio render tracker', () => {
+  let storage: RenderStorage;
+  let tracker: StudioRenderTracker;
+  let received: RenderEvent[];
+  let complete: (file: string) => void;
+  let close: () => void;
+
+  beforeEach(() => {
+    ({ storage, tracker, received, complete, close } = createTrackerFixture((root) =>
+      createLocalStorage({ root })
+    ));
+  });
+
+  afterEach(() => {
+    close();
+  });
+
+  it('should give every render of a composition its own file', () => {
+    const first = { type: 'video', compositionId: 'logo', outName: 'out/logo.mp4' };
+    const second = { ...first };
+    tracker.prepare(first, null);
+    tracker.prepare(second, null);
+
+    expect(first.outName).toMatch(/^out\/logo-[0-9a-f]{8}\.mp4$/);
+    expect(second.outName).toMatch(/^out\/logo-[0-9a-f]{8}\.mp4$/);
+    expect(first.outName).not.toBe(second.outName);
+  });
+
+  it('should only rename videos rendered into out/', () => {
+    const still = { type: 'still', compositionId: 'logo', outName: 'out/logo.png' };
+    const elsewhere = { type: 'video', compositionId: 'logo', outName: 'exports/logo.mp4' };
+    tracker.prepare(still, null);
+    tracker.prepare(elsewhere, null);
+
+    expect(still.outName).toBe('out/logo.png');
+    expect(elsewhere.outName).toBe('exports/logo.mp4');
+  });
+
+  it('should write a sidecar with the request once the render completes', async () => {
+    const body = {
+      type: 'video',
+      compositionId: 'logo',
+      codec: 'h264',
+      outName: 'out/logo.mp4',
+      serializedInputPropsWithCustomSchema: JSON.stringify({ title: 'Hello' }),
+    };
+    tracker.prepare(body, { id: 'user-1', email: 'editor@junr.studio' });
+    const file = path.basename(body.outName);
+    complete(file);
+
+    await vi.waitFor(async () => {
+      expect(await readRenderMetadata(storage, file)).toMatchObject({
+        file,
+        compositionId: 'logo',
+        inputProps: { title: 'Hello' },
+        codec: 'h264',
+        width: 1080,
+        height: 1080,
+        fps: 25,
+        durationInFrames: 50,
+        durationSeconds: 2,
+        triggeredBy: { id: 'user-1', email: 'editor@junr.studio' },
+        source: 'studio',
+        jobId: null,
+        gitCommit: 'abc1234',
+      });
+    });
+  });
+
+  it('should describe renders it did not see being requested', async () => {
+    complete('outro.mp4');
+
+    await vi.waitFor(async () => {
+      expect(await readRenderMetadata(storage, 'outro.mp4')).toMatchObject({
+        compositionId: 'outro',
+        inputProps: null,
+        codec: null,
+        triggeredBy: null,
+        renderTimeMs: null,
+        width: 1080,
+      });
+    });
+  });
+
+  it('should announce the render as completed only once it is stored', async () => {
+    // Hold the import, like a slow upload to S3
+    let finishImport = (): void => {};
+    const imported = new Promise<void>((resolve) => {
+      finishImport = resolve;
+    });
+    const importFile = storage.importFile;
+    storage.importFile = async (...args): Promise<void> => {
+      await imported;
+      await importFile(...args);
+    };
+    complete('logo.mp4');
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(received.map((event) => event.type)).toEqual(['file-written']);
+
+    finishImport();
+    await vi.waitFor(() => {
+      expect(received.at(-1)).toEqual({
+        type: 'completed',
+        file: 'logo.mp4',
+        url: '/out/logo.mp4',
+        size: 5,
+        jobId: null,
+      });
+    });
+    expect(await readRenderMetadata(storage, 'logo.mp4')).not.toBeNull();
+  });
+
+  it('should report renders it could not store as failed', async () => {
+    storage.importFile = (): Promise<void> => Promise.reject(new Error('Bucket unreachable'));
+    complete('logo.mp4');
+
+    await vi.waitFor(() => {
+      expect(received.at(-1)).toEqual({
+        type: 'failed',
+        file: 'logo.mp4',
+        jobId: null,
+        error: 'Bucket unreachable',
+      });
+    });
+    expect(received.map((event) => event.type)).not.toContain('completed');
+  });
+});
+
+describe.skipIf(!s3Endpoint)('Studio render tracker with S3 storage (S3_TEST_ENDPOINT)', () => {
+  let fixture: TrackerFixture;
+
+  beforeEach(() => {
+    fixture = createTrackerFixture(() =>
+      createS3Storage({
+        bucket: process.env.S3_TEST_BUCKET ?? 'renders',
+        prefix: `test-${randomBytes(4).toString('hex')}/`,
+        region: 'us-east-1',
+        endpoint: s3Endpoint ?? null,
+        credentials: {
+          accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID ?? 'minioadmin',
+          secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY ?? 'minioadmin',
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    fixture.close();
+  });
+
+  it('should only announce renders that are uploaded with their sidecar', async () => {
+    const { storage, events, complete } = fixture;
+    // Look the file up the moment a client would hear about it
+    const lookups: Promise<[unknown, unknown]>[] = [];
+    events.subscribe(({ event }) => {
+      if (event.type === 'completed') {
+        lookups.push(
+          Promise.all([storage.stat(event.file), readRenderMetadata(storage, event.file)])
+        );
+      }
+    });
+    complete('logo.mp4');
+
+    await vi.waitFor(() => {
+      expect(lookups).toHaveLength(1);
+    });
+    const [object, metadata] = await lookups[0]!;
+    expect(object).toMatchObject({ key: 'logo.mp4', size: 5 });
+    expect(metadata).toMatchObject({ file: 'logo.mp4', source: 'studio' });
+    expect(fs.existsSync(path.join(fixture.outDir, 'logo.mp4'))).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Studio render tracking
+ *
+ * Remotion Studio writes a render to the output name chosen in its render
+ * dialog, which defaults to out/{composition}.{container}, so every render
+ * of a composition used to overwrite the previous one. The proxy hands each
+ * Studio render request to `prepare`, which rewrites the output name to a
+ * versioned one and remembers the request. Once the event watcher sees the
+ * file written, it is moved into render storage and a metadata sidecar is
+ * written for it. Only then is the render announced as completed, so clients
+ * never ask storage for a file that is not there yet (e.g. still uploading
+ * to S3).
+ *
+ * Renders to a custom location outside out/ are left alone.
+ */
+
+import path from 'path';
+import { contentTypeFor } from '../storage/content-types';
+import type { RenderStorage } from '../storage/types';
+import type { RenderEvents } from './events';
+import { RENDER_EXTENSIONS } from './events';
+import { versionedFilename, videoFields, writeRenderMetadata } from './metadata';
+import type { RenderMetadata, VideoProbe } from './metadata';
+import { compositionIdFromFilename } from './retention';
+import type { RenderUser } from './types';
+
+/** Requests whose render never finished are forgotten after this long */
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+type StudioRenderTrackerOptions = {
+  /** Directory the Studio renders into */
+  outDir: string;
+  /** Where finished renders are kept */
+  storage: RenderStorage;
+  events: RenderEvents;
+  /** Reads dimensions and duration from the finished file */
+  probe: VideoProbe;
+  gitCommit: string | null;
+  /** Called with the metadata of each finished render (e.g. to generate previews) */
+  onRendered?: (metadata: RenderMetadata) => void;
+};
+
+export type StudioRenderTracker = {
+  /**
+   * Rewrite the body of a Studio POST /api/render in place to a versioned
+   * output name and remember who started the render. Returns the new name,
+   * or null for requests that are left alone.
+   */
+  prepare: (body: Record<string, unknown>, user: RenderUser | null) => string | null;
+  close: () => void;
+};
+
+type PendingStudioRender = {
+  compositionId: string;
+  codec: string | null;
+  inputProps: Record<string, unknown> | null;
+  triggeredBy: RenderUser | null;
+  startedAt: Date;
+};
+
+/**
+ * The Studio sends input props serialized (with markers for dates etc.)
+ */
+const parseInputProps = (serialized: unknown): Record<string, unknown> | null => {
+  if (typeof serialized !== 'string') {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(serialized);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const createStudioRenderTracker = ({
+  outDir,
+  storage,
+  events,
+  probe,
+  gitCommit,
+  onRendered,
+}: StudioRenderTrackerOptions): StudioRenderTracker => {
+  const pending = new Map<string, PendingStudioRender>();
+  // The Studio resolves output names against the project root, which contains out/
+  const projectRoot = path.dirname(outDir);
+
+  const recordCompleted = async (file: string, size: number): Promise<void> => {
+    const request = pending.get(file);
+    pending.delete(file);
+    const video = await probe(path.join(outDir, file));
+    const completedAt = new Date();
+
+    const metadata: RenderMetadata = {
+      file,
+      compositionId: request?.compositionId ?? compositionIdFromFilename(file),
+      inputProps: request?.inputProps ?? null,
+      codec: request?.codec ?? null,
+      ...videoFields(video),
+      posterFrame: null,
+      // Includes the time the watcher waits for the file to settle
+      renderTimeMs: request ? completedAt.getTime() - request.startedAt.getTime() : null,
+      startedAt: request?.startedAt.toISOString() ?? null,
+      completedAt: completedAt.toISOString(),
+      triggeredBy: request?.triggeredBy ?? null,
+      source: 'studio',
+      jobId: null,
+      gitCommit,
+    };
+    try {
+      await storage.importFile(file, path.join(outDir, file), contentTypeFor(file));
+    } catch (err) {
+      console.error('[Render] Failed to store Studio render', file, (err as Error).message);
+      events.emit({ type: 'failed', file, jobId: null, error: (err as Error).message });
+      return;
+    }
+    await writeRenderMetadata(storage, metadata);
+    events.emit({ type: 'completed', file, url: `/out/${file}`, size, jobId: null });
+    onRendered?.(metadata);
+  };
+
+  // Queue jobs store their own renders and are never watched
+  const unsubscribe = events.subscribe(({ event }) => {
+    if (event.type === 'file-written') {
+      void recordCompleted(event.file, event.size);
+    }
+  });
+
+  return {
+    prepare: (body, user): string | null => {
+      const { type, outName, compositionId, codec } = body;
+      if (type !== 'video' || typeof outName !== 'string' || typeof compositionId !== 'string') {
+        return null;
+      }
+      const extension = path.extname(outName).toLowerCase();
+      if (
+        !RENDER_EXTENSIONS.includes(extension) ||
+        path.dirname(path.resolve(projectRoot, outName)) !== outDir
+      ) {
+        return null;
+      }
+
+      const file = versionedFilename(compositionId, extension.slice(1));
+      body.outName = path.posix.join(path.posix.dirname(outName), file);
+
+      const now = new Date();
+      for (const [name, render] of pending) {
+        if (now.getTime() - render.startedAt.getTime() > PENDING_TTL_MS) {
+          pending.delete(name);
+        }
+      }
+      pending.set(file, {
+        compositionId,
+        codec: typeof codec === 'string' ? codec : null,
+        inputProps: parseInputProps(body.serializedInputPropsWithCustomSchema),
+        triggeredBy: user,
+        startedAt: now,
+      });
+      console.log(
+        '[Render] Studio render:',
+        file,
+        ...(user ? [`(by ${user.email ?? user.id})`] : [])
+      );
+      events.emit({ type: 'started', file, jobId: null, compositionId });
+      return file;
+    },
+
+    close: unsubscribe,
+  };
+};
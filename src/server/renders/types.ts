@@ -0,0 +1,126 @@
+/**
+ * Types for server-side render jobs
+ *
+ * Jobs are started through the auth proxy API (used by the ERP) rather than
+ * from the Studio UI. All job fields are JSON-serializable so they can be
+ * returned directly from the API.
+ */
+
+import type { AuthUser } from '../auth/types';
+
+/**
+ * Codecs the render API accepts, mapped to the container extension they produce.
+ * Limited to containers the proxy already knows how to list and serve from out/.
+ */
+export const CODEC_EXTENSIONS = {
+  h264: 'mp4',
+  h265: 'mp4',
+  vp8: 'webm',
+  vp9: 'webm',
+  prores: 'mov',
+  gif: 'gif',
+} as const;
+
+export type RenderCodec = keyof typeof CODEC_EXTENSIONS;
+
+/**
+ * Lifecycle of a render job
+ */
+export type RenderJobStatus = 'queued' | 'rendering' | 'done' | 'failed';
+
+/**
+ * Parameters needed to start a render
+ */
+export type RenderRequest = {
+  /** Composition id as registered in Root.tsx */
+  compositionId: string;
+  /** Input props merged over the composition's defaultProps */
+  inputProps: Record<string, unknown>;
+  /** Output codec (default: h264) */
+  codec: RenderCodec;
+  /** Frame for the poster thumbnail (null: end of the hold phase) */
+  posterFrame: number | null;
+};
+
+/** Who started a render */
+export type RenderUser = Pick<AuthUser, 'id' | 'email'>;
+
+/**
+ * A render job as tracked by the server
+ */
+export type RenderJob = RenderRequest & {
+  id: string;
+  /** Queue priority, higher renders first (FIFO within the same priority) */
+  priority: number;
+  /** Number of times rendering was started (a restart interrupts an attempt) */
+  attempts: number;
+  status: RenderJobStatus;
+  /** Null for jobs created before this was recorded */
+  triggeredBy: RenderUser | null;
+  /** Render progress from 0 to 1 */
+  progress: number;
+  /** File name inside out/ once the render is done */
+  outputFile: string | null;
+  /** Error message when the job failed */
+  error: string | null;
+  /** ISO timestamps */
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+/**
+ * What the renderer produced, as reported by the selected composition
+ */
+export type RenderedVideo = {
+  width: number;
+  height: number;
+  fps: number;
+  /** Null when a probed file does not report its duration */
+  durationInFrames: number | null;
+};
+
+/**
+ * Callbacks handed to a render backend while a job runs
+ */
+export type RenderCallbacks = {
+  /** Called with progress from 0 to 1 */
+  onProgress: (progress: number) => void;
+  /** Registers a callback that aborts the render when the job is cancelled */
+  onCancel: (abort: () => void) => void;
+};
+
+/**
+ * Something that can turn a render request into a file on disk.
+ * The default implementation uses @remotion/bundler and @remotion/renderer;
+ * tests can substitute a fake.
+ */
+export type RenderBackend = {
+  render: (
+    request: RenderRequest,
+    outputLocation: string,
+    callbacks: RenderCallbacks
+  ) => Promise<RenderedVideo>;
+};
+
+/**
+ * What a poster or preview clip is rendered from
+ */
+export type PreviewRequest = Pick<RenderRequest, 'compositionId' | 'inputProps'>;
+
+/**
+ * Renders poster thumbnails and preview clips (see ./previews)
+ */
+export type PreviewBackend = {
+  /**
+   * Render a JPEG still at `frame` (null: the default poster frame).
+   * Returns the frame that was rendered.
+   */
+  renderPoster: (
+    request: PreviewRequest,
+    frame: number | null,
+    outputLocation: string
+  ) => Promise<number>;
+  /** Render a short, low-resolution h264 clip */
+  renderPreview: (request: PreviewRequest, outputLocation: string) => Promise<void>;
+};
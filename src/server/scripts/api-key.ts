@@ -0,0 +1,69 @@
+/**
+ * Manage API keys from the command line
+ *
+ * Usage:
+ *   pnpm api-key create <name> <scope,scope,...> [expiresInDays]
+ *   pnpm api-key list
+ *   pnpm api-key revoke <id>
+ *
+ * Scopes: renders:read, renders:start, renders:delete. Works on the key file
+ * in STATE_DIR, which a running proxy picks up without a restart.
+ */
+
+import 'dotenv/config';
+import path from 'path';
+import { createApiKeyStore } from '../api-keys/store';
+import { API_KEY_SCOPES } from '../auth/types';
+import type { ApiKeyScope } from '../auth/types';
+
+const stateDir = path.resolve(process.env.STATE_DIR ?? '.studio-data');
+const store = createApiKeyStore({ stateFile: path.join(stateDir, 'api-keys.json') });
+
+const isScope = (value: string): value is ApiKeyScope =>
+  (API_KEY_SCOPES as readonly string[]).includes(value);
+
+const usage = (): never => {
+  console.error('Usage:');
+  console.error('  pnpm api-key create <name> <scope,scope,...> [expiresInDays]');
+  console.error('  pnpm api-key list');
+  console.error('  pnpm api-key revoke <id>');
+  console.error(`Scopes: ${API_KEY_SCOPES.join(', ')}`);
+  process.exit(1);
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'create') {
+  const [name, scopeList, expiresInDays] = args;
+  const scopes = scopeList?.split(',') ?? [];
+  const days = expiresInDays === undefined ? null : Number(expiresInDays);
+  if (!name || scopes.length === 0 || !scopes.every(isScope) || (days !== null && !(days > 0))) {
+    usage();
+  }
+
+  const { key, token } = store.create({
+    name: name!,
+    scopes: [...new Set(scopes as ApiKeyScope[])],
+    createdBy: 'cli',
+    expiresAt: days === null ? null : new Date(Date.now() + days * 86_400_000).toISOString(),
+  });
+  console.log(`Created API key ${key.id} (${key.scopes.join(', ')})`);
+  console.log(key.expiresAt ? `Expires ${key.expiresAt}` : 'Never expires');
+  console.log('\nSend it as "Authorization: Bearer <key>". It is not shown again:\n');
+  console.log(token);
+} else if (command === 'list') {
+  for (const key of store.list()) {
+    const state = key.revokedAt ? 'revoked' : key.expiresAt ? `expires ${key.expiresAt}` : 'active';
+    console.log(
+      `${key.id}  ${key.name}  [${key.scopes.join(', ')}]  ${state}  last used ${key.lastUsedAt ?? 'never'}`
+    );
+  }
+} else if (command === 'revoke' && args[0]) {
+  if (!store.revoke(args[0])) {
+    console.error(`No API key ${args[0]}`);
+    process.exit(1);
+  }
+  console.log(`Revoked API key ${args[0]}`);
+} else {
+  usage();
+}
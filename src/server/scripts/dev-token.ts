@@ -0,0 +1,66 @@
+/**
+ * Offline login for local testing of the auth proxy
+ *
+ * Generates (once) a local ES256 key pair, then prints:
+ * - the SUPABASE_JWKS value that makes the proxy trust the local key
+ * - a login URL with an access token signed by that key
+ *
+ * Usage: pnpm dev:token [role] [email]
+ *
+ * Token refresh still goes through Supabase, so offline sessions end when the
+ * printed token expires (1 hour).
+ */
+
+import 'dotenv/config';
+import crypto from 'crypto';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from '../json-file';
+
+const KEY_ID = 'local-dev';
+const TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+const stateDir = path.resolve(process.env.STATE_DIR ?? '.studio-data');
+const keyFile = path.join(stateDir, 'dev-signing-key.json');
+
+let privateJwk = readJsonFile<crypto.JsonWebKey | null>(keyFile, null);
+if (!privateJwk) {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  privateJwk = privateKey.export({ format: 'jwk' });
+  writeJsonFile(keyFile, privateJwk);
+  console.log('Generated local signing key:', keyFile);
+}
+
+const privateKey = crypto.createPrivateKey({ key: privateJwk, format: 'jwk' });
+const publicJwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+
+const supabaseUrl = process.env.SUPABASE_URL;
+if (!supabaseUrl) {
+  console.error('SUPABASE_URL must be set: the proxy only accepts tokens issued by it');
+  process.exit(1);
+}
+
+const [role = 'admin', email = 'dev@localhost'] = process.argv.slice(2);
+const now = Math.floor(Date.now() / 1000);
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+const signingInput = `${encode({ alg: 'ES256', kid: KEY_ID, typ: 'JWT' })}.${encode({
+  sub: crypto.randomUUID(),
+  email,
+  aud: 'authenticated',
+  iss: `${supabaseUrl.replace(/\/$/, '')}/auth/v1`,
+  role: 'authenticated',
+  app_metadata: { role },
+  iat: now,
+  exp: now + TOKEN_LIFETIME_SECONDS,
+})}`;
+const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+  key: privateKey,
+  dsaEncoding: 'ieee-p1363',
+});
+const token = `${signingInput}.${signature.toString('base64url')}`;
+
+const port = process.env.PORT ?? 3000;
+console.log('\nAdd to .env:\n');
+console.log(`SUPABASE_JWKS='${JSON.stringify({ keys: [{ ...publicJwk, kid: KEY_ID }] })}'`);
+console.log(`\nThen open (${role}, valid for 1 hour):\n`);
+console.log(`http://localhost:${port}/?token=${token}&refresh_token=offline`);
@@ -0,0 +1,81 @@
+/**
+ * Signed share link tokens
+ *
+ * A share token is `<payload>.<signature>`: the base64url JSON payload and an
+ * HMAC-SHA256 of it. The signature stops anyone from guessing links or
+ * changing the file or expiry in a link they were given. Revocation and
+ * download counts live in the share store, so a valid signature alone is
+ * not enough to download.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type SharePayload = {
+  /** Share id in the store */
+  id: string;
+  /** Rendered file in out/ */
+  file: string;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+};
+
+export type ShareSigner = {
+  sign: (payload: SharePayload) => string;
+  /** The payload of a correctly signed token, or null */
+  verify: (token: string) => SharePayload | null;
+};
+
+const hmac = (secret: string, value: string): Buffer =>
+  crypto.createHmac('sha256', secret).update(value).digest();
+
+export const createShareSigner = (secret: string): ShareSigner => ({
+  sign: (payload): string => {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${hmac(secret, encoded).toString('base64url')}`;
+  },
+
+  verify: (token): SharePayload | null => {
+    const [encoded, signature, ...rest] = token.split('.');
+    if (!encoded || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = hmac(secret, encoded);
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as unknown;
+      if (
+        typeof payload !== 'object' ||
+        payload === null ||
+        typeof (payload as SharePayload).id !== 'string' ||
+        typeof (payload as SharePayload).file !== 'string' ||
+        typeof (payload as SharePayload).exp !== 'number'
+      ) {
+        return null;
+      }
+      return payload as SharePayload;
+    } catch {
+      return null;
+    }
+  },
+});
+
+/**
+ * Read the signing secret from a file, creating a random one on first use.
+ * Used when SHARE_LINK_SECRET is not set, so links survive restarts.
+ */
+export const readOrCreateSecret = (secretFile: string): string => {
+  if (fs.existsSync(secretFile)) {
+    return fs.readFileSync(secretFile, 'utf8').trim();
+  }
+  const secret = crypto.randomBytes(32).toString('base64url');
+  fs.mkdirSync(path.dirname(secretFile), { recursive: true });
+  fs.writeFileSync(secretFile, secret, { mode: 0o600 });
+  return secret;
+};
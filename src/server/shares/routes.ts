@@ -0,0 +1,248 @@
+/**
+ * Share link routes
+ *
+ * Public (no session, mounted before the session middleware):
+ * GET    /share/:token       - landing page with an inline preview
+ * GET    /share/:token/file  - the file (`?inline=1` for the preview, `?download=1` to download)
+ *
+ * Authenticated (editor role):
+ * POST   /api/shares         - create a link ({ filename, expiresInHours?, maxDownloads? })
+ * GET    /api/shares         - all links, newest first
+ * DELETE /api/shares/:id     - revoke a link
+ *
+ * Every file request that sends some of the file counts towards
+ * `maxDownloads`, whatever range it asks for. The first one gives the client
+ * a session cookie scoped to the link; later requests carrying it (seeking in
+ * the preview, resuming, the download button) are served without counting,
+ * even once the limit is reached. A client without the cookie is charged for
+ * every request.
+ */
+
+import { randomBytes } from 'crypto';
+import express from 'express';
+import { z } from 'zod';
+import type { AuditLog } from '../audit/log';
+import { requireRole } from '../auth/roles';
+import { shareUnavailablePage, sharePage } from '../pages/share-page';
+import type { ShareUnavailableReason } from '../pages/share-page';
+import { invalidRenderFilename, sendStoredFile, storedFileRange } from '../renders/files';
+import type { RenderStorage, StoredObject } from '../storage/types';
+import type { ShareSigner } from './links';
+import type { ShareLink, ShareStore } from './store';
+
+/** Cookie naming a client that has been counted a download of a link */
+const SESSION_COOKIE = 'share_session';
+
+/** Longest a link can stay valid */
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+const createShareSchema = z.object({
+  filename: z.string(),
+  expiresInHours: z.number().positive().max(MAX_EXPIRY_HOURS).default(72),
+  maxDownloads: z.number().int().min(1).nullable().default(null),
+});
+
+type ShareRouterOptions = {
+  storage: RenderStorage;
+  store: ShareStore;
+  signer: ShareSigner;
+  /** Branded logo shown on the landing page, or null */
+  logoSvg: string | null;
+  /** Records downloads through share links */
+  audit?: AuditLog;
+  /** Only send the session cookie over HTTPS */
+  secureCookies: boolean;
+};
+
+type ShareApiRouterOptions = {
+  storage: RenderStorage;
+  store: ShareStore;
+  signer: ShareSigner;
+  /** Public base URL for minted links; taken from the request when null */
+  publicUrl: string | null;
+};
+
+/**
+ * Token for an existing link. Signing is deterministic, so the same link
+ * always gets the same URL.
+ */
+const tokenFor = (signer: ShareSigner, link: ShareLink): string =>
+  signer.sign({
+    id: link.id,
+    file: link.file,
+    exp: Math.floor(new Date(link.expiresAt).getTime() / 1000),
+  });
+
+export const createShareRouter = ({
+  storage,
+  store,
+  signer,
+  logoSvg,
+  audit,
+  secureCookies,
+}: ShareRouterOptions): express.Router => {
+  const router = express.Router();
+
+  const unavailable = (res: express.Response, reason: ShareUnavailableReason): express.Response => {
+    const status = reason === 'not-found' ? 404 : 410;
+    return res.status(status).send(shareUnavailablePage(logoSvg, reason));
+  };
+
+  /**
+   * Resolve a token to its link and file, or send the unavailable page
+   */
+  const resolve = async (
+    token: string,
+    req: express.Request,
+    res: express.Response
+  ): Promise<{ link: ShareLink; object: StoredObject; session: string | null } | null> => {
+    const payload = signer.verify(token);
+    if (!payload || invalidRenderFilename(payload.file)) {
+      unavailable(res, 'not-found');
+      return null;
+    }
+
+    if (payload.exp * 1000 <= Date.now()) {
+      unavailable(res, 'expired');
+      return null;
+    }
+
+    const cookies = req.cookies as Record<string, string | undefined>;
+    const session = cookies[SESSION_COOKIE] ?? null;
+    const state = store.check(payload.id, session ?? undefined);
+    if (!state.usable) {
+      unavailable(res, state.reason);
+      return null;
+    }
+    if (state.link.file !== payload.file) {
+      unavailable(res, 'not-found');
+      return null;
+    }
+
+    const object = await storage.stat(state.link.file);
+    if (!object) {
+      unavailable(res, 'file-missing');
+      return null;
+    }
+    const counted = session !== null && store.hasSession(state.link.id, session);
+    return { link: state.link, object, session: counted ? session : null };
+  };
+
+  router.get('/share/:token', async (req: express.Request<{ token: string }>, res) => {
+    const resolved = await resolve(req.params.token, req, res);
+    if (!resolved) {
+      return;
+    }
+    const { link } = resolved;
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(
+      sharePage({
+        logoSvg,
+        file: link.file,
+        fileUrl: `/share/${req.params.token}/file`,
+        expiresAt: link.expiresAt,
+        downloadsLeft: link.maxDownloads === null ? null : link.maxDownloads - link.downloads,
+      })
+    );
+  });
+
+  router.get('/share/:token/file', async (req: express.Request<{ token: string }>, res) => {
+    const resolved = await resolve(req.params.token, req, res);
+    if (!resolved) {
+      return;
+    }
+    const { link, object, session } = resolved;
+    const inline = req.query.download !== '1';
+
+    const range = storedFileRange(req, object);
+    if (session === null && req.method === 'GET' && range !== 'unsatisfiable') {
+      const finishDownload = store.startDownload(link.id);
+      if (!finishDownload) {
+        unavailable(res, 'download-limit');
+        return;
+      }
+      const newSession = randomBytes(16).toString('base64url');
+      res.cookie(SESSION_COOKIE, newSession, {
+        httpOnly: true,
+        secure: secureCookies,
+        sameSite: 'lax',
+        path: `/share/${req.params.token}`,
+        expires: new Date(link.expiresAt),
+      });
+      // Counts once any of the file has been sent, even if the client hangs up
+      res.on('close', () => {
+        const sent = res.headersSent && (res.statusCode === 200 || res.statusCode === 206);
+        finishDownload(sent, newSession);
+        if (sent) {
+          console.log('[Share] Downloaded:', link.file, `(link ${link.id})`);
+          audit?.record('download', req, null, { file: link.file, share: link.id, inline });
+        }
+      });
+    }
+
+    await sendStoredFile(req, res, { storage, object, filename: link.file, inline });
+  });
+
+  return router;
+};
+
+export const createShareApiRouter = ({
+  storage,
+  store,
+  signer,
+  publicUrl,
+}: ShareApiRouterOptions): express.Router => {
+  const router = express.Router();
+
+  const withUrl = (req: express.Request, link: ShareLink): ShareLink & { url: string } => {
+    const base = publicUrl ?? `${req.protocol}://${req.get('host') ?? 'localhost'}`;
+    return { ...link, url: `${base.replace(/\/$/, '')}/share/${tokenFor(signer, link)}` };
+  };
+
+  router.post('/api/shares', requireRole('editor'), express.json(), async (req, res) => {
+    const parsed = createShareSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid share request',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const { filename, expiresInHours, maxDownloads } = parsed.data;
+    const invalid = invalidRenderFilename(filename);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (!(await storage.stat(filename))) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const link = store.create({
+      file: filename,
+      createdBy: res.locals.user?.id ?? 'unknown',
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+      maxDownloads,
+    });
+    console.log('[Share] Created link for', filename, 'by', link.createdBy);
+    return res.status(201).json(withUrl(req, link));
+  });
+
+  router.get('/api/shares', requireRole('editor'), (req, res) => {
+    res.json({ shares: store.list().map((link) => withUrl(req, link)) });
+  });
+
+  router.delete(
+    '/api/shares/:id',
+    requireRole('editor'),
+    (req: express.Request<{ id: string }>, res) => {
+      if (!store.revoke(req.params.id)) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+      console.log('[Share] Revoked link', req.params.id);
+      return res.status(204).end();
+    }
+  );
+
+  return router;
+};
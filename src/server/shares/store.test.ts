@@ -0,0 +1,118 @@
+/**
+ * Tests for the share link store
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createShareSigner } from './links';
+import { createShareStore } from './store';
+
+describe('Share store', () => {
+  let tmpDir: string;
+  let stateFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'share-store-test-'));
+    stateFile = path.join(tmpDir, 'shares.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const inHours = (hours: number): string => new Date(Date.now() + hours * 3600_000).toISOString();
+
+  it('should expire links', () => {
+    vi.useFakeTimers();
+    const store = createShareStore({ stateFile });
+    const link = store.create({
+      file: 'logo.mp4',
+      createdBy: 'user-1',
+      expiresAt: inHours(1),
+      maxDownloads: null,
+    });
+
+    expect(store.check(link.id).usable).toBe(true);
+    vi.advanceTimersByTime(3600_000);
+    expect(store.check(link.id)).toEqual({ usable: false, reason: 'expired' });
+  });
+
+  it('should hold download slots so parallel downloads cannot exceed the limit', () => {
+    const store = createShareStore({ stateFile });
+    const link = store.create({
+      file: 'logo.mp4',
+      createdBy: 'user-1',
+      expiresAt: inHours(1),
+      maxDownloads: 1,
+    });
+
+    const first = store.startDownload(link.id);
+    expect(first).not.toBeNull();
+    expect(store.startDownload(link.id)).toBeNull();
+
+    // An aborted download frees its slot without counting
+    first!(false);
+    const second = store.startDownload(link.id);
+    second!(true);
+    second!(false);
+
+    expect(store.get(link.id)?.downloads).toBe(1);
+    expect(store.check(link.id)).toEqual({ usable: false, reason: 'download-limit' });
+  });
+
+  it('should let counted sessions keep using a link past its limit', () => {
+    const store = createShareStore({ stateFile });
+    const link = store.create({
+      file: 'logo.mp4',
+      createdBy: 'user-1',
+      expiresAt: inHours(1),
+      maxDownloads: 1,
+    });
+
+    store.startDownload(link.id)!(true, 'session-a');
+
+    expect(store.hasSession(link.id, 'session-a')).toBe(true);
+    expect(store.check(link.id, 'session-a').usable).toBe(true);
+    expect(store.check(link.id, 'session-b')).toEqual({
+      usable: false,
+      reason: 'download-limit',
+    });
+    expect(store.check(link.id)).toEqual({ usable: false, reason: 'download-limit' });
+
+    store.revoke(link.id);
+    expect(store.check(link.id, 'session-a')).toEqual({ usable: false, reason: 'revoked' });
+  });
+
+  it('should persist revocations and download counts', () => {
+    const store = createShareStore({ stateFile });
+    const link = store.create({
+      file: 'logo.mp4',
+      createdBy: 'user-1',
+      expiresAt: inHours(1),
+      maxDownloads: 5,
+    });
+    store.startDownload(link.id)!(true);
+    store.revoke(link.id);
+
+    const reloaded = createShareStore({ stateFile });
+    expect(reloaded.get(link.id)?.downloads).toBe(1);
+    expect(reloaded.get(link.id)?.revokedAt).not.toBeNull();
+    expect(reloaded.check(link.id)).toEqual({ usable: false, reason: 'revoked' });
+  });
+
+  it('should only accept tokens signed with the same secret', () => {
+    const signer = createShareSigner('secret-a');
+    const payload = { id: 'share-1', file: 'logo.mp4', exp: 2_000_000_000 };
+    const token = signer.sign(payload);
+
+    expect(signer.verify(token)).toEqual(payload);
+    expect(createShareSigner('secret-b').verify(token)).toBeNull();
+    expect(signer.verify(`${token}x`)).toBeNull();
+    expect(signer.verify('not-a-token')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Share link store
+ *
+ * Keeps every minted share link so links can be listed, revoked and limited
+ * to a number of downloads. Persisted to a JSON file in STATE_DIR.
+ *
+ * The share routes decide which requests count as a download. While one is
+ * running it holds a slot, so parallel requests cannot exceed the limit.
+ * A counted download can name a client session; that session may keep using
+ * the link after the limit is reached. Sessions are kept in memory only, so
+ * after a restart a client's next request counts again.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from '../json-file';
+
+/** Expired and revoked links are kept this long for the listing, then dropped */
+const KEEP_INACTIVE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ShareLink = {
+  id: string;
+  /** Rendered file in out/ */
+  file: string;
+  /** User id of whoever created the link */
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Null for unlimited downloads */
+  maxDownloads: number | null;
+  downloads: number;
+  revokedAt: string | null;
+};
+
+export type ShareLinkState =
+  | { usable: true; link: ShareLink }
+  | { usable: false; reason: 'not-found' | 'revoked' | 'expired' | 'download-limit' };
+
+type ShareStoreOptions = {
+  /** JSON file the links are persisted to */
+  stateFile: string;
+};
+
+type PersistedShares = {
+  links: ShareLink[];
+};
+
+export type ShareStore = {
+  create: (link: Pick<ShareLink, 'file' | 'createdBy' | 'expiresAt' | 'maxDownloads'>) => ShareLink;
+  get: (id: string) => ShareLink | undefined;
+  /** All known links, newest first */
+  list: () => ShareLink[];
+  /**
+   * Whether the link can still be viewed and downloaded, by `session` if given
+   */
+  check: (id: string, session?: string) => ShareLinkState;
+  /** Whether `session` has already been counted a download of the link */
+  hasSession: (id: string, session: string) => boolean;
+  /** Whether any usable link points at the file */
+  isShared: (file: string) => boolean;
+  /**
+   * Reserve a download slot. Returns a function to call when the download
+   * has finished (complete: true counts it and remembers `session`), or null
+   * when the limit is reached.
+   */
+  startDownload: (id: string) => ((complete: boolean, session?: string) => void) | null;
+  /** Returns false for unknown links */
+  revoke: (id: string) => boolean;
+};
+
+export const createShareStore = ({ stateFile }: ShareStoreOptions): ShareStore => {
+  const links = new Map<string, ShareLink>(
+    readJsonFile<PersistedShares>(stateFile, { links: [] }).links.map((link) => [link.id, link])
+  );
+  const activeDownloads = new Map<string, number>();
+  const sessions = new Map<string, Set<string>>();
+
+  const hasSession = (id: string, session: string): boolean =>
+    sessions.get(id)?.has(session) ?? false;
+
+  const persist = (): void => {
+    const cutoff = Date.now() - KEEP_INACTIVE_MS;
+    for (const link of links.values()) {
+      const inactiveSince = link.revokedAt ?? link.expiresAt;
+      if (new Date(inactiveSince).getTime() < cutoff) {
+        links.delete(link.id);
+        sessions.delete(link.id);
+      }
+    }
+    writeJsonFile(stateFile, { links: [...links.values()] } satisfies PersistedShares);
+  };
+
+  const check = (id: string, session?: string): ShareLinkState => {
+    const link = links.get(id);
+    if (!link) {
+      return { usable: false, reason: 'not-found' };
+    }
+    if (link.revokedAt) {
+      return { usable: false, reason: 'revoked' };
+    }
+    if (new Date(link.expiresAt).getTime() <= Date.now()) {
+      return { usable: false, reason: 'expired' };
+    }
+    const counted = session !== undefined && hasSession(id, session);
+    if (link.maxDownloads !== null && link.downloads >= link.maxDownloads && !counted) {
+      return { usable: false, reason: 'download-limit' };
+    }
+    return { usable: true, link };
+  };
+
+  return {
+    create: (details): ShareLink => {
+      const link: ShareLink = {
+        ...details,
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+        downloads: 0,
+        revokedAt: null,
+      };
+      links.set(link.id, link);
+      persist();
+      return link;
+    },
+
+    get: (id): ShareLink | undefined => links.get(id),
+
+    list: (): ShareLink[] =>
+      [...links.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    check,
+    hasSession,
+
+    isShared: (file): boolean =>
+      [...links.values()].some((link) => link.file === file && check(link.id).usable),
+
+    startDownload: (id): ((complete: boolean, session?: string) => void) | null => {
+      const state = check(id);
+      if (!state.usable) {
+        return null;
+      }
+      const { link } = state;
+      const active = activeDownloads.get(id) ?? 0;
+      if (link.maxDownloads !== null && link.downloads + active >= link.maxDownloads) {
+        return null;
+      }
+      activeDownloads.set(id, active + 1);
+
+      let finished = false;
+      return (complete, session) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        activeDownloads.set(id, (activeDownloads.get(id) ?? 1) - 1);
+        if (complete) {
+          link.downloads += 1;
+          if (session !== undefined) {
+            sessions.set(id, (sessions.get(id) ?? new Set()).add(session));
+          }
+          persist();
+        }
+      };
+    },
+
+    revoke: (id): boolean => {
+      const link = links.get(id);
+      if (!link) {
+        return false;
+      }
+      link.revokedAt ??= new Date().toISOString();
+      persist();
+      return true;
+    },
+  };
+};
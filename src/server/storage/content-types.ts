@@ -0,0 +1,17 @@
+/**
+ * Content types of the files kept in render storage
+ */
+
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+};
+
+export const contentTypeFor = (filename: string): string =>
+  CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
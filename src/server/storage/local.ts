@@ -0,0 +1,97 @@
+/**
+ * Local disk storage
+ *
+ * Keeps renders in a directory (out/ by default), exactly where the Studio
+ * writes them. Nothing survives a redeploy on platforms with an ephemeral
+ * filesystem such as Railway - use S3 storage there.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { RenderStorage, StoredObject } from './types';
+
+type LocalStorageOptions = {
+  root: string;
+};
+
+export const createLocalStorage = ({ root }: LocalStorageOptions): RenderStorage => {
+  const resolve = (key: string): string => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  };
+
+  const toObject = (key: string, stats: fs.Stats): StoredObject => ({
+    key,
+    size: stats.size,
+    modifiedAt: stats.mtime,
+  });
+
+  return {
+    describe: (): string => root,
+
+    list: async (prefix = ''): Promise<StoredObject[]> => {
+      const dir = path.join(root, prefix);
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(dir);
+      } catch {
+        return [];
+      }
+      const objects: StoredObject[] = [];
+      for (const name of names) {
+        try {
+          const stats = await fs.promises.stat(path.join(dir, name));
+          if (stats.isFile()) {
+            objects.push(toObject(`${prefix}${name}`, stats));
+          }
+        } catch {
+          // Deleted while listing
+        }
+      }
+      return objects;
+    },
+
+    stat: async (key): Promise<StoredObject | null> => {
+      try {
+        const stats = await fs.promises.stat(resolve(key));
+        return stats.isFile() ? toObject(key, stats) : null;
+      } catch {
+        return null;
+      }
+    },
+
+    read: async (key, range): Promise<fs.ReadStream> => {
+      const filePath = resolve(key);
+      // Fail before the caller starts responding
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath, range ?? {});
+    },
+
+    write: async (key, body): Promise<void> => {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename, so readers never see a half-written file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, body);
+      await fs.promises.rename(tmpPath, filePath);
+    },
+
+    importFile: async (key, localPath): Promise<void> => {
+      const filePath = resolve(key);
+      if (path.resolve(localPath) === filePath) {
+        return;
+      }
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.rename(localPath, filePath);
+    },
+
+    delete: async (key): Promise<void> => {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+
+    presignedUrl: (): Promise<null> => Promise.resolve(null),
+  };
+};
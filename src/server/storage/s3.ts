@@ -0,0 +1,157 @@
+/**
+ * S3-compatible storage
+ *
+ * Keeps renders in a bucket (AWS S3, Cloudflare R2, MinIO, ...) so they
+ * survive redeploys. Finished files are uploaded from local disk and the
+ * local copy is removed. Downloads are streamed through the proxy, or
+ * redirected to presigned URLs when that is turned on.
+ *
+ * For local development and tests, point `endpoint` at a MinIO server
+ * (see docker-compose.yml); path-style URLs are used whenever an endpoint
+ * is set.
+ */
+
+import fs from 'fs';
+import type { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { RenderStorage, StoredObject } from './types';
+
+export type S3StorageOptions = {
+  bucket: string;
+  /** Prepended to every key, e.g. "renders/" */
+  prefix: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services, e.g. http://localhost:9000 for MinIO */
+  endpoint: string | null;
+  /** Falls back to the AWS default credential chain when null */
+  credentials: { accessKeyId: string; secretAccessKey: string } | null;
+};
+
+const isNotFound = (err: unknown): boolean => {
+  const { name, $metadata } = err as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NotFound' || name === 'NoSuchKey' || $metadata?.httpStatusCode === 404;
+};
+
+export const createS3Storage = ({
+  bucket,
+  prefix,
+  region,
+  endpoint,
+  credentials,
+}: S3StorageOptions): RenderStorage => {
+  const client = new S3Client({
+    region,
+    ...(endpoint && { endpoint, forcePathStyle: true }),
+    ...(credentials && { credentials }),
+  });
+
+  return {
+    describe: (): string => `s3://${bucket}/${prefix}${endpoint ? ` (${endpoint})` : ''}`,
+
+    list: async (listPrefix = ''): Promise<StoredObject[]> => {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: `${prefix}${listPrefix}`,
+            // Only direct children, like a directory listing
+            Delimiter: '/',
+            ContinuationToken: continuationToken,
+          })
+        );
+        for (const object of page.Contents ?? []) {
+          if (object.Key) {
+            objects.push({
+              key: object.Key.slice(prefix.length),
+              size: object.Size ?? 0,
+              modifiedAt: object.LastModified ?? new Date(0),
+            });
+          }
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+      return objects;
+    },
+
+    stat: async (key): Promise<StoredObject | null> => {
+      try {
+        const head = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: `${prefix}${key}` })
+        );
+        return {
+          key,
+          size: head.ContentLength ?? 0,
+          modifiedAt: head.LastModified ?? new Date(0),
+        };
+      } catch (err) {
+        if (isNotFound(err)) {
+          return null;
+        }
+        throw err;
+      }
+    },
+
+    read: async (key, range): Promise<Readable> => {
+      const object = await client.send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: `${prefix}${key}`,
+          ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+        })
+      );
+      // In Node.js the body is an http.IncomingMessage
+      return object.Body as Readable;
+    },
+
+    write: async (key, body, contentType): Promise<void> => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: `${prefix}${key}`,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    importFile: async (key, localPath, contentType): Promise<void> => {
+      // Multipart upload, so large renders are not buffered in memory
+      await new Upload({
+        client,
+        params: {
+          Bucket: bucket,
+          Key: `${prefix}${key}`,
+          Body: fs.createReadStream(localPath),
+          ContentType: contentType,
+        },
+      }).done();
+      await fs.promises.rm(localPath, { force: true });
+    },
+
+    delete: async (key): Promise<void> => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: `${prefix}${key}` }));
+    },
+
+    presignedUrl: (key, { expiresInSeconds, filename, inline }): Promise<string> =>
+      getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: `${prefix}${key}`,
+          ResponseContentDisposition: `${inline ? 'inline' : 'attachment'}; filename="${filename}"`,
+        }),
+        { expiresIn: expiresInSeconds }
+      ),
+  };
+};
@@ -0,0 +1,51 @@
+/**
+ * Types for render output storage
+ *
+ * Renders are always produced on local disk (the Studio writes to out/,
+ * the queue to out/.partial/) and then handed to a storage backend, which
+ * is where everything that reads them - the listing, downloads, share
+ * links, previews and retention - looks for them.
+ *
+ * Keys are relative paths using `/`, e.g. `logo-1a2b3c4d.mp4`,
+ * `logo-1a2b3c4d.mp4.json` or `.previews/logo-1a2b3c4d.mp4.poster.jpg`.
+ */
+
+import type { Readable } from 'stream';
+
+export type StoredObject = {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+};
+
+/** Inclusive byte range */
+export type ByteRange = { start: number; end: number };
+
+export type PresignOptions = {
+  expiresInSeconds: number;
+  /** Name offered to the browser */
+  filename: string;
+  /** Display in the browser instead of downloading */
+  inline: boolean;
+};
+
+export type RenderStorage = {
+  /** Where files live, for logs (e.g. a directory or s3://bucket/prefix) */
+  describe: () => string;
+  /** Objects directly under `prefix` (a directory-like key ending in `/`, or '' for the top level) */
+  list: (prefix?: string) => Promise<StoredObject[]>;
+  /** Null when the object does not exist */
+  stat: (key: string) => Promise<StoredObject | null>;
+  /** Rejects when the object does not exist */
+  read: (key: string, range?: ByteRange) => Promise<Readable>;
+  write: (key: string, body: string | Buffer, contentType: string) => Promise<void>;
+  /**
+   * Move a finished local file into storage. The local file is gone afterwards
+   * (or, for local storage, already in place).
+   */
+  importFile: (key: string, localPath: string, contentType: string) => Promise<void>;
+  /** Succeeds when the object does not exist */
+  delete: (key: string) => Promise<void>;
+  /** Time-limited URL that serves the object directly, or null when the backend has none */
+  presignedUrl: (key: string, options: PresignOptions) => Promise<string | null>;
+};
@@ -0,0 +1,127 @@
+/**
+ * Proxy to Remotion Studio
+ *
+ * The Studio itself requires the editor role; viewers are sent to the
+ * downloads page. HTML responses get the auto-download script and the
+ * "signed in as" badge injected before </body>. Render requests from the
+ * Studio's render dialog are handed to the Studio render tracker first, which
+ * gives each render a versioned output name.
+ */
+
+import express from 'express';
+import { createProxyMiddleware, fixRequestBody } from 'http-proxy-middleware';
+import type { AuditLog } from './audit/log';
+import { hasRole } from './auth/roles';
+import type { StudioMetrics } from './monitoring/metrics';
+import { autoDownloadScript } from './pages/auto-download-script';
+import { sessionBadge } from './pages/session-badge';
+import { renderUser } from './renders/metadata';
+import type { StudioRenderTracker } from './renders/studio-renders';
+
+type StudioProxyOptions = {
+  /** Remotion Studio URL, e.g. http://localhost:3001 */
+  target: string;
+  /**
+   * Let the injected script delete renders after downloading them (admins only).
+   * Off when a retention policy takes care of out/ instead.
+   */
+  cleanupAfterDownload: boolean;
+  /** Show a logout button in the badge (off when auth is bypassed) */
+  logoutButton: boolean;
+  studioRenders: StudioRenderTracker;
+  audit?: AuditLog;
+  metrics?: StudioMetrics;
+};
+
+export const createStudioProxy = ({
+  target,
+  cleanupAfterDownload,
+  logoutButton,
+  studioRenders,
+  audit,
+  metrics,
+}: StudioProxyOptions): express.Router => {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    if (hasRole(res.locals.user, 'editor')) {
+      return next();
+    }
+    if (req.method === 'GET' && req.accepts('html')) {
+      return res.redirect('/downloads');
+    }
+    return res.status(403).send('Studio access requires editor role');
+  });
+
+  // The body is parsed here (or already by the render job router) and re-sent by the proxy
+  router.post('/api/render', express.json({ limit: '1mb' }), (req, res, next) => {
+    const body: unknown = req.body;
+    if (typeof body === 'object' && body !== null) {
+      const user = renderUser(res.locals.user);
+      const file = studioRenders.prepare(body as Record<string, unknown>, user);
+      if (file) {
+        audit?.record('render', req, user, {
+          file,
+          compositionId: (body as Record<string, unknown>).compositionId,
+          source: 'studio',
+        });
+      }
+    }
+    next();
+  });
+
+  router.use(
+    createProxyMiddleware<express.Request, express.Response>({
+      target,
+      ws: true,
+      changeOrigin: true,
+      selfHandleResponse: true,
+      on: {
+        proxyReq: fixRequestBody,
+        proxyRes: (proxyRes, _req, res) => {
+          const contentType = proxyRes.headers['content-type'] ?? '';
+
+          // Only modify HTML responses (the main page)
+          if (contentType.includes('text/html')) {
+            let body = '';
+            proxyRes.on('data', (chunk: Buffer) => {
+              body += chunk.toString();
+            });
+            proxyRes.on('end', () => {
+              // Only admins may delete renders, so only their downloads request cleanup
+              const script = autoDownloadScript(
+                cleanupAfterDownload && hasRole(res.locals.user, 'admin')
+              );
+              const badge = res.locals.user
+                ? sessionBadge({ user: res.locals.user, logoutButton })
+                : '';
+              const modifiedBody = body.replace('</body>', badge + script + '</body>');
+
+              // Copy headers but update content-length
+              const headers = { ...proxyRes.headers };
+              headers['content-length'] = Buffer.byteLength(modifiedBody).toString();
+              delete headers['content-encoding']; // Remove compression since we modified content
+
+              res.writeHead(proxyRes.statusCode ?? 200, headers);
+              res.end(modifiedBody);
+            });
+          } else {
+            // For non-HTML, just pipe through
+            res.writeHead(proxyRes.statusCode ?? 200, proxyRes.headers);
+            proxyRes.pipe(res);
+          }
+        },
+        error: (err, _req, res) => {
+          console.error('Proxy error:', err.message);
+          metrics?.proxyError();
+          if ('writeHead' in res && typeof res.writeHead === 'function') {
+            res.writeHead(503, { 'Content-Type': 'text/plain', 'Retry-After': '5' });
+            res.end('Remotion Studio is starting up, please refresh in a few seconds...');
+          }
+        },
+      },
+    })
+  );
+
+  return router;
+};
@@ -0,0 +1,243 @@
+/**
+ * Tests for webhook delivery, against a local HTTP receiver
+ *
+ * @vitest-environment node
+ */
+
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createWebhookDispatcher } from './dispatcher';
+import type { WebhookDispatcher, WebhookPayload } from './dispatcher';
+import { signWebhookBody, verifyWebhookSignature } from './signature';
+import { createWebhookStore } from './store';
+import type { WebhookStore } from './store';
+
+type ReceivedRequest = {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+};
+
+describe('Webhook dispatcher', () => {
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  /** Status codes the receiver answers with, in order (200 once used up) */
+  let responses: number[];
+  let tmpDir: string;
+  let store: WebhookStore;
+  let dispatchers: WebhookDispatcher[];
+
+  beforeAll(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body, receivedAt: Date.now() });
+        res.writeHead(responses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+    dispatchers = [];
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+    store = createWebhookStore({ stateFile: path.join(tmpDir, 'webhooks.json') });
+  });
+
+  afterEach(() => {
+    for (const dispatcher of dispatchers) {
+      dispatcher.close();
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const createDispatcher = (maxAttempts = 3): WebhookDispatcher => {
+    const dispatcher = createWebhookDispatcher({
+      store,
+      logFile: path.join(tmpDir, 'deliveries.json'),
+      maxAttempts,
+      retryBaseMs: 20,
+      timeoutMs: 1000,
+    });
+    dispatchers.push(dispatcher);
+    return dispatcher;
+  };
+
+  const subscribe = (): ReturnType<WebhookStore['create']> =>
+    store.create({
+      url: receiverUrl,
+      events: ['render.completed', 'render.failed'],
+      description: null,
+      createdBy: 'admin-user',
+    });
+
+  it('should POST signed payloads to subscribers of the event only', async () => {
+    const subscription = subscribe();
+    const dispatcher = createDispatcher();
+
+    expect(dispatcher.dispatch('render.started', { file: null })).toEqual([]);
+    const [delivery] = dispatcher.dispatch('render.completed', { file: 'logo-00000001.mp4' });
+
+    await vi.waitFor(() => expect(dispatcher.get(delivery!.id)?.status).toBe('delivered'));
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received as [ReceivedRequest];
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers['x-webhook-event']).toBe('render.completed');
+    expect(headers['x-webhook-id']).toBe(delivery!.id);
+    expect(
+      verifyWebhookSignature(subscription.secret, body, headers['x-webhook-signature'] as string)
+    ).toBe(true);
+    expect(JSON.parse(body)).toMatchObject({
+      id: delivery!.id,
+      event: 'render.completed',
+      data: { file: 'logo-00000001.mp4' },
+    } satisfies Partial<WebhookPayload>);
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    subscribe();
+    responses = [500, 503];
+    const dispatcher = createDispatcher();
+
+    const [delivery] = dispatcher.dispatch('render.failed', { error: 'boom' });
+
+    await vi.waitFor(() => expect(dispatcher.get(delivery!.id)?.status).toBe('delivered'));
+    expect(dispatcher.get(delivery!.id)).toMatchObject({
+      attempts: 3,
+      responseStatus: 200,
+      error: null,
+    });
+    // Every attempt sends the same delivery, waiting twice as long before each retry
+    expect(new Set(received.map((request) => request.body)).size).toBe(1);
+    const [first, second, third] = received.map((request) => request.receivedAt) as [
+      number,
+      number,
+      number,
+    ];
+    expect(second - first).toBeGreaterThanOrEqual(15);
+    expect(third - second).toBeGreaterThanOrEqual(35);
+  });
+
+  it('should give up after the last attempt and keep the failure in the log', async () => {
+    subscribe();
+    responses = [500, 500];
+    const dispatcher = createDispatcher(2);
+
+    const [delivery] = dispatcher.dispatch('render.failed', { error: 'boom' });
+
+    await vi.waitFor(() => expect(dispatcher.get(delivery!.id)?.status).toBe('failed'));
+    expect(received).toHaveLength(2);
+    expect(dispatcher.list({ status: 'failed' })).toEqual([
+      expect.objectContaining({
+        id: delivery!.id,
+        attempts: 2,
+        responseStatus: 500,
+        error: 'Receiver answered 500',
+        nextAttemptAt: null,
+      }),
+    ]);
+
+    // The log survives a restart
+    expect(createDispatcher(2).get(delivery!.id)?.status).toBe('failed');
+  });
+
+  it('should resume pending deliveries after a restart', async () => {
+    subscribe();
+    const first = createDispatcher();
+    // Closed before its first attempt, as if the server stopped right away
+    first.close();
+    const [delivery] = first.dispatch('render.completed', { file: 'logo-00000001.mp4' });
+    expect(received).toHaveLength(0);
+
+    const second = createDispatcher();
+
+    await vi.waitFor(() => expect(second.get(delivery!.id)?.status).toBe('delivered'));
+    expect(received).toHaveLength(1);
+  });
+
+  it('should log delivery log write errors after an attempt', async () => {
+    subscribe();
+    const dispatcher = createDispatcher();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [delivery] = dispatcher.dispatch('render.completed', { file: 'logo-00000001.mp4' });
+    // The log can no longer be written: a directory is in its place
+    const logFile = path.join(tmpDir, 'deliveries.json');
+    fs.rmSync(logFile);
+    fs.mkdirSync(path.join(logFile, 'blocked'), { recursive: true });
+
+    await vi.waitFor(() =>
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[Webhook] Could not save delivery',
+        delivery!.id,
+        'to the log:',
+        expect.any(String)
+      )
+    );
+    expect(dispatcher.get(delivery!.id)?.status).toBe('delivered');
+    errorSpy.mockRestore();
+  });
+
+  it('should redeliver a logged delivery as a new delivery', async () => {
+    subscribe();
+    const dispatcher = createDispatcher();
+    const [delivery] = dispatcher.dispatch('render.completed', { file: 'logo-00000001.mp4' });
+    await vi.waitFor(() => expect(dispatcher.get(delivery!.id)?.status).toBe('delivered'));
+
+    const redelivery = dispatcher.redeliver(delivery!.id);
+
+    expect(redelivery?.id).not.toBe(delivery!.id);
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(JSON.parse(received[1]!.body)).toMatchObject({
+      id: redelivery!.id,
+      data: { file: 'logo-00000001.mp4' },
+    });
+    expect(dispatcher.redeliver('unknown')).toBeNull();
+  });
+
+  it('should fail deliveries of deleted subscriptions without sending them', async () => {
+    const subscription = subscribe();
+    const dispatcher = createDispatcher();
+    dispatcher.close();
+    const [delivery] = dispatcher.dispatch('render.failed', { error: 'boom' });
+    store.remove(subscription.id);
+
+    const restarted = createDispatcher();
+
+    await vi.waitFor(() => expect(restarted.get(delivery!.id)?.status).toBe('failed'));
+    expect(restarted.get(delivery!.id)?.error).toBe('Subscription was deleted');
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('Webhook signatures', () => {
+  const body = JSON.stringify({ event: 'render.completed' });
+
+  it('should reject changed bodies, wrong secrets and old timestamps', () => {
+    const header = signWebhookBody('secret', body);
+
+    expect(verifyWebhookSignature('secret', body, header)).toBe(true);
+    expect(verifyWebhookSignature('secret', `${body} `, header)).toBe(false);
+    expect(verifyWebhookSignature('other', body, header)).toBe(false);
+    expect(verifyWebhookSignature('secret', body, 'v1=abc')).toBe(false);
+
+    const old = signWebhookBody('secret', body, Math.floor(Date.now() / 1000) - 600);
+    expect(verifyWebhookSignature('secret', body, old)).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Webhook delivery
+ *
+ * Every event is delivered to each subscription that wants it as a signed
+ * JSON POST. Each delivery is kept in a log (a JSON file in STATE_DIR) with
+ * its attempts and the receiver's last response, so failing receivers can
+ * be diagnosed and deliveries sent again.
+ *
+ * A delivery succeeds on any 2xx response. Anything else (including
+ * redirects and timeouts) is retried with exponential backoff until
+ * `maxAttempts` is used up. Deliveries still pending at shutdown are
+ * resumed on the next start.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from '../json-file';
+import { SIGNATURE_HEADER, signWebhookBody } from './signature';
+import type { WebhookEventType, WebhookStore } from './store';
+
+/** Deliveries kept in the log; the oldest finished ones are dropped first */
+const MAX_LOGGED_DELIVERIES = 500;
+
+/** Retries never wait longer than this */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type WebhookDelivery = {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEventType;
+  /** The exact JSON body, sent unchanged on every attempt */
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, null when the receiver did not answer */
+  responseStatus: number | null;
+  /** Why the last attempt failed */
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  /** When the next attempt is due, null unless a retry is scheduled */
+  nextAttemptAt: string | null;
+};
+
+/** The JSON body of every delivery */
+export type WebhookPayload = {
+  /** Delivery id, also sent as X-Webhook-Id (the same on every attempt) */
+  id: string;
+  event: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+export type WebhookDeliveryFilter = {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+};
+
+type WebhookDispatcherOptions = {
+  store: WebhookStore;
+  /** JSON file the delivery log is persisted to */
+  logFile: string;
+  /** Attempts per delivery before it is marked failed */
+  maxAttempts: number;
+  /** Wait before the first retry, doubled for every further retry */
+  retryBaseMs: number;
+  /** How long a receiver gets to answer */
+  timeoutMs: number;
+};
+
+type PersistedDeliveries = {
+  deliveries: WebhookDelivery[];
+};
+
+export type WebhookDispatcher = {
+  /** Queue the event for every subscription that wants it */
+  dispatch: (event: WebhookEventType, data: Record<string, unknown>) => WebhookDelivery[];
+  get: (id: string) => WebhookDelivery | undefined;
+  /** Logged deliveries, newest first */
+  list: (filter?: WebhookDeliveryFilter) => WebhookDelivery[];
+  /**
+   * Send a logged delivery again, as a new delivery with the same payload.
+   * Returns null for unknown deliveries or deleted subscriptions.
+   */
+  redeliver: (id: string) => WebhookDelivery | null;
+  /** Stop scheduling attempts (pending deliveries resume on the next start) */
+  close: () => void;
+};
+
+export const createWebhookDispatcher = ({
+  store,
+  logFile,
+  maxAttempts,
+  retryBaseMs,
+  timeoutMs,
+}: WebhookDispatcherOptions): WebhookDispatcher => {
+  const deliveries = new Map<string, WebhookDelivery>(
+    readJsonFile<PersistedDeliveries>(logFile, { deliveries: [] }).deliveries.map((delivery) => [
+      delivery.id,
+      delivery,
+    ])
+  );
+  const timers = new Map<string, NodeJS.Timeout>();
+  let closed = false;
+
+  const persist = (): void => {
+    const finished = [...deliveries.values()]
+      .filter((delivery) => delivery.status !== 'pending')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const delivery of finished.slice(
+      0,
+      Math.max(0, deliveries.size - MAX_LOGGED_DELIVERIES)
+    )) {
+      deliveries.delete(delivery.id);
+    }
+    writeJsonFile(logFile, { deliveries: [...deliveries.values()] } satisfies PersistedDeliveries);
+  };
+
+  // Attempts run from timers, so a failed write is logged instead of going unhandled
+  const persistAttempt = (delivery: WebhookDelivery): void => {
+    try {
+      persist();
+    } catch (err) {
+      console.error(
+        '[Webhook] Could not save delivery',
+        delivery.id,
+        'to the log:',
+        (err as Error).message
+      );
+    }
+  };
+
+  const schedule = (delivery: WebhookDelivery, delayMs: number): void => {
+    if (closed) {
+      return;
+    }
+    const timer = setTimeout(() => void attempt(delivery), delayMs);
+    timer.unref();
+    timers.set(delivery.id, timer);
+  };
+
+  const attempt = async (delivery: WebhookDelivery): Promise<void> => {
+    timers.delete(delivery.id);
+    delivery.nextAttemptAt = null;
+
+    const subscription = store.get(delivery.subscriptionId);
+    if (!subscription) {
+      delivery.status = 'failed';
+      delivery.error = 'Subscription was deleted';
+      persistAttempt(delivery);
+      return;
+    }
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = new Date().toISOString();
+    try {
+      const res = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'remotion-studio-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          [SIGNATURE_HEADER]: signWebhookBody(subscription.secret, delivery.body),
+        },
+        body: delivery.body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await res.body?.cancel();
+      delivery.responseStatus = res.status;
+      delivery.error = res.ok ? null : `Receiver answered ${res.status}`;
+    } catch (err) {
+      delivery.responseStatus = null;
+      delivery.error = (err as Error).message;
+    }
+
+    if (delivery.error === null) {
+      delivery.status = 'delivered';
+    } else if (delivery.attempts < maxAttempts) {
+      const delayMs = Math.min(retryBaseMs * 2 ** (delivery.attempts - 1), MAX_RETRY_DELAY_MS);
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      console.warn(
+        '[Webhook] Delivery',
+        delivery.id,
+        'to',
+        delivery.url,
+        `failed (${delivery.error}), retrying in ${Math.ceil(delayMs / 1000)}s`
+      );
+      schedule(delivery, delayMs);
+    } else {
+      delivery.status = 'failed';
+      console.error(
+        '[Webhook] Giving up on delivery',
+        delivery.id,
+        'to',
+        delivery.url,
+        `after ${delivery.attempts} attempts:`,
+        delivery.error
+      );
+    }
+    persistAttempt(delivery);
+  };
+
+  const enqueue = (
+    subscription: { id: string; url: string },
+    event: WebhookEventType,
+    body: (id: string) => string
+  ): WebhookDelivery => {
+    const id = randomUUID();
+    const delivery: WebhookDelivery = {
+      id,
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      event,
+      body: body(id),
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      lastAttemptAt: null,
+      nextAttemptAt: null,
+    };
+    deliveries.set(id, delivery);
+    schedule(delivery, 0);
+    return delivery;
+  };
+
+  // Deliveries interrupted by a restart pick up where they left off
+  for (const delivery of deliveries.values()) {
+    if (delivery.status === 'pending') {
+      const dueAt = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : 0;
+      schedule(delivery, Math.max(0, dueAt - Date.now()));
+    }
+  }
+
+  return {
+    dispatch: (event, data): WebhookDelivery[] => {
+      const queued = store.subscribedTo(event).map((subscription) =>
+        enqueue(subscription, event, (id) =>
+          JSON.stringify({
+            id,
+            event,
+            createdAt: new Date().toISOString(),
+            data,
+          } satisfies WebhookPayload)
+        )
+      );
+      if (queued.length > 0) {
+        persist();
+      }
+      return queued;
+    },
+
+    get: (id): WebhookDelivery | undefined => deliveries.get(id),
+
+    list: ({ subscriptionId, status } = {}): WebhookDelivery[] =>
+      [...deliveries.values()]
+        .filter(
+          (delivery) =>
+            (subscriptionId === undefined || delivery.subscriptionId === subscriptionId) &&
+            (status === undefined || delivery.status === status)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    redeliver: (id): WebhookDelivery | null => {
+      const original = deliveries.get(id);
+      const subscription = original && store.get(original.subscriptionId);
+      if (!original || !subscription) {
+        return null;
+      }
+      const payload = JSON.parse(original.body) as WebhookPayload;
+      const delivery = enqueue(subscription, original.event, (newId) =>
+        JSON.stringify({ ...payload, id: newId } satisfies WebhookPayload)
+      );
+      persist();
+      return delivery;
+    },
+
+    close: (): void => {
+      closed = true;
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+    },
+  };
+};
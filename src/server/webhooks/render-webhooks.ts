@@ -0,0 +1,79 @@
+/**
+ * Render lifecycle webhooks
+ *
+ * Turns render events into webhook deliveries:
+ * - render.started   - a queued job or a Studio render began rendering
+ * - render.completed - a render is in storage with its metadata sidecar
+ * - render.failed    - a render failed
+ * - render.deleted   - a render was deleted (by request, cleanup after download, retention)
+ *
+ * Completed renders are announced from `rendered` rather than the completed
+ * event, because Studio renders only have their metadata once the sidecar
+ * has been written.
+ */
+
+import type { RenderEvents } from '../renders/events';
+import type { RenderMetadata } from '../renders/metadata';
+import type { WebhookDispatcher } from './dispatcher';
+
+type RenderWebhooksOptions = {
+  events: RenderEvents;
+  dispatcher: WebhookDispatcher;
+  /** Base for file URLs in payloads; they are relative (/out/...) when null */
+  publicUrl: string | null;
+};
+
+export type RenderWebhooks = {
+  /** Announce a finished render */
+  rendered: (metadata: RenderMetadata) => void;
+  close: () => void;
+};
+
+export const createRenderWebhooks = ({
+  events,
+  dispatcher,
+  publicUrl,
+}: RenderWebhooksOptions): RenderWebhooks => {
+  const fileUrl = (file: string): string =>
+    `${publicUrl?.replace(/\/$/, '') ?? ''}/out/${encodeURIComponent(file)}`;
+
+  const unsubscribe = events.subscribe(({ event }) => {
+    switch (event.type) {
+      case 'started':
+        dispatcher.dispatch('render.started', {
+          file: event.file,
+          jobId: event.jobId,
+          compositionId: event.compositionId,
+        });
+        break;
+      case 'failed':
+        dispatcher.dispatch('render.failed', {
+          file: event.file,
+          jobId: event.jobId,
+          error: event.error,
+        });
+        break;
+      case 'deleted':
+        dispatcher.dispatch('render.deleted', {
+          file: event.file,
+          url: fileUrl(event.file),
+          reason: event.reason,
+        });
+        break;
+      default:
+        break;
+    }
+  });
+
+  return {
+    rendered: (metadata): void => {
+      dispatcher.dispatch('render.completed', {
+        file: metadata.file,
+        url: fileUrl(metadata.file),
+        metadata,
+      });
+    },
+
+    close: unsubscribe,
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * Webhook API (admin role)
+ *
+ * POST   /api/webhooks                               - subscribe ({ url, events?, description? })
+ * GET    /api/webhooks                               - all subscriptions, newest first
+ * DELETE /api/webhooks/:id                           - unsubscribe
+ * GET    /api/webhooks/deliveries                    - delivery log (`?webhook=<id>&status=failed`)
+ * POST   /api/webhooks/deliveries/:id/redeliver      - send a logged delivery again
+ *
+ * The signing secret is only returned when the subscription is created.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth/roles';
+import type { WebhookDispatcher } from './dispatcher';
+import { WEBHOOK_EVENTS } from './store';
+import type { WebhookStore, WebhookSubscription } from './store';
+
+const createWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/, error: 'Must be an http(s) URL' }),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1)
+    .default([...WEBHOOK_EVENTS]),
+  description: z.string().max(200).nullable().default(null),
+});
+
+const deliveryQuerySchema = z.object({
+  webhook: z.string().optional(),
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+});
+
+type WebhookRouterOptions = {
+  store: WebhookStore;
+  dispatcher: WebhookDispatcher;
+};
+
+const withoutSecret = ({
+  secret: _secret,
+  ...subscription
+}: WebhookSubscription): Omit<WebhookSubscription, 'secret'> => subscription;
+
+export const createWebhookRouter = ({
+  store,
+  dispatcher,
+}: WebhookRouterOptions): express.Router => {
+  const router = express.Router();
+
+  router.post('/api/webhooks', requireRole('admin'), express.json(), (req, res) => {
+    const parsed = createWebhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid webhook',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const webhook = store.create({ ...parsed.data, createdBy: res.locals.user?.id ?? 'unknown' });
+    console.log('[Webhook] Subscribed', webhook.url, `(${webhook.events.join(', ')})`);
+    return res.status(201).json({ webhook });
+  });
+
+  router.get('/api/webhooks', requireRole('admin'), (_req, res) => {
+    res.json({ webhooks: store.list().map(withoutSecret) });
+  });
+
+  router.get('/api/webhooks/deliveries', requireRole('admin'), (req, res) => {
+    const parsed = deliveryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    const { webhook, status } = parsed.data;
+    return res.json({
+      deliveries: dispatcher.list({
+        ...(webhook !== undefined && { subscriptionId: webhook }),
+        ...(status !== undefined && { status }),
+      }),
+    });
+  });
+
+  router.post(
+    '/api/webhooks/deliveries/:id/redeliver',
+    requireRole('admin'),
+    (req: express.Request<{ id: string }>, res) => {
+      const delivery = dispatcher.redeliver(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: 'Delivery or its webhook not found' });
+      }
+      return res.status(202).json({ delivery });
+    }
+  );
+
+  router.delete(
+    '/api/webhooks/:id',
+    requireRole('admin'),
+    (req: express.Request<{ id: string }>, res) => {
+      if (!store.remove(req.params.id)) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      console.log('[Webhook] Unsubscribed', req.params.id);
+      return res.status(204).end();
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,58 @@
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries `X-Webhook-Signature: t=<timestamp>,v1=<hex>`, where
+ * the hex is an HMAC-SHA256, keyed with the subscription's secret, of
+ * `<timestamp>.<raw body>`. Signing the timestamp along with the body lets
+ * receivers reject replayed deliveries.
+ */
+
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const hmac = (secret: string, timestamp: number, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Signature header value for a body, at `timestamp` seconds since the epoch
+ */
+export const signWebhookBody = (
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string => `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+
+/**
+ * Check a signature header as a receiver would. Signatures older than
+ * `toleranceSeconds` are rejected.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300
+): boolean => {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key = '', ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/** Random secret handed out when a subscription is created */
+export const generateWebhookSecret = (): string =>
+  `whsec_${crypto.randomBytes(24).toString('base64url')}`;
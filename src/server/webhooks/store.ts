@@ -0,0 +1,102 @@
+/**
+ * Webhook subscription store
+ *
+ * Subscriptions are created by admins through the API and persisted to a
+ * JSON file in STATE_DIR. Each one has its own signing secret, which is
+ * only shown when the subscription is created.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from '../json-file';
+import { generateWebhookSecret } from './signature';
+
+export const WEBHOOK_EVENTS = [
+  'render.started',
+  'render.completed',
+  'render.failed',
+  'render.deleted',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookSubscription = {
+  id: string;
+  /** Receiver the payloads are POSTed to */
+  url: string;
+  /** Events the receiver wants */
+  events: WebhookEventType[];
+  description: string | null;
+  /** HMAC key for the X-Webhook-Signature header */
+  secret: string;
+  /** User id of whoever created the subscription */
+  createdBy: string;
+  createdAt: string;
+};
+
+type WebhookStoreOptions = {
+  /** JSON file the subscriptions are persisted to */
+  stateFile: string;
+};
+
+type PersistedWebhooks = {
+  subscriptions: WebhookSubscription[];
+};
+
+export type WebhookStore = {
+  create: (
+    subscription: Pick<WebhookSubscription, 'url' | 'events' | 'description' | 'createdBy'>
+  ) => WebhookSubscription;
+  get: (id: string) => WebhookSubscription | undefined;
+  /** All subscriptions, newest first */
+  list: () => WebhookSubscription[];
+  /** Subscriptions that want an event */
+  subscribedTo: (event: WebhookEventType) => WebhookSubscription[];
+  /** Returns false for unknown subscriptions */
+  remove: (id: string) => boolean;
+};
+
+export const createWebhookStore = ({ stateFile }: WebhookStoreOptions): WebhookStore => {
+  const subscriptions = new Map<string, WebhookSubscription>(
+    readJsonFile<PersistedWebhooks>(stateFile, { subscriptions: [] }).subscriptions.map(
+      (subscription) => [subscription.id, subscription]
+    )
+  );
+
+  const persist = (): void => {
+    writeJsonFile(stateFile, {
+      subscriptions: [...subscriptions.values()],
+    } satisfies PersistedWebhooks);
+  };
+
+  const list = (): WebhookSubscription[] =>
+    [...subscriptions.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    create: (details): WebhookSubscription => {
+      const subscription: WebhookSubscription = {
+        ...details,
+        id: randomUUID(),
+        secret: generateWebhookSecret(),
+        createdAt: new Date().toISOString(),
+      };
+      subscriptions.set(subscription.id, subscription);
+      persist();
+      return subscription;
+    },
+
+    get: (id): WebhookSubscription | undefined => subscriptions.get(id),
+
+    list,
+
+    subscribedTo: (event): WebhookSubscription[] =>
+      list().filter((subscription) => subscription.events.includes(event)),
+
+    remove: (id): boolean => {
+      if (!subscriptions.delete(id)) {
+        return false;
+      }
+      persist();
+      return true;
+    },
+  };
+};
@@ -17,13 +17,37 @@ export type Direction = 'left' | 'right' | 'top' | 'bottom';
 
 /**
  * Wipe direction options for mask/reveal animations
+ * (iris-out opens from the center, iris-in closes towards it)
  */
-export type WipeDirection = 'left-to-right' | 'right-to-left' | 'top-to-bottom' | 'bottom-to-top';
+export type WipeDirection =
+  | 'left-to-right'
+  | 'right-to-left'
+  | 'top-to-bottom'
+  | 'bottom-to-top'
+  | 'top-left-to-bottom-right'
+  | 'top-right-to-bottom-left'
+  | 'bottom-left-to-top-right'
+  | 'bottom-right-to-top-left'
+  | 'iris-out'
+  | 'iris-in';
+
+/**
+ * Animation styles for logo animations
+ */
+export const LOGO_ANIMATION_TYPES = [
+  'fade',
+  'scale',
+  'bounce',
+  'slide',
+  'rotate',
+  'wipe',
+  'glitch',
+] as const;
 
 /**
  * Animation type for logo animations
  */
-export type LogoAnimationType = 'fade' | 'scale' | 'bounce' | 'slide' | 'rotate' | 'wipe' | 'glitch';
+export type LogoAnimationType = (typeof LOGO_ANIMATION_TYPES)[number];
 
 /**
  * Text animation type options
@@ -43,7 +67,7 @@ export type SpringConfig = {
 /**
  * Common spring presets
  */
-export const SPRING_PRESETS: Record<string, SpringConfig> = {
+export const SPRING_PRESETS = {
   /** Subtle, professional feel */
   subtle: { damping: 15, stiffness: 100 },
   /** Moderate bounce (recommended default) */
@@ -52,20 +76,26 @@ export const SPRING_PRESETS: Record<string, SpringConfig> = {
   bouncy: { damping: 7, stiffness: 150 },
   /** Fast, snappy response */
   snappy: { damping: 12, stiffness: 200 },
-} as const;
+} as const satisfies Record<string, SpringConfig>;
+
+/**
+ * Name of a spring preset
+ */
+export type SpringPresetName = keyof typeof SPRING_PRESETS;
 
 /**
- * Frame timing constants at 60fps
+ * Timing constants in seconds; convert to frames with useVideoConfig().fps
+ * so animations last as long at any frame rate
  */
 export const TIMING = {
   /** Quick animation: 0.25-0.33s */
-  quick: { min: 15, max: 20 },
+  quick: { min: 0.25, max: 1 / 3 },
   /** Standard animation: 0.5-0.75s */
-  standard: { min: 30, max: 45 },
+  standard: { min: 0.5, max: 0.75 },
   /** Logo reveal: 0.75-1.5s */
-  logoReveal: { min: 45, max: 90 },
+  logoReveal: { min: 0.75, max: 1.5 },
   /** Total animation duration: 1.5-5s */
-  total: { min: 90, max: 300 },
+  total: { min: 1.5, max: 5 },
 } as const;
 
 /**